@@ -1,41 +1,36 @@
-import axios from 'axios';
-
-const BASE_URL = 'https://ba740c5bab92.ngrok-free.app';
+import { getLLMConfig } from './config/llm';
+import { OllamaProvider } from './llm/ollama.provider';
 
+/**
+ * Report which Ollama endpoints the configured server supports and how chat will be sent.
+ *
+ *   npm run check-ollama -- [baseUrl] [model]
+ */
 async function checkEndpoints() {
-    console.log("Checking /api/tags...");
-    try {
-        await axios.get(`${BASE_URL}/api/tags`);
-        console.log("/api/tags: OK");
-    } catch (e: any) {
-        console.log(`/api/tags: ${e.message} ${e.response?.status}`);
-    }
+    const config = getLLMConfig().ollama;
+    const baseUrl = (process.argv[2] || config.baseUrl).replace(/\/+$/, '');
+    const model = process.argv[3] || config.model;
+
+    const provider = new OllamaProvider(baseUrl, model, config.contextTokens, config.embedModel, 'auto', config.chatTemplate);
+    console.log(`Checking ${baseUrl} with model ${model}...`);
 
-    console.log("Checking /api/generate...");
-    try {
-        await axios.post(`${BASE_URL}/api/generate`, {
-            model: "llama3:8b",
-            prompt: "hi",
-            stream: false
-        });
-        console.log("/api/generate: OK");
-    } catch (e: any) {
-        console.log(`/api/generate: ${e.message} ${e.response?.status}`);
+    const capabilities = await provider.detectCapabilities();
+    console.log(`Server reachable:  ${capabilities.reachable ? 'yes' : 'no'}`);
+    console.log(`Model pulled:      ${capabilities.modelAvailable ? 'yes' : 'no'}`);
+    console.log(`/api/chat:         ${capabilities.chat ? 'OK' : 'unavailable'}`);
+    console.log(`/api/generate:     ${capabilities.generate ? 'OK' : 'unavailable'}`);
+    if (capabilities.embed !== undefined) {
+        console.log(`/api/embed:        ${capabilities.embed ? 'OK' : 'unavailable'} (${config.embedModel})`);
     }
+    capabilities.errors.forEach(e => console.log(`  ${e}`));
 
-    console.log("Checking /api/chat...");
-    try {
-        await axios.post(`${BASE_URL}/api/chat`, {
-            model: "llama3:8b",
-            messages: [{ role: "user", content: "hi" }],
-            stream: false
-        });
-        console.log("/api/chat: OK");
-    } catch (e: any) {
-        console.log(`/api/chat: ${e.message} ${e.response?.status}`);
-        if (e.response && e.response.status === 404) {
-            console.log("CONFIRMED: /api/chat is 404 Not Found");
-        }
+    if (capabilities.chat) {
+        console.log('Chat will use /api/chat with role-separated messages');
+    } else if (capabilities.generate) {
+        console.log(`Chat will fall back to /api/generate with the ${capabilities.template} template`);
+    } else {
+        console.log('Chat is not available on this server');
+        process.exit(1);
     }
 }
 
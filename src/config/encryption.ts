@@ -0,0 +1,143 @@
+import crypto from 'crypto';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+/**
+ * Envelope encryption for secrets stored in MongoDB (OAuth tokens, API keys).
+ *
+ * Each value is encrypted with its own random data key (AES-256-GCM), and the data key is
+ * wrapped with a master key from TOKEN_ENCRYPTION_KEYS. Rotating the master key only
+ * re-wraps data keys; the encrypted values themselves never need the old key again.
+ *
+ * Stored format: enc:v1:<keyId>:<wrappedDataKey>:<iv>:<authTag>:<ciphertext> (base64 parts)
+ */
+
+const PREFIX = 'enc:v1:';
+const ALGORITHM = 'aes-256-gcm';
+
+interface MasterKeys {
+    activeId: string;
+    keys: Map<string, Buffer>;
+}
+
+let cachedKeys: MasterKeys | null = null;
+
+/**
+ * TOKEN_ENCRYPTION_KEYS is a comma-separated list of `id:base64key` (32-byte keys).
+ * The first entry encrypts new values; the others remain available for decryption during rotation.
+ */
+const loadKeys = (): MasterKeys => {
+    if (cachedKeys) return cachedKeys;
+
+    const keys = new Map<string, Buffer>();
+    for (const entry of (process.env.TOKEN_ENCRYPTION_KEYS || '').split(',').map(e => e.trim()).filter(Boolean)) {
+        const [id, encoded] = entry.split(':');
+        const key = Buffer.from(encoded || '', 'base64');
+        if (!id || key.length !== 32) {
+            throw new Error(`Invalid TOKEN_ENCRYPTION_KEYS entry "${id}": expected id:base64 of a 32-byte key`);
+        }
+        keys.set(id, key);
+    }
+
+    if (keys.size === 0) {
+        if (process.env.NODE_ENV === 'production') {
+            throw new Error('TOKEN_ENCRYPTION_KEYS must be set in production');
+        }
+        console.warn('TOKEN_ENCRYPTION_KEYS is not set; deriving a development key from JWT_SECRET');
+        const secret = process.env.JWT_SECRET || 'your-default-jwt-secret';
+        keys.set('dev', crypto.createHash('sha256').update(`monocle-secrets:${secret}`).digest());
+    }
+
+    cachedKeys = { activeId: keys.keys().next().value as string, keys };
+    return cachedKeys;
+};
+
+const seal = (key: Buffer, plaintext: Buffer): { iv: Buffer, tag: Buffer, data: Buffer } => {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+    const data = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+    return { iv, tag: cipher.getAuthTag(), data };
+};
+
+const open = (key: Buffer, iv: Buffer, tag: Buffer, data: Buffer): Buffer => {
+    const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(data), decipher.final()]);
+};
+
+const wrapDataKey = (masterKey: Buffer, dataKey: Buffer): string => {
+    const { iv, tag, data } = seal(masterKey, dataKey);
+    return Buffer.concat([iv, tag, data]).toString('base64');
+};
+
+const unwrapDataKey = (masterKey: Buffer, wrapped: string): Buffer => {
+    const raw = Buffer.from(wrapped, 'base64');
+    return open(masterKey, raw.subarray(0, 12), raw.subarray(12, 28), raw.subarray(28));
+};
+
+const parse = (value: string) => {
+    const [keyId, wrappedKey, iv, tag, data] = value.slice(PREFIX.length).split(':');
+    if (!keyId || !wrappedKey || !iv || !tag || data === undefined) throw new Error('Malformed encrypted secret');
+    return { keyId, wrappedKey, iv, tag, data };
+};
+
+const masterKey = (keyId: string): Buffer => {
+    const key = loadKeys().keys.get(keyId);
+    if (!key) throw new Error(`Encryption key "${keyId}" is not configured`);
+    return key;
+};
+
+export const isEncryptedSecret = (value?: string | null): boolean => !!value && value.startsWith(PREFIX);
+
+/**
+ * Encrypt a secret with a fresh data key wrapped by the active master key
+ */
+export const encryptSecret = (plaintext: string): string => {
+    const { activeId } = loadKeys();
+    const dataKey = crypto.randomBytes(32);
+    const { iv, tag, data } = seal(dataKey, Buffer.from(plaintext, 'utf8'));
+
+    return PREFIX + [
+        activeId,
+        wrapDataKey(masterKey(activeId), dataKey),
+        iv.toString('base64'),
+        tag.toString('base64'),
+        data.toString('base64')
+    ].join(':');
+};
+
+/**
+ * Decrypt a stored secret. Values written before encryption was enabled are returned as-is
+ * until the migration has encrypted them.
+ */
+export const decryptSecret = (value?: string | null): string | undefined => {
+    if (!value) return undefined;
+    if (!isEncryptedSecret(value)) return value;
+
+    const { keyId, wrappedKey, iv, tag, data } = parse(value);
+    const dataKey = unwrapDataKey(masterKey(keyId), wrappedKey);
+    return open(dataKey, Buffer.from(iv, 'base64'), Buffer.from(tag, 'base64'), Buffer.from(data, 'base64')).toString('utf8');
+};
+
+/**
+ * Bring a stored value up to date: encrypt plaintext, and re-wrap the data key of values
+ * encrypted under an older master key. Returns null when nothing needs to change.
+ */
+export const reencryptSecret = (value?: string | null): string | null => {
+    if (!value) return null;
+    if (!isEncryptedSecret(value)) return encryptSecret(value);
+
+    const { activeId } = loadKeys();
+    const { keyId, wrappedKey, iv, tag, data } = parse(value);
+    if (keyId === activeId) return null;
+
+    const dataKey = unwrapDataKey(masterKey(keyId), wrappedKey);
+    return PREFIX + [activeId, wrapDataKey(masterKey(activeId), dataKey), iv, tag, data].join(':');
+};
+
+/**
+ * Encrypt a secret that may be absent, for assigning straight onto a document
+ */
+export const encryptOptionalSecret = (plaintext?: string | null): string | undefined =>
+    plaintext ? encryptSecret(plaintext) : undefined;
@@ -0,0 +1,115 @@
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+import type { GenerateOptions } from '../llm/types';
+
+export type LLMProviderName = 'ollama' | 'gemini' | 'groq' | 'mock';
+
+export type OllamaChatMode = 'auto' | 'chat' | 'generate';
+
+/** Callers that tune sampling separately */
+export type LLMUseCase = 'chat' | 'work-insight' | 'priority-reasoning' | 'thread-summary' | 'email-classification';
+
+const DEFAULT_GENERATION_OPTIONS: Record<LLMUseCase, GenerateOptions> = {
+    'chat': { temperature: 0.7 },
+    'work-insight': { temperature: 0.4 },
+    'priority-reasoning': { temperature: 0.2 },
+    'thread-summary': { temperature: 0.3 },
+    'email-classification': { temperature: 0, maxTokens: 256 }
+};
+
+const PROVIDERS: LLMProviderName[] = ['ollama', 'gemini', 'groq', 'mock'];
+
+export interface LLMConfig {
+    provider: LLMProviderName;
+    ollama: {
+        baseUrl: string;
+        model: string;
+        contextTokens: number;
+        embedModel?: string;
+        /** `auto` probes the server for /api/chat; `generate` always uses a chat template over /api/generate */
+        chatMode: OllamaChatMode;
+        chatTemplate?: string;
+    };
+    gemini: { apiKey?: string; model: string; contextTokens: number; embedModel: string };
+    groq: { apiKey?: string; model: string; contextTokens: number };
+    cache: { enabled: boolean; ttlMs: number; maxEntries: number };
+    /** Daily token allowances; 0 means unlimited */
+    quotas: { userDailyTokens: number; teamDailyTokens: number };
+    generation: Record<LLMUseCase, GenerateOptions>;
+}
+
+/**
+ * Resolve the LLM configuration from the environment.
+ * Read lazily so that scripts which load .env late still pick up their values.
+ */
+export const getLLMConfig = (): LLMConfig => {
+    const requested = (process.env.LLM_PROVIDER || '').toLowerCase() as LLMProviderName;
+    const fallback: LLMProviderName = process.env.NODE_ENV === 'test' ? 'mock' : 'ollama';
+
+    if (requested && !PROVIDERS.includes(requested)) {
+        console.warn(`Unknown LLM_PROVIDER "${requested}", falling back to ${fallback}`);
+    }
+
+    return {
+        provider: PROVIDERS.includes(requested) ? requested : fallback,
+        ollama: {
+            baseUrl: (process.env.OLLAMA_BASE_URL || 'http://localhost:11434').replace(/\/+$/, ''),
+            model: process.env.OLLAMA_MODEL || 'llama3:8b',
+            contextTokens: parseInt(process.env.OLLAMA_CONTEXT_TOKENS || '') || 8192,
+            // Embeddings are only used when an embedding model has been pulled on the server
+            embedModel: process.env.OLLAMA_EMBED_MODEL || undefined,
+            chatMode: (['auto', 'chat', 'generate'].includes(process.env.OLLAMA_CHAT_MODE || '') ? process.env.OLLAMA_CHAT_MODE : 'auto') as OllamaChatMode,
+            chatTemplate: process.env.OLLAMA_CHAT_TEMPLATE || undefined
+        },
+        gemini: {
+            apiKey: process.env.GEMINI_API_KEY,
+            model: process.env.GEMINI_MODEL || 'gemini-1.5-flash',
+            contextTokens: parseInt(process.env.GEMINI_CONTEXT_TOKENS || '') || 32768,
+            embedModel: process.env.GEMINI_EMBED_MODEL || 'text-embedding-004'
+        },
+        groq: {
+            apiKey: process.env.GROQ_API_KEY,
+            model: process.env.GROQ_MODEL || 'llama-3.1-8b-instant',
+            contextTokens: parseInt(process.env.GROQ_CONTEXT_TOKENS || '') || 8192
+        },
+        cache: {
+            enabled: process.env.LLM_CACHE_ENABLED !== 'false',
+            ttlMs: (parseInt(process.env.LLM_CACHE_TTL_MINUTES || '') || 360) * 60 * 1000,
+            maxEntries: parseInt(process.env.LLM_CACHE_MAX_ENTRIES || '') || 2000
+        },
+        quotas: {
+            userDailyTokens: parseInt(process.env.LLM_USER_DAILY_TOKENS || '') || 0,
+            teamDailyTokens: parseInt(process.env.LLM_TEAM_DAILY_TOKENS || '') || 0
+        },
+        generation: parseGenerationOptions(process.env.LLM_GENERATION_OPTIONS)
+    };
+};
+
+/**
+ * Merge per use case overrides from JSON, e.g. {"chat":{"temperature":0.5,"stop":["###"]}}, over the defaults
+ */
+const parseGenerationOptions = (json?: string): Record<LLMUseCase, GenerateOptions> => {
+    const options = { ...DEFAULT_GENERATION_OPTIONS };
+    if (!json) return options;
+
+    try {
+        const overrides = JSON.parse(json);
+        for (const [useCase, value] of Object.entries(overrides)) {
+            if (!(useCase in options)) {
+                console.warn(`Ignoring generation options for unknown use case "${useCase}"`);
+                continue;
+            }
+            options[useCase as LLMUseCase] = { ...options[useCase as LLMUseCase], ...(value as GenerateOptions) };
+        }
+    } catch (error: any) {
+        console.warn('Invalid LLM_GENERATION_OPTIONS, using defaults:', error.message);
+    }
+    return options;
+};
+
+/**
+ * Sampling, context size and stop tokens for one use case
+ */
+export const getGenerationOptions = (useCase: LLMUseCase): GenerateOptions => getLLMConfig().generation[useCase];
@@ -0,0 +1,35 @@
+export interface SyncConfig {
+    /** Run the background scheduler in this process */
+    enabled: boolean;
+    /** Time between scheduled syncs of one integration */
+    intervalMs: number;
+    /** How often the scheduler looks for due integrations and queued jobs */
+    tickMs: number;
+    /** Up to this fraction of the interval is added at random so users don't all sync at once */
+    jitterRatio: number;
+    /** Cap on the exponential backoff after failed syncs */
+    maxBackoffMs: number;
+    /** Jobs run at the same time in this process */
+    concurrency: number;
+    /** A job still running after this long is considered lost (e.g. the process died) */
+    jobTimeoutMs: number;
+}
+
+/**
+ * Resolve the background sync configuration from the environment
+ */
+export const getSyncConfig = (): SyncConfig => {
+    const jitter = parseFloat(process.env.SYNC_JITTER_RATIO || '');
+
+    return {
+        enabled: process.env.SYNC_SCHEDULER_ENABLED
+            ? process.env.SYNC_SCHEDULER_ENABLED !== 'false'
+            : process.env.NODE_ENV !== 'test',
+        intervalMs: (parseInt(process.env.SYNC_INTERVAL_MINUTES || '') || 15) * 60 * 1000,
+        tickMs: (parseInt(process.env.SYNC_TICK_SECONDS || '') || 30) * 1000,
+        jitterRatio: Number.isFinite(jitter) && jitter >= 0 ? Math.min(jitter, 1) : 0.2,
+        maxBackoffMs: (parseInt(process.env.SYNC_MAX_BACKOFF_MINUTES || '') || 240) * 60 * 1000,
+        concurrency: parseInt(process.env.SYNC_CONCURRENCY || '') || 2,
+        jobTimeoutMs: (parseInt(process.env.SYNC_JOB_TIMEOUT_MINUTES || '') || 30) * 60 * 1000
+    };
+};
@@ -0,0 +1,112 @@
+import { IUser } from '../models/User';
+import { IWorkItem, WorkItemModel } from '../models/WorkItem';
+import { getRepoThread, GITHUB_PAGE_SIZE, GitHubComment, githubJson, isGitHubConnected, sameLogin, toGitHubComment } from './github';
+import { Connector, ConnectorContext, ItemChange, SyncPage, SyncPageRequest, SyncStream } from './types';
+
+const PREVIEW_LENGTH = 500;
+// Open pull requests whose comments are followed per run, most recently active first
+const MAX_PULL_STREAMS = 50;
+
+/**
+ * Comments on the open pull requests imported by the issues connector, as messages: conversation comments
+ * and review comments on the diff. The user's own comments are left out. Each pull request is a stream
+ * resuming from the newest `updated_at` seen, so edited comments are updated.
+ */
+export class GitHubCommentsConnector implements Connector<GitHubComment> {
+    readonly id = 'github-comments';
+    readonly provider = 'github' as const;
+    readonly label = 'GitHub pull request comments';
+    readonly countKey = 'commentsSynced';
+    readonly idField = 'githubCommentId';
+    readonly itemType = 'message' as const;
+
+    isConnected(user: IUser): boolean {
+        return isGitHubConnected(user);
+    }
+
+    async listStreams(context: ConnectorContext): Promise<SyncStream[]> {
+        const pulls = await WorkItemModel.find({
+            userId: context.userId,
+            type: 'task',
+            'metadata.githubId': { $exists: true },
+            'metadata.kind': 'pull',
+            'metadata.state': 'open'
+        }).sort({ timestamp: -1 }).limit(MAX_PULL_STREAMS);
+
+        return pulls.map(pull => ({
+            id: pull.get('metadata.githubId'),
+            label: pull.title,
+            data: { repo: pull.get('metadata.repo'), number: pull.get('metadata.number'), title: pull.get('metadata.title') }
+        }));
+    }
+
+    /**
+     * Conversation comments are read first, then review comments; the page token says which list it continues
+     */
+    async fetchPage(context: ConnectorContext, request: SyncPageRequest): Promise<SyncPage<GitHubComment>> {
+        const { repo, number, title } = request.stream.data;
+        const since = request.cursor ? `&since=${encodeURIComponent(request.cursor)}` : '';
+        const separator = request.pageToken?.indexOf('|') ?? -1;
+        const kind = (separator > 0 ? request.pageToken!.slice(0, separator) : 'issue-comment') as GitHubComment['kind'];
+        const url = separator > 0
+            ? request.pageToken!.slice(separator + 1)
+            : `/repos/${repo}/issues/${number}/comments?per_page=${GITHUB_PAGE_SIZE}${since}`;
+
+        const { data, nextUrl } = await githubJson(context.userId, context.credentials.apiKey!, 'GET', url);
+        const comments: GitHubComment[] = (data || []).map((comment: any) => toGitHubComment(comment, kind, repo, number, title));
+
+        let nextPageToken = nextUrl ? `${kind}|${nextUrl}` : undefined;
+        if (!nextPageToken && kind === 'issue-comment') {
+            nextPageToken = `review-comment|/repos/${repo}/pulls/${number}/comments?per_page=${GITHUB_PAGE_SIZE}${since}`;
+        }
+
+        // Both lists share the stream's cursor, so keep the newest update across their pages
+        for (const comment of comments) {
+            if (!request.stream.data.newest || comment.updatedAt > request.stream.data.newest) {
+                request.stream.data.newest = comment.updatedAt;
+            }
+        }
+        return { records: comments, nextPageToken, cursor: request.stream.data.newest };
+    }
+
+    getExternalId(comment: GitHubComment): string {
+        return comment.key;
+    }
+
+    async toChange(context: ConnectorContext, comment: GitHubComment, existing: IWorkItem | undefined): Promise<ItemChange | null> {
+        if (comment.deleted) return existing ? { action: 'remove' } : null;
+        if (sameLogin(comment.author, context.user.integrations?.github?.login)) return null;
+        if (existing?.get('metadata.updatedAt') === comment.updatedAt) return null;
+
+        const preview = comment.body.trim().slice(0, PREVIEW_LENGTH);
+        const metadata = {
+            githubCommentId: comment.key,
+            kind: comment.kind,
+            repo: comment.repo,
+            number: comment.number,
+            url: comment.url,
+            author: comment.author,
+            path: comment.path,
+            updatedAt: comment.updatedAt
+        };
+        const thread = getRepoThread(comment.repo);
+        const people = comment.author ? [comment.author] : [];
+
+        if (existing) return { action: 'update', changes: { preview, metadata }, thread, people };
+        return {
+            action: 'create',
+            item: {
+                title: `${comment.author || 'Someone'} on ${comment.repo}#${comment.number}${comment.pullTitle ? `: ${comment.pullTitle}` : ''}`,
+                type: 'message',
+                source: 'GitHub',
+                preview,
+                timestamp: new Date(comment.createdAt),
+                isRead: false,
+                priority: 'medium',
+                metadata
+            },
+            thread,
+            people
+        };
+    }
+}
@@ -0,0 +1,114 @@
+import { IUser } from '../models/User';
+import { IWorkItem } from '../models/WorkItem';
+import { getRepoThread, GITHUB_PAGE_SIZE, GitHubInvolvement, GitHubIssue, githubJson, isGitHubConnected, toGitHubIssue } from './github';
+import { Connector, ConnectorContext, ItemChange, SyncPage, SyncPageRequest, SyncStream } from './types';
+
+const PREVIEW_LENGTH = 500;
+
+// Search qualifiers of each stream; `reviewed` only keeps PRs already imported up to date once their review request is gone
+const STREAM_QUERIES: Record<string, (login: string) => string> = {
+    'assigned': login => `assignee:${login}`,
+    'review-requested': login => `is:pr review-requested:${login}`,
+    'reviewed': login => `is:pr reviewed-by:${login}`
+};
+
+/**
+ * Issues and pull requests assigned to the user, and pull requests waiting for their review, as tasks.
+ * Closed or merged ones are completed. Each stream is a search resuming from the newest `updated_at` seen;
+ * the first sync only imports open ones. GitHub webhook deliveries go through the same mapping.
+ */
+export class GitHubIssuesConnector implements Connector<GitHubIssue> {
+    readonly id = 'github-issues';
+    readonly provider = 'github' as const;
+    readonly label = 'GitHub issues and pull requests';
+    readonly countKey = 'issuesSynced';
+    readonly idField = 'githubId';
+    readonly itemType = 'task' as const;
+
+    isConnected(user: IUser): boolean {
+        return isGitHubConnected(user);
+    }
+
+    async listStreams(): Promise<SyncStream[]> {
+        return Object.keys(STREAM_QUERIES).map(id => ({ id }));
+    }
+
+    async fetchPage(context: ConnectorContext, request: SyncPageRequest): Promise<SyncPage<GitHubIssue>> {
+        const login = context.user.integrations!.github!.login!;
+        const involvement: GitHubInvolvement[] = request.stream.id === 'review-requested' ? ['review-requested'] : [];
+
+        const query = [
+            STREAM_QUERIES[request.stream.id](login),
+            // Re-read the cursor's second and skip unchanged records, so nothing updated in it is missed
+            request.cursor ? `updated:>=${request.cursor}` : 'is:open'
+        ].join(' ');
+        const url = request.pageToken
+            || `/search/issues?q=${encodeURIComponent(query)}&sort=updated&order=asc&per_page=${GITHUB_PAGE_SIZE}`;
+
+        const { data, nextUrl } = await githubJson(context.userId, context.credentials.apiKey!, 'GET', url);
+        const issues: GitHubIssue[] = (data.items || []).map((issue: any) => toGitHubIssue(issue, login, involvement));
+
+        return {
+            records: issues,
+            nextPageToken: nextUrl,
+            // Oldest first, so the last record of the last page is the new cursor
+            cursor: issues.length > 0 ? issues[issues.length - 1].updatedAt : undefined
+        };
+    }
+
+    getExternalId(issue: GitHubIssue): string {
+        return issue.key;
+    }
+
+    async toChange(context: ConnectorContext, issue: GitHubIssue, existing: IWorkItem | undefined, stream: SyncStream): Promise<ItemChange | null> {
+        if (issue.deleted) return existing ? { action: 'remove' } : null;
+
+        if (!existing) {
+            // Only open work the user is involved in becomes a task
+            if (stream.id === 'reviewed' || issue.state !== 'open' || issue.involvement.length === 0) return null;
+        } else if (existing.get('metadata.updatedAt') === issue.updatedAt) {
+            return null;
+        }
+
+        const involvement = [...new Set([...(existing?.get('metadata.involvement') || []), ...issue.involvement])];
+        const reviewOnly = issue.kind === 'pull' && !involvement.includes('assigned') && involvement.includes('review-requested');
+        const fields = {
+            title: `${reviewOnly ? 'Review ' : ''}${issue.key}: ${issue.title}`,
+            preview: (issue.body || '').slice(0, PREVIEW_LENGTH),
+            timestamp: new Date(issue.updatedAt),
+            status: this.mapStatus(issue, existing),
+            metadata: {
+                githubId: issue.key,
+                repo: issue.repo,
+                number: issue.number,
+                title: issue.title,
+                kind: issue.kind,
+                state: issue.state,
+                draft: issue.draft,
+                url: issue.url,
+                author: issue.author,
+                updatedAt: issue.updatedAt,
+                involvement
+            }
+        };
+        const thread = getRepoThread(issue.repo);
+        const people = issue.author ? [issue.author] : [];
+
+        if (existing) return { action: 'update', changes: fields, thread, people };
+        return {
+            action: 'create',
+            item: { ...fields, type: 'task', source: 'GitHub', isRead: false, priority: 'medium' },
+            thread,
+            people
+        };
+    }
+
+    /**
+     * Closed and merged work is completed; open work keeps the status set in Monocle, unless it was reopened
+     */
+    private mapStatus(issue: GitHubIssue, existing?: IWorkItem): 'todo' | 'in-progress' | 'completed' {
+        if (issue.state !== 'open') return 'completed';
+        const current = existing?.status;
+        return !current || current === 'completed' ? 'todo' : current;
+    }
+}
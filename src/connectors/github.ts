@@ -0,0 +1,206 @@
+import { IUser } from '../models/User';
+import { CredentialService, ReauthRequiredError } from '../services/credential.service';
+import { ThreadRoute } from './types';
+
+const GITHUB_API_URL = 'https://api.github.com';
+const GITHUB_API_VERSION = '2022-11-28';
+const GITHUB_MAX_RETRIES = 3;
+// Longer rate limit waits fail the run; the next scheduled sync picks up where it stopped
+const GITHUB_MAX_RATE_LIMIT_WAIT_SECONDS = 60;
+
+export const GITHUB_PAGE_SIZE = 100;
+
+/**
+ * Why an issue or pull request is on the user's plate
+ */
+export type GitHubInvolvement = 'assigned' | 'review-requested';
+
+/**
+ * An issue or pull request, from the search API or a webhook payload
+ */
+export type GitHubIssue = {
+    /** `owner/repo#number` */
+    key: string;
+    repo: string;
+    number: number;
+    kind: 'issue' | 'pull';
+    title: string;
+    body?: string;
+    state: 'open' | 'closed' | 'merged';
+    draft?: boolean;
+    url: string;
+    author?: string;
+    updatedAt: string;
+    involvement: GitHubInvolvement[];
+    /** Deleted on GitHub (issues webhook) */
+    deleted?: boolean;
+};
+
+/**
+ * A comment on a pull request: a conversation comment or a review comment on the diff
+ */
+export type GitHubComment = {
+    /** `issue-comment:<id>` or `review-comment:<id>` */
+    key: string;
+    kind: 'issue-comment' | 'review-comment';
+    repo: string;
+    number: number;
+    pullTitle?: string;
+    body: string;
+    url: string;
+    author?: string;
+    path?: string;
+    createdAt: string;
+    updatedAt: string;
+    deleted?: boolean;
+};
+
+export const isGitHubConnected = (user: IUser): boolean => {
+    const github = user.integrations?.github;
+    return !!(github?.connected && github.apiKey);
+};
+
+/**
+ * Call the GitHub REST API, waiting out short rate limits (403 or 429 with Retry-After or an exhausted quota)
+ */
+export const githubRequest = async (token: string, method: 'GET' | 'POST' | 'PATCH', pathOrUrl: string, body?: any): Promise<Response> => {
+    const url = pathOrUrl.startsWith('https://') ? pathOrUrl : `${GITHUB_API_URL}${pathOrUrl}`;
+
+    for (let attempt = 0; ; attempt++) {
+        const response = await fetch(url, {
+            method,
+            headers: {
+                'Authorization': `Bearer ${token}`,
+                'Accept': 'application/vnd.github+json',
+                'X-GitHub-Api-Version': GITHUB_API_VERSION,
+                'Content-Type': 'application/json'
+            },
+            body: body ? JSON.stringify(body) : undefined
+        });
+
+        const wait = getRateLimitWait(response);
+        if (wait === undefined || attempt >= GITHUB_MAX_RETRIES || wait > GITHUB_MAX_RATE_LIMIT_WAIT_SECONDS) return response;
+
+        await new Promise(resolve => setTimeout(resolve, Math.max(wait, 1) * 1000));
+    }
+};
+
+/**
+ * Seconds to wait before retrying a rate limited response, undefined when it wasn't rate limited
+ */
+const getRateLimitWait = (response: Response): number | undefined => {
+    if (response.status !== 403 && response.status !== 429) return undefined;
+
+    const retryAfter = response.headers.get('retry-after');
+    if (retryAfter) return parseInt(retryAfter) || 1;
+    if (response.headers.get('x-ratelimit-remaining') === '0') {
+        const reset = parseInt(response.headers.get('x-ratelimit-reset') || '');
+        return reset ? reset - Math.floor(Date.now() / 1000) : 60;
+    }
+    return undefined;
+};
+
+/**
+ * Call the GitHub API and parse the JSON body, with the `next` page URL from the Link header.
+ * A rejected token puts the integration in needs-reauth.
+ */
+export const githubJson = async (userId: string, token: string, method: 'GET' | 'POST' | 'PATCH', pathOrUrl: string, body?: any): Promise<{ data: any, nextUrl?: string }> => {
+    const response = await githubRequest(token, method, pathOrUrl, body);
+
+    if (response.status === 401) {
+        await CredentialService.markNeedsReauth(userId, 'github', await response.text());
+        throw new ReauthRequiredError('github', 'GitHub rejected the stored token. Please reconnect GitHub.');
+    }
+    if (!response.ok) {
+        throw new Error(`GitHub API error: ${response.status} ${await response.text()}`);
+    }
+
+    const next = /<([^>]+)>;\s*rel="next"/.exec(response.headers.get('link') || '');
+    return { data: await response.json(), nextUrl: next?.[1] };
+};
+
+/**
+ * `owner/repo` from an API url such as `https://api.github.com/repos/owner/repo/issues/1`
+ */
+export const repoFromApiUrl = (url?: string): string | undefined => {
+    const match = /\/repos\/([^/]+\/[^/]+)/.exec(url || '');
+    return match?.[1];
+};
+
+/**
+ * Normalize an issue or pull request from the search API or an `issues` webhook
+ */
+export const toGitHubIssue = (issue: any, login: string, involvement: GitHubInvolvement[] = []): GitHubIssue => {
+    const repo = repoFromApiUrl(issue.repository_url)!;
+    const isPull = !!issue.pull_request;
+    const assigned = (issue.assignees || []).some((assignee: any) => sameLogin(assignee.login, login));
+
+    return {
+        key: `${repo}#${issue.number}`,
+        repo,
+        number: issue.number,
+        kind: isPull ? 'pull' : 'issue',
+        title: issue.title,
+        body: issue.body || undefined,
+        state: isPull && issue.pull_request.merged_at ? 'merged' : issue.state,
+        draft: isPull ? !!issue.draft : undefined,
+        url: issue.html_url,
+        author: issue.user?.login,
+        updatedAt: issue.updated_at,
+        involvement: [...new Set<GitHubInvolvement>([...(assigned ? ['assigned' as const] : []), ...involvement])]
+    };
+};
+
+/**
+ * Normalize a pull request from a `pull_request` webhook, which has reviewers but no `repository_url`
+ */
+export const toGitHubPull = (pull: any, login: string): GitHubIssue => {
+    const repo: string = pull.base?.repo?.full_name;
+    const assigned = (pull.assignees || []).some((assignee: any) => sameLogin(assignee.login, login));
+    const reviewer = (pull.requested_reviewers || []).some((user: any) => sameLogin(user.login, login));
+
+    return {
+        key: `${repo}#${pull.number}`,
+        repo,
+        number: pull.number,
+        kind: 'pull',
+        title: pull.title,
+        body: pull.body || undefined,
+        state: pull.merged_at ? 'merged' : pull.state,
+        draft: !!pull.draft,
+        url: pull.html_url,
+        author: pull.user?.login,
+        updatedAt: pull.updated_at,
+        involvement: [...(assigned ? ['assigned' as const] : []), ...(reviewer ? ['review-requested' as const] : [])]
+    };
+};
+
+/**
+ * Normalize a conversation comment (`issue_comment`) or a review comment (`pull_request_review_comment`)
+ */
+export const toGitHubComment = (comment: any, kind: GitHubComment['kind'], repo: string, number: number, pullTitle?: string): GitHubComment => ({
+    key: `${kind}:${comment.id}`,
+    kind,
+    repo,
+    number,
+    pullTitle,
+    body: comment.body || '',
+    url: comment.html_url,
+    author: comment.user?.login,
+    path: comment.path || undefined,
+    createdAt: comment.created_at,
+    updatedAt: comment.updated_at
+});
+
+/**
+ * Issues, pull requests and comments of a repository share one thread
+ */
+export const getRepoThread = (repo: string): ThreadRoute => ({
+    externalId: `github:${repo.toLowerCase()}`,
+    title: `GitHub: ${repo}`,
+    description: `Issues, pull requests and review comments from ${repo}.`
+});
+
+// GitHub logins are case insensitive
+export const sameLogin = (a?: string, b?: string): boolean =>
+    !!a && !!b && a.toLowerCase() === b.toLowerCase();
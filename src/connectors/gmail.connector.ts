@@ -0,0 +1,245 @@
+import { google, gmail_v1 } from 'googleapis';
+import { IUser } from '../models/User';
+import { IWorkItem } from '../models/WorkItem';
+import { EmailClassificationService } from '../services/email-classification.service';
+import { getGoogleAuth, isGoogleConnected } from './google';
+import { Connector, ConnectorContext, CursorExpiredError, ItemChange, SyncPage, SyncPageRequest, WriteBackChanges, WriteBackResult } from './types';
+
+const GMAIL_BACKFILL_DAYS = parseInt(process.env.GMAIL_BACKFILL_DAYS || '') || 14;
+const GMAIL_BACKFILL_MAX_MESSAGES = parseInt(process.env.GMAIL_BACKFILL_MAX_MESSAGES || '') || 200;
+const GMAIL_LIST_PAGE_SIZE = 100;
+const GMAIL_FETCH_BATCH_SIZE = 20;
+
+type GmailRecord = {
+    id: string;
+    // `changed` messages are only updated, never imported
+    kind: 'added' | 'changed' | 'deleted';
+    message?: gmail_v1.Schema$Message;
+};
+
+/**
+ * Gmail inbox. The first sync backfills recent inbox mail; later syncs replay the Gmail history
+ * since the saved historyId, importing new mail and updating or removing items whose messages
+ * were read, relabelled or deleted. An expired historyId triggers a fresh backfill.
+ */
+export class GmailConnector implements Connector<GmailRecord> {
+    readonly id = 'gmail';
+    readonly provider = 'google' as const;
+    readonly label = 'Gmail';
+    readonly countKey = 'emailsSynced';
+    readonly idField = 'googleId';
+    readonly itemType = 'email' as const;
+    readonly writeBackFields: (keyof WriteBackChanges)[] = ['isRead'];
+
+    isConnected(user: IUser, overrideAccessToken?: string): boolean {
+        return isGoogleConnected(user, overrideAccessToken);
+    }
+
+    async fetchPage(context: ConnectorContext, request: SyncPageRequest): Promise<SyncPage<GmailRecord>> {
+        const gmail = google.gmail({ version: 'v1', auth: await getGoogleAuth(context) });
+        return request.cursor ? this.fetchHistoryPage(gmail, request) : this.fetchBackfillPage(gmail, request);
+    }
+
+    getExternalId(record: GmailRecord): string {
+        return record.id;
+    }
+
+    async toChange(context: ConnectorContext, record: GmailRecord, existing: IWorkItem | undefined): Promise<ItemChange | null> {
+        const labels = record.message?.labelIds || [];
+
+        if (record.kind === 'deleted' || labels.includes('TRASH') || labels.includes('SPAM')) {
+            return existing ? { action: 'remove' } : null;
+        }
+
+        if (existing) {
+            const isRead = !labels.includes('UNREAD');
+            const metadata = existing.toObject({ flattenMaps: true }).metadata || {};
+            if (existing.isRead === isRead && JSON.stringify(metadata.labels) === JSON.stringify(labels)) return null;
+            return { action: 'update', changes: { isRead, metadata: { ...metadata, labels } } };
+        }
+
+        if (record.kind !== 'added' || !record.message) return null;
+        return this.importMessage(record.message);
+    }
+
+    /**
+     * Add or remove the UNREAD label. Read state is a single flag, so a message whose flag Gmail already
+     * changed needs nothing. Needs the gmail.modify scope.
+     */
+    async writeBack(context: ConnectorContext, item: IWorkItem, changes: WriteBackChanges): Promise<WriteBackResult> {
+        const gmail = google.gmail({ version: 'v1', auth: await getGoogleAuth(context) });
+        const id = item.get('metadata.googleId') as string;
+        const metadata = item.toObject({ flattenMaps: true }).metadata || {};
+
+        let labels: string[];
+        try {
+            const res = await gmail.users.messages.get({ userId: 'me', id, format: 'minimal' });
+            labels = res.data.labelIds || [];
+        } catch (error: any) {
+            if (error.code === 404 || error.response?.status === 404) {
+                return { outcome: 'conflict', detail: 'The message was deleted in Gmail' };
+            }
+            throw error;
+        }
+
+        // Keep the stored labels in step, so the next history sync doesn't see a change
+        if (!labels.includes('UNREAD') === changes.isRead) {
+            return { outcome: 'unchanged', local: { metadata: { ...metadata, labels } } };
+        }
+
+        const res = await gmail.users.messages.modify({
+            userId: 'me',
+            id,
+            requestBody: changes.isRead ? { removeLabelIds: ['UNREAD'] } : { addLabelIds: ['UNREAD'] }
+        });
+        return { outcome: 'applied', local: { metadata: { ...metadata, labels: res.data.labelIds || [] } } };
+    }
+
+    /**
+     * Classify a new message and create an item for work mail
+     */
+    private async importMessage(message: gmail_v1.Schema$Message): Promise<ItemChange | null> {
+        const labels = message.labelIds || [];
+        const headers = message.payload?.headers;
+        const subject = headers?.find(h => h.name === 'Subject')?.value || 'No Subject';
+        const from = headers?.find(h => h.name === 'From')?.value || 'Unknown';
+        const snippet = message.snippet || '';
+
+        // AI CLASSIFICATION
+        const analysis = await EmailClassificationService.classifyAndPrioritizeEmail(subject, from, snippet);
+
+        // Skip if not work-related
+        if (!analysis || !analysis.isWork) {
+            console.log(`Skipping non-work email: ${subject}`);
+            return null;
+        }
+
+        return {
+            action: 'create',
+            item: {
+                type: 'email',
+                title: subject,
+                source: `Gmail: ${from}`,
+                timestamp: new Date(parseInt(message.internalDate!)),
+                preview: snippet,
+                isRead: !labels.includes('UNREAD'),
+                priority: analysis.priority,
+                metadata: {
+                    googleId: message.id,
+                    threadId: message.threadId,
+                    labels,
+                    aiReason: analysis.reason,
+                    promptVersion: analysis.promptVersion
+                }
+            }
+        };
+    }
+
+    /**
+     * One page of recent inbox mail. The first page reads the history id to continue from,
+     * so that nothing arriving during the backfill is missed.
+     */
+    private async fetchBackfillPage(gmail: gmail_v1.Gmail, request: SyncPageRequest): Promise<SyncPage<GmailRecord>> {
+        let historyId: string | undefined;
+        if (request.pageIndex === 0) {
+            const profile = await gmail.users.getProfile({ userId: 'me' });
+            historyId = profile.data.historyId!;
+        }
+
+        const remaining = GMAIL_BACKFILL_MAX_MESSAGES - request.pageIndex * GMAIL_LIST_PAGE_SIZE;
+        const res = await gmail.users.messages.list({
+            userId: 'me',
+            q: `in:inbox newer_than:${GMAIL_BACKFILL_DAYS}d`,
+            maxResults: Math.min(GMAIL_LIST_PAGE_SIZE, remaining),
+            pageToken: request.pageToken
+        });
+
+        const ids = (res.data.messages || []).map(m => m.id!);
+        const nextPageToken = res.data.nextPageToken && remaining > GMAIL_LIST_PAGE_SIZE ? res.data.nextPageToken : undefined;
+
+        return { records: await this.fetchRecords(gmail, ids, 'added'), nextPageToken, cursor: historyId };
+    }
+
+    /**
+     * One page of Gmail history: inbox mail that was added, messages whose labels changed, and deletions
+     */
+    private async fetchHistoryPage(gmail: gmail_v1.Gmail, request: SyncPageRequest): Promise<SyncPage<GmailRecord>> {
+        let res;
+        try {
+            res = await gmail.users.history.list({
+                userId: 'me',
+                startHistoryId: request.cursor,
+                historyTypes: ['messageAdded', 'messageDeleted', 'labelAdded', 'labelRemoved'],
+                maxResults: 500,
+                pageToken: request.pageToken
+            });
+        } catch (error: any) {
+            // Gmail keeps about a week of history
+            if (error.code === 404 || error.response?.status === 404) {
+                throw new CursorExpiredError(`Gmail history ${request.cursor} expired`);
+            }
+            throw error;
+        }
+
+        const added = new Set<string>();
+        const changed = new Set<string>();
+        const deleted = new Set<string>();
+
+        for (const record of res.data.history || []) {
+            record.messagesAdded?.forEach(m => {
+                // Sent mail and drafts also show up as added messages
+                if (m.message?.labelIds?.includes('INBOX')) added.add(m.message.id!);
+            });
+            record.labelsAdded?.forEach(m => changed.add(m.message!.id!));
+            record.labelsRemoved?.forEach(m => changed.add(m.message!.id!));
+            record.messagesDeleted?.forEach(m => deleted.add(m.message!.id!));
+        }
+
+        deleted.forEach(id => { added.delete(id); changed.delete(id); });
+        added.forEach(id => changed.delete(id));
+
+        const records = [
+            ...await this.fetchRecords(gmail, [...added], 'added'),
+            ...await this.fetchRecords(gmail, [...changed], 'changed'),
+            ...[...deleted].map(id => ({ id, kind: 'deleted' as const }))
+        ];
+
+        return {
+            records,
+            nextPageToken: res.data.nextPageToken || undefined,
+            cursor: res.data.historyId || undefined
+        };
+    }
+
+    /**
+     * Fetch message metadata in concurrent batches; messages that no longer exist come back as deletions.
+     * Any other failure (rate limit, server or network error) fails the page, so the history id is not
+     * advanced past a message that was never imported.
+     */
+    private async fetchRecords(gmail: gmail_v1.Gmail, ids: string[], kind: 'added' | 'changed'): Promise<GmailRecord[]> {
+        const records: GmailRecord[] = [];
+
+        for (let i = 0; i < ids.length; i += GMAIL_FETCH_BATCH_SIZE) {
+            const batch = ids.slice(i, i + GMAIL_FETCH_BATCH_SIZE);
+            const results = await Promise.allSettled(batch.map(id => gmail.users.messages.get({
+                userId: 'me',
+                id,
+                format: 'metadata',
+                metadataHeaders: ['Subject', 'From']
+            })));
+
+            for (const [index, result] of results.entries()) {
+                if (result.status === 'fulfilled') {
+                    records.push({ id: batch[index], kind, message: result.value.data });
+                } else if (result.reason?.code === 404 || result.reason?.response?.status === 404) {
+                    records.push({ id: batch[index], kind: 'deleted' });
+                } else {
+                    console.error(`Failed to fetch Gmail message ${batch[index]}:`, result.reason?.message);
+                    throw result.reason;
+                }
+            }
+        }
+
+        return records;
+    }
+}
@@ -0,0 +1,61 @@
+import { google, calendar_v3 } from 'googleapis';
+import { IUser } from '../models/User';
+import { IWorkItem } from '../models/WorkItem';
+import { getGoogleAuth, isGoogleConnected } from './google';
+import { Connector, ConnectorContext, ItemChange, SyncPage } from './types';
+
+/**
+ * Upcoming events of the primary Google calendar
+ */
+export class GoogleCalendarConnector implements Connector<calendar_v3.Schema$Event> {
+    readonly id = 'google-calendar';
+    readonly provider = 'google' as const;
+    readonly label = 'Google Calendar';
+    readonly countKey = 'meetingsSynced';
+    readonly idField = 'googleId';
+    readonly itemType = 'calendar' as const;
+
+    isConnected(user: IUser, overrideAccessToken?: string): boolean {
+        return isGoogleConnected(user, overrideAccessToken);
+    }
+
+    async fetchPage(context: ConnectorContext): Promise<SyncPage<calendar_v3.Schema$Event>> {
+        const calendar = google.calendar({ version: 'v3', auth: await getGoogleAuth(context) });
+
+        const res = await calendar.events.list({
+            calendarId: 'primary',
+            timeMin: new Date().toISOString(),
+            maxResults: 10,
+            singleEvents: true,
+            orderBy: 'startTime'
+        });
+
+        return { records: res.data.items || [] };
+    }
+
+    getExternalId(event: calendar_v3.Schema$Event): string {
+        return event.id!;
+    }
+
+    async toChange(context: ConnectorContext, event: calendar_v3.Schema$Event, existing: IWorkItem | undefined): Promise<ItemChange | null> {
+        if (existing) return null;
+
+        return {
+            action: 'create',
+            item: {
+                type: 'calendar',
+                title: event.summary || 'Meeting',
+                source: 'Google Calendar',
+                timestamp: new Date(event.start?.dateTime || event.start?.date || ''),
+                preview: event.description || '',
+                isRead: false,
+                priority: 'medium', // Default for calendar events
+                metadata: {
+                    googleId: event.id,
+                    status: event.status,
+                    location: event.location
+                }
+            }
+        };
+    }
+}
@@ -0,0 +1,107 @@
+import { google, tasks_v1 } from 'googleapis';
+import { IUser } from '../models/User';
+import { IWorkItem } from '../models/WorkItem';
+import { getGoogleAuth, isGoogleConnected } from './google';
+import { Connector, ConnectorContext, ItemChange, SyncPage, SyncPageRequest, SyncStream, WriteBackChanges, WriteBackResult } from './types';
+
+/**
+ * Open Google Tasks, one stream per task list. Completing or reopening an imported task in Monocle
+ * updates it in Google Tasks.
+ */
+export class GoogleTasksConnector implements Connector<tasks_v1.Schema$Task> {
+    readonly id = 'google-tasks';
+    readonly provider = 'google' as const;
+    readonly label = 'Google Tasks';
+    readonly countKey = 'tasksSynced';
+    readonly idField = 'googleId';
+    readonly itemType = 'task' as const;
+    readonly writeBackFields: (keyof WriteBackChanges)[] = ['status'];
+
+    isConnected(user: IUser, overrideAccessToken?: string): boolean {
+        return isGoogleConnected(user, overrideAccessToken);
+    }
+
+    async listStreams(context: ConnectorContext): Promise<SyncStream[]> {
+        const tasks = google.tasks({ version: 'v1', auth: await getGoogleAuth(context) });
+        const taskListsRes = await tasks.tasklists.list();
+        return (taskListsRes.data.items || []).map(list => ({ id: list.id!, label: list.title || 'Tasks' }));
+    }
+
+    async fetchPage(context: ConnectorContext, request: SyncPageRequest): Promise<SyncPage<tasks_v1.Schema$Task>> {
+        const tasks = google.tasks({ version: 'v1', auth: await getGoogleAuth(context) });
+
+        const tasksRes = await tasks.tasks.list({
+            tasklist: request.stream.id,
+            showCompleted: false,
+            maxResults: 20
+        });
+
+        return { records: tasksRes.data.items || [] };
+    }
+
+    getExternalId(task: tasks_v1.Schema$Task): string {
+        return task.id!;
+    }
+
+    async toChange(context: ConnectorContext, task: tasks_v1.Schema$Task, existing: IWorkItem | undefined, stream: SyncStream): Promise<ItemChange | null> {
+        if (existing) return null;
+
+        return {
+            action: 'create',
+            item: {
+                type: 'task',
+                title: task.title || 'Untitled Task',
+                source: `Google Tasks: ${stream.label}`,
+                timestamp: task.due ? new Date(task.due) : new Date(),
+                preview: task.notes || '',
+                isRead: false,
+                priority: 'medium',
+                metadata: {
+                    googleId: task.id,
+                    listId: stream.id,
+                    status: task.status
+                }
+            }
+        };
+    }
+
+    /**
+     * Complete or reopen the task. The status synced last is the common base: if Google changed it
+     * since then to something other than the new status, Google's status wins. Needs the tasks scope.
+     */
+    async writeBack(context: ConnectorContext, item: IWorkItem, changes: WriteBackChanges): Promise<WriteBackResult> {
+        const tasks = google.tasks({ version: 'v1', auth: await getGoogleAuth(context) });
+        const tasklist = item.get('metadata.listId') as string;
+        const task = item.get('metadata.googleId') as string;
+        const metadata = item.toObject({ flattenMaps: true }).metadata || {};
+        const synced = (current: tasks_v1.Schema$Task) => ({ metadata: { ...metadata, status: current.status } });
+
+        let current: tasks_v1.Schema$Task;
+        try {
+            current = (await tasks.tasks.get({ tasklist, task })).data;
+        } catch (error: any) {
+            if (error.code === 404 || error.response?.status === 404) {
+                return { outcome: 'conflict', detail: 'The task was deleted in Google Tasks' };
+            }
+            throw error;
+        }
+
+        const target = changes.status === 'completed' ? 'completed' : 'needsAction';
+        if (current.status === target) return { outcome: 'unchanged', local: synced(current) };
+
+        if (metadata.status && current.status !== metadata.status) {
+            return {
+                outcome: 'conflict',
+                detail: `The task was changed to ${current.status} in Google Tasks`,
+                local: { status: current.status === 'completed' ? 'completed' : 'todo', ...synced(current) }
+            };
+        }
+
+        const res = await tasks.tasks.patch({
+            tasklist,
+            task,
+            requestBody: target === 'completed' ? { status: 'completed' } : { status: 'needsAction', completed: null }
+        });
+        return { outcome: 'applied', local: synced(res.data) };
+    }
+}
@@ -0,0 +1,22 @@
+import { OAuth2Client } from 'google-auth-library';
+import { IUser } from '../models/User';
+import { CredentialService } from '../services/credential.service';
+import { ConnectorContext } from './types';
+
+/**
+ * Whether there is any Google token to sync with (a stored refresh token is enough)
+ */
+export const isGoogleConnected = (user: IUser, overrideAccessToken?: string): boolean => {
+    const integration = user.integrations?.google;
+    return !!(overrideAccessToken || integration?.accessToken || integration?.refreshToken);
+};
+
+/**
+ * OAuth client for the run, created (and refreshed if needed) once and shared by every page
+ */
+export const getGoogleAuth = async (context: ConnectorContext): Promise<OAuth2Client> => {
+    if (!context.state.googleAuth) {
+        context.state.googleAuth = await CredentialService.getGoogleClient(context.userId, context.credentials, context.overrideAccessToken);
+    }
+    return context.state.googleAuth;
+};
@@ -0,0 +1,79 @@
+import { IUser } from '../models/User';
+import { CredentialService } from '../services/credential.service';
+import { ConnectorContext, CursorExpiredError, SyncPage, SyncPageRequest } from './types';
+
+export const GRAPH_API_URL = 'https://graph.microsoft.com/v1.0';
+export const GRAPH_PAGE_SIZE = 50;
+
+export const isMicrosoftConnected = (user: IUser, overrideAccessToken?: string): boolean => {
+    const integration = user.integrations?.microsoft;
+    return !!(overrideAccessToken || integration?.accessToken || integration?.refreshToken);
+};
+
+/**
+ * GET a Microsoft Graph URL as the user and parse the JSON body. Failures carry the HTTP status.
+ */
+export const graphGet = async (context: ConnectorContext, url: string, headers?: Record<string, string>): Promise<any> => {
+    const response = await CredentialService.microsoftFetch(context.userId, context.credentials, url, { headers }, context.overrideAccessToken);
+
+    if (!response.ok) {
+        const errorText = await response.text();
+        throw Object.assign(new Error(`Microsoft Graph API error: ${response.status} ${errorText}`), { status: response.status });
+    }
+
+    return response.json();
+};
+
+/**
+ * PATCH a Microsoft Graph resource as the user and parse the updated resource. Failures carry the HTTP status.
+ */
+export const graphPatch = async (context: ConnectorContext, url: string, body: any): Promise<any> => {
+    const response = await CredentialService.microsoftFetch(
+        context.userId,
+        context.credentials,
+        url,
+        { method: 'PATCH', body: JSON.stringify(body) },
+        context.overrideAccessToken
+    );
+
+    if (!response.ok) {
+        const errorText = await response.text();
+        throw Object.assign(new Error(`Microsoft Graph API error: ${response.status} ${errorText}`), { status: response.status });
+    }
+
+    return response.status === 204 ? undefined : response.json();
+};
+
+/**
+ * Read one page of a Graph delta query: the saved delta link resumes it, `initialUrl` starts it.
+ * The delta link comes with the last page and becomes the stream's cursor.
+ */
+export const graphDeltaPage = async <T>(
+    context: ConnectorContext,
+    request: SyncPageRequest,
+    initialUrl: string,
+    headers?: Record<string, string>
+): Promise<SyncPage<T>> => {
+    try {
+        const page = await graphGet(context, request.pageToken || request.cursor || initialUrl, headers);
+        return {
+            records: page.value || [],
+            nextPageToken: page['@odata.nextLink'],
+            cursor: page['@odata.deltaLink']
+        };
+    } catch (error: any) {
+        if (error.status === 410 && request.cursor && !request.pageToken) {
+            throw new CursorExpiredError(`Graph delta link expired: ${error.message}`);
+        }
+        throw error;
+    }
+};
+
+/**
+ * Graph dateTimeTimeZone values are requested in UTC but come without an offset
+ */
+export const parseGraphDateTime = (value?: { dateTime?: string, timeZone?: string }): Date => {
+    if (!value?.dateTime) return new Date();
+    const hasOffset = /(Z|[+-]\d{2}:\d{2})$/.test(value.dateTime);
+    return new Date(hasOffset ? value.dateTime : `${value.dateTime}Z`);
+};
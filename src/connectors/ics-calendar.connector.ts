@@ -0,0 +1,137 @@
+import crypto from 'crypto';
+import { IUser } from '../models/User';
+import { CalendarFeedModel, ICalendarFeed } from '../models/CalendarFeed';
+import { IWorkItem, WorkItemModel } from '../models/WorkItem';
+import { fetchIcsCalendar, getIcsWindow, ICS_FEED_UNREADABLE, IcsOccurrence, parseIcsCalendar } from './ics';
+import { Connector, ConnectorContext, ItemChange, SyncPage, SyncPageRequest, SyncStream } from './types';
+
+type IcsRecord = {
+    id: string;
+    feedId: string;
+    feedName: string;
+    // `removed` occurrences were imported before but are no longer in the feed
+    kind: 'occurrence' | 'removed';
+    occurrence?: IcsOccurrence;
+};
+
+/**
+ * Events of uploaded and subscribed iCalendar (.ics) files, see CalendarFeedService. Each feed is a stream,
+ * read whole on every sync: its events are expanded over the look-ahead window, and upcoming items whose
+ * occurrence is gone from the feed (deleted, excluded or moved out of the window) or cancelled are removed.
+ */
+export class IcsCalendarConnector implements Connector<IcsRecord> {
+    readonly id = 'ics-calendar';
+    readonly provider = 'ics' as const;
+    readonly label = 'ICS calendars';
+    readonly countKey = 'meetingsSynced';
+    readonly idField = 'icsId';
+    readonly itemType = 'calendar' as const;
+
+    isConnected(user: IUser): boolean {
+        return !!user.integrations?.ics?.connected;
+    }
+
+    async listStreams(context: ConnectorContext): Promise<SyncStream[]> {
+        const feeds = await CalendarFeedModel.find({ userId: context.userId }).sort({ createdAt: 1 });
+        return feeds.map(feed => ({ id: (feed._id as any).toString(), label: feed.name, data: feed }));
+    }
+
+    async fetchPage(context: ConnectorContext, request: SyncPageRequest): Promise<SyncPage<IcsRecord>> {
+        const feed: ICalendarFeed = request.stream.data;
+        const feedId = request.stream.id;
+        const window = getIcsWindow();
+
+        let calendar;
+        try {
+            // Subscriptions are fetched with the URL decrypted by the sync engine, uploads are read as stored
+            const url = context.credentials.feedUrls?.[feedId];
+            if (feed.url && !url) throw new Error('The subscription URL could not be read');
+            calendar = parseIcsCalendar(url ? await fetchIcsCalendar(url) : feed.content || '', window);
+        } catch (error: any) {
+            // What a subscribed URL answered stays in the logs, since the URL is the user's to choose
+            if (feed.url) console.error(`ICS feed ${feedId} could not be read:`, error.message);
+            const message = feed.url ? ICS_FEED_UNREADABLE : error.message;
+            await CalendarFeedModel.updateOne({ _id: feedId }, { $set: { lastError: message, updatedAt: new Date() } });
+            throw feed.url ? new Error(message) : error;
+        }
+        await CalendarFeedModel.updateOne({ _id: feedId }, {
+            $set: { lastFetchedAt: new Date(), eventCount: calendar.eventCount, updatedAt: new Date() },
+            $unset: { lastError: '' }
+        });
+
+        const records: IcsRecord[] = calendar.occurrences.map(occurrence => ({
+            id: getIcsExternalId(feedId, occurrence),
+            feedId,
+            feedName: feed.name,
+            kind: 'occurrence',
+            occurrence
+        }));
+
+        // Only upcoming items are checked: past occurrences leave the window, not the feed
+        const listed = new Set(records.map(record => record.id));
+        const imported = await WorkItemModel.find({
+            userId: context.userId,
+            type: 'calendar',
+            'metadata.icsFeedId': feedId,
+            timestamp: { $gte: window.start }
+        }).select('metadata');
+        for (const item of imported) {
+            const id = item.get('metadata.icsId') as string;
+            if (!listed.has(id)) records.push({ id, feedId, feedName: feed.name, kind: 'removed' });
+        }
+
+        return { records };
+    }
+
+    getExternalId(record: IcsRecord): string {
+        return record.id;
+    }
+
+    async toChange(context: ConnectorContext, record: IcsRecord, existing: IWorkItem | undefined): Promise<ItemChange | null> {
+        const occurrence = record.occurrence;
+        if (record.kind === 'removed' || !occurrence || occurrence.status === 'cancelled') {
+            return existing ? { action: 'remove' } : null;
+        }
+
+        const fields = {
+            title: occurrence.title,
+            source: `Calendar: ${record.feedName}`,
+            timestamp: occurrence.start,
+            preview: occurrence.description,
+            metadata: {
+                icsId: record.id,
+                icsFeedId: record.feedId,
+                uid: occurrence.uid,
+                recurrenceId: occurrence.recurrenceId,
+                status: occurrence.status,
+                location: occurrence.location,
+                endTime: occurrence.end,
+                isAllDay: occurrence.allDay,
+                organizer: occurrence.organizer,
+                url: occurrence.url,
+                fingerprint: ''
+            }
+        };
+        // Few calendar apps bump SEQUENCE or LAST-MODIFIED reliably, so changes are found by comparing content
+        fields.metadata.fingerprint = crypto.createHash('sha1').update(JSON.stringify(fields)).digest('hex');
+        if (existing && existing.get('metadata.fingerprint') === fields.metadata.fingerprint) return null;
+
+        if (existing) return { action: 'update', changes: fields };
+
+        return {
+            action: 'create',
+            item: {
+                ...fields,
+                type: 'calendar',
+                isRead: false,
+                priority: 'medium'
+            }
+        };
+    }
+}
+
+/**
+ * Id of an imported occurrence: unique per feed, and per instance of a recurring event
+ */
+const getIcsExternalId = (feedId: string, occurrence: IcsOccurrence): string =>
+    [feedId, occurrence.uid, occurrence.recurrenceId].filter(Boolean).join('/');
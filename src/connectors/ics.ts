@@ -0,0 +1,276 @@
+import dns from 'dns/promises';
+import net from 'net';
+import ICAL from 'ical.js';
+
+export const ICS_LOOKAHEAD_DAYS = parseInt(process.env.ICS_LOOKAHEAD_DAYS || '') || 60;
+export const ICS_MAX_BYTES = 5 * 1024 * 1024;
+const ICS_FETCH_TIMEOUT_MS = 30000;
+const MAX_REDIRECTS = 5;
+// A daily series started years ago is walked from its first occurrence; this bounds runaway rules
+const MAX_ITERATIONS_PER_EVENT = 20000;
+const DESCRIPTION_LENGTH = 500;
+
+// The only error shown for a subscription that can't be fetched or parsed
+export const ICS_FEED_UNREADABLE = 'Could not read a calendar from this URL';
+
+/**
+ * One occurrence of an event: a single event, or an instance of a recurring one with its overrides applied
+ */
+export type IcsOccurrence = {
+    uid: string;
+    /** Original start of the instance in its series (RECURRENCE-ID) as an ISO date; unset for single events */
+    recurrenceId?: string;
+    title: string;
+    description: string;
+    location?: string;
+    start: Date;
+    end: Date;
+    allDay: boolean;
+    status: 'confirmed' | 'tentative' | 'cancelled';
+    organizer?: string;
+    url?: string;
+};
+
+export type IcsCalendar = {
+    /** X-WR-CALNAME, the name most calendar apps export */
+    name?: string;
+    /** Events in the calendar, a recurring series counted once */
+    eventCount: number;
+    /** Occurrences overlapping the window, cancelled ones included */
+    occurrences: IcsOccurrence[];
+};
+
+export type IcsWindow = { start: Date, end: Date };
+
+/**
+ * Window events are imported for: from the start of today (UTC) to ICS_LOOKAHEAD_DAYS ahead
+ */
+export const getIcsWindow = (now = new Date()): IcsWindow => {
+    const start = new Date(now);
+    start.setUTCHours(0, 0, 0, 0);
+    return { start, end: new Date(start.getTime() + ICS_LOOKAHEAD_DAYS * 24 * 60 * 60 * 1000) };
+};
+
+/**
+ * URL of a calendar subscription; `webcal://` links are fetched over HTTPS
+ */
+export const normalizeIcsUrl = (value: string): string => {
+    let url: URL;
+    try {
+        url = new URL(value.trim().replace(/^webcals?:\/\//i, 'https://'));
+    } catch {
+        throw new Error(`Invalid calendar URL: ${value}`);
+    }
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') throw new Error('Calendar URLs must be http, https or webcal');
+    return url.toString();
+};
+
+/**
+ * Download a subscribed calendar. The server makes the request, so every hop (the URL and each redirect)
+ * must resolve to public addresses only. Errors are detailed for the logs; callers show a generic one.
+ */
+export const fetchIcsCalendar = async (url: string): Promise<string> => {
+    const signal = AbortSignal.timeout(ICS_FETCH_TIMEOUT_MS);
+    let target = new URL(url);
+
+    for (let redirects = 0; ; redirects++) {
+        await assertPublicHost(target);
+        const response = await fetch(target, { headers: { Accept: 'text/calendar' }, redirect: 'manual', signal });
+
+        const location = response.headers.get('location');
+        if (response.status >= 300 && response.status < 400 && location) {
+            await response.body?.cancel();
+            if (redirects >= MAX_REDIRECTS) throw new Error(`Calendar feed redirected more than ${MAX_REDIRECTS} times`);
+            target = new URL(location, target);
+            if (target.protocol !== 'https:' && target.protocol !== 'http:') throw new Error(`Calendar feed redirected to ${target.protocol} URL`);
+            continue;
+        }
+
+        if (!response.ok) throw new Error(`Calendar feed answered ${response.status} ${response.statusText}`.trim());
+        if (Number(response.headers.get('content-length')) > ICS_MAX_BYTES) throw new Error('Calendar feed is larger than 5 MB');
+
+        const text = await response.text();
+        if (Buffer.byteLength(text) > ICS_MAX_BYTES) throw new Error('Calendar feed is larger than 5 MB');
+        return text;
+    }
+};
+
+// Loopback, private, link-local (cloud metadata), shared, multicast and reserved ranges
+const BLOCKED_ADDRESSES = new net.BlockList();
+for (const [network, prefix] of [
+    ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+    ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4]
+] as [string, number][]) {
+    BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [['::', 128], ['::1', 128], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as [string, number][]) {
+    BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Throw unless every address the URL's host resolves to is public (IPv4-mapped IPv6 addresses included)
+ */
+const assertPublicHost = async (url: URL): Promise<void> => {
+    const host = url.hostname.replace(/^\[|\]$/g, '');
+    const addresses = await dns.lookup(host, { all: true, verbatim: true });
+    const blocked = addresses.find(({ address, family }) => BLOCKED_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4'));
+    if (blocked) throw new Error(`${host} resolves to the non-public address ${blocked.address}`);
+    if (addresses.length === 0) throw new Error(`${host} does not resolve`);
+};
+
+/**
+ * Parse an iCalendar file and expand its events over the window. Recurring events are expanded from their
+ * RRULE and RDATEs less their EXDATEs, with RECURRENCE-ID overrides applied. Times are read in the
+ * calendar's own VTIMEZONEs; a TZID without one is taken as an IANA zone name, floating times as UTC.
+ * A calendar with METHOD:CANCEL cancels every event in it.
+ */
+export const parseIcsCalendar = (text: string, window: IcsWindow): IcsCalendar => {
+    let root: ICAL.Component;
+    try {
+        const parsed = ICAL.parse(text);
+        // Files with several VCALENDARs parse to a list; the first is used
+        root = new ICAL.Component(Array.isArray(parsed[0]) ? parsed[0] : parsed);
+    } catch (error: any) {
+        throw new Error(`Not a valid iCalendar file: ${error.message}`);
+    }
+    if (root.name !== 'vcalendar') throw new Error('Not a valid iCalendar file: no VCALENDAR');
+
+    const cancelAll = String(root.getFirstPropertyValue('method') || '').toUpperCase() === 'CANCEL';
+    const series = new Map<string, { master?: ICAL.Component, exceptions: ICAL.Component[] }>();
+    for (const component of root.getAllSubcomponents('vevent')) {
+        const uid = String(component.getFirstPropertyValue('uid') || '');
+        if (!uid || !component.hasProperty('dtstart')) continue;
+
+        const entry = series.get(uid) || { exceptions: [] };
+        if (component.hasProperty('recurrence-id')) entry.exceptions.push(component);
+        else entry.master = component;
+        series.set(uid, entry);
+    }
+
+    const occurrences: IcsOccurrence[] = [];
+    for (const [uid, { master, exceptions }] of series) {
+        // Invitations to a single instance come without their series
+        const events = master ? [expandSeries(uid, master, exceptions, window)] : exceptions.map(exception => [toOccurrence(uid, exception)]);
+        for (const occurrence of events.flat()) {
+            if (occurrence.end <= window.start || occurrence.start >= window.end) continue;
+            if (cancelAll) occurrence.status = 'cancelled';
+            occurrences.push(occurrence);
+        }
+    }
+
+    const name = root.getFirstPropertyValue('x-wr-calname');
+    return { name: name ? String(name) : undefined, eventCount: series.size, occurrences };
+};
+
+/**
+ * Occurrences of an event up to the end of the window. Overrides are applied to the instances they replace;
+ * one moved into the window from a later instance is added as well.
+ */
+const expandSeries = (uid: string, master: ICAL.Component, exceptions: ICAL.Component[], window: IcsWindow): IcsOccurrence[] => {
+    const event = new ICAL.Event(master, { exceptions, strictExceptions: true });
+    if (!event.isRecurring()) return [toOccurrence(uid, master)];
+
+    const occurrences: IcsOccurrence[] = [];
+    const expanded = new Set<string>();
+    const tzid = getTzid(master, 'dtstart');
+    const iterator = event.iterator();
+    let next: ICAL.Time | undefined;
+
+    for (let i = 0; i < MAX_ITERATIONS_PER_EVENT && (next = iterator.next()); i++) {
+        if (toDate(next, tzid) >= window.end) break;
+
+        const details = event.getOccurrenceDetails(next);
+        const recurrenceId = toDate(details.recurrenceId, tzid).toISOString();
+        expanded.add(recurrenceId);
+        if (details.item !== event) {
+            occurrences.push(toOccurrence(uid, details.item.component, recurrenceId));
+            continue;
+        }
+        occurrences.push({
+            ...toOccurrence(uid, master, recurrenceId),
+            start: toDate(details.startDate, tzid),
+            end: toDate(details.endDate, getTzid(master, 'dtend') || tzid)
+        });
+    }
+
+    for (const exception of exceptions) {
+        const recurrenceId = toDate(exception.getFirstPropertyValue('recurrence-id') as ICAL.Time, getTzid(exception, 'recurrence-id')).toISOString();
+        if (!expanded.has(recurrenceId)) occurrences.push(toOccurrence(uid, exception, recurrenceId));
+    }
+    return occurrences;
+};
+
+const toOccurrence = (uid: string, component: ICAL.Component, recurrenceId?: string): IcsOccurrence => {
+    const event = new ICAL.Event(component);
+    const tzid = getTzid(component, 'dtstart');
+    const status = String(component.getFirstPropertyValue('status') || '').toLowerCase();
+    const organizer = component.getFirstProperty('organizer');
+    const url = component.getFirstPropertyValue('url');
+
+    return {
+        uid,
+        recurrenceId: recurrenceId ?? (event.recurrenceId ? toDate(event.recurrenceId, getTzid(component, 'recurrence-id')).toISOString() : undefined),
+        title: event.summary || 'Meeting',
+        description: (event.description || '').trim().slice(0, DESCRIPTION_LENGTH),
+        location: event.location || undefined,
+        start: toDate(event.startDate, tzid),
+        end: toDate(event.endDate, getTzid(component, 'dtend') || tzid),
+        allDay: event.startDate.isDate,
+        status: status === 'cancelled' || status === 'tentative' ? status : 'confirmed',
+        organizer: organizer
+            ? String(organizer.getParameter('cn') || organizer.getFirstValue() || '').replace(/^mailto:/i, '') || undefined
+            : undefined,
+        url: url ? String(url) : undefined
+    };
+};
+
+const getTzid = (component: ICAL.Component, property: string): string | undefined => {
+    const tzid = component.getFirstProperty(property)?.getParameter('tzid');
+    return typeof tzid === 'string' ? tzid : undefined;
+};
+
+/**
+ * Instant of a calendar time. All-day dates are midnight UTC. Times in a zone the calendar defines are
+ * converted by ical.js; the rest (floating, or a TZID without a VTIMEZONE) are resolved here.
+ */
+const toDate = (time: ICAL.Time, tzid?: string): Date => {
+    if (time.isDate) return new Date(Date.UTC(time.year, time.month - 1, time.day));
+    if (time.zone && time.zone.tzid !== 'floating') return time.toJSDate();
+
+    const wallClock = Date.UTC(time.year, time.month - 1, time.day, time.hour, time.minute, time.second);
+    return tzid ? zonedTimeToDate(wallClock, tzid.replace(/^\//, '')) : new Date(wallClock);
+};
+
+const zoneFormats = new Map<string, Intl.DateTimeFormat | null>();
+
+/**
+ * Wall-clock time (as a UTC timestamp) in an IANA zone to the instant it denotes. Unknown zones are read as UTC.
+ */
+const zonedTimeToDate = (wallClock: number, timeZone: string): Date => {
+    if (!zoneFormats.has(timeZone)) {
+        try {
+            zoneFormats.set(timeZone, new Intl.DateTimeFormat('en-US', {
+                timeZone,
+                hourCycle: 'h23',
+                year: 'numeric',
+                month: 'numeric',
+                day: 'numeric',
+                hour: 'numeric',
+                minute: 'numeric',
+                second: 'numeric'
+            }));
+        } catch {
+            zoneFormats.set(timeZone, null);
+        }
+    }
+    const format = zoneFormats.get(timeZone);
+    if (!format) return new Date(wallClock);
+
+    const offsetAt = (instant: number): number => {
+        const parts = Object.fromEntries(format.formatToParts(new Date(instant)).map(part => [part.type, Number(part.value)]));
+        return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second) - instant;
+    };
+    // The offset at the guess is right unless a DST change lies between the guess and the answer
+    const guess = wallClock - offsetAt(wallClock);
+    return new Date(wallClock - offsetAt(guess));
+};
@@ -0,0 +1,278 @@
+import { ImapFlow, MailboxObject } from 'imapflow';
+import { IUser } from '../models/User';
+import { IWorkItem, WorkItemModel } from '../models/WorkItem';
+import { EmailClassificationService } from '../services/email-classification.service';
+import {
+    formatImapCursor,
+    getImapExternalId,
+    IMAP_MAX_SOURCE_BYTES,
+    ImapCursor,
+    ImapMessage,
+    isImapConnected,
+    parseImapCursor,
+    parseImapMessage,
+    toUidSet,
+    withImapInbox
+} from './imap';
+import { Connector, ConnectorContext, CursorExpiredError, ItemChange, SyncPage, SyncPageRequest, WriteBackChanges, WriteBackResult } from './types';
+
+const IMAP_BACKFILL_DAYS = parseInt(process.env.IMAP_BACKFILL_DAYS || '') || 14;
+const IMAP_BACKFILL_MAX_MESSAGES = parseInt(process.env.IMAP_BACKFILL_MAX_MESSAGES || '') || 200;
+const IMAP_FETCH_PAGE_SIZE = 50;
+
+type ImapRecord = {
+    id: string;
+    uid: number;
+    uidValidity: string;
+    // `changed` messages are only updated, never imported
+    kind: 'added' | 'changed' | 'deleted';
+    flags?: string[];
+    message?: ImapMessage;
+};
+
+/**
+ * Inbox of any IMAP mailbox (self-hosted, Fastmail, ...). The first sync backfills recent mail; later syncs
+ * fetch the UIDs above the last one seen, and on CONDSTORE servers only the flags changed since the saved MODSEQ
+ * (else the flags of every imported message). Messages gone from the inbox are removed. New mail is classified
+ * like Gmail and only work mail is imported. A new UIDVALIDITY starts over with a backfill, matching
+ * imported items by their Message-ID.
+ */
+export class ImapMailConnector implements Connector<ImapRecord> {
+    readonly id = 'imap-mail';
+    readonly provider = 'imap' as const;
+    readonly label = 'IMAP mail';
+    readonly countKey = 'emailsSynced';
+    readonly idField = 'imapId';
+    readonly itemType = 'email' as const;
+    readonly writeBackFields: (keyof WriteBackChanges)[] = ['isRead'];
+
+    isConnected(user: IUser): boolean {
+        return isImapConnected(user);
+    }
+
+    async fetchPage(context: ConnectorContext, request: SyncPageRequest): Promise<SyncPage<ImapRecord>> {
+        return withImapInbox(context, async (client, mailbox) => {
+            const uidValidity = mailbox.uidValidity.toString();
+
+            if (request.pageIndex === 0) {
+                const cursor = request.cursor ? parseImapCursor(request.cursor) : undefined;
+                if (request.cursor && cursor?.uidValidity !== uidValidity) {
+                    throw new CursorExpiredError(`UIDVALIDITY of ${mailbox.path} is now ${uidValidity}`);
+                }
+                context.state.uidValidity = uidValidity;
+                return cursor ? this.fetchChanges(context, client, mailbox, cursor) : this.fetchBackfill(context, client, mailbox);
+            }
+
+            // The UIDs listed on the first page mean nothing under another UIDVALIDITY
+            if (context.state.uidValidity !== uidValidity) throw new Error(`UIDVALIDITY of ${mailbox.path} changed during the sync`);
+            return this.fetchNewPage(context, client, uidValidity, request.pageIndex);
+        });
+    }
+
+    getExternalId(record: ImapRecord): string {
+        return record.id;
+    }
+
+    async toChange(context: ConnectorContext, record: ImapRecord, existing: IWorkItem | undefined): Promise<ItemChange | null> {
+        const flags = record.flags || [];
+        if (record.kind === 'deleted' || flags.includes('\\Deleted')) {
+            return existing ? { action: 'remove' } : null;
+        }
+
+        if (existing) {
+            const isRead = flags.includes('\\Seen');
+            const metadata = existing.toObject({ flattenMaps: true }).metadata || {};
+            const unchanged = existing.isRead === isRead
+                && metadata.imapUid === record.uid
+                && metadata.imapUidValidity === record.uidValidity
+                && JSON.stringify(metadata.flags) === JSON.stringify(flags);
+            if (unchanged) return null;
+            return { action: 'update', changes: { isRead, metadata: { ...metadata, imapUid: record.uid, imapUidValidity: record.uidValidity, flags } } };
+        }
+
+        if (record.kind !== 'added' || !record.message) return null;
+        return this.importMessage(record, record.message);
+    }
+
+    /**
+     * Set or clear the \Seen flag. Read state is a single flag, so a message whose flag was already changed
+     * in the mailbox needs nothing. Messages are found by UID, or by Message-ID after a UIDVALIDITY change.
+     */
+    async writeBack(context: ConnectorContext, item: IWorkItem, changes: WriteBackChanges): Promise<WriteBackResult> {
+        const metadata = item.toObject({ flattenMaps: true }).metadata || {};
+
+        return withImapInbox(context, async (client, mailbox) => {
+            const uidValidity = mailbox.uidValidity.toString();
+            let uid: number | undefined = metadata.imapUidValidity === uidValidity ? metadata.imapUid : undefined;
+            if (!uid && metadata.messageId) {
+                const found = await client.search({ header: { 'message-id': metadata.messageId } }, { uid: true });
+                uid = found ? found[0] : undefined;
+            }
+
+            const message = uid ? await client.fetchOne(String(uid), { uid: true, flags: true }, { uid: true }) : undefined;
+            if (!message) return { outcome: 'conflict', detail: 'The message is no longer in the mailbox' };
+
+            const flags = [...(message.flags || [])].sort();
+            if (flags.includes('\\Seen') === changes.isRead) {
+                // Keep the stored flags in step, so the next sync doesn't see a change
+                return { outcome: 'unchanged', local: { metadata: { ...metadata, imapUid: message.uid, imapUidValidity: uidValidity, flags } } };
+            }
+
+            if (changes.isRead) {
+                await client.messageFlagsAdd(String(message.uid), ['\\Seen'], { uid: true });
+            } else {
+                await client.messageFlagsRemove(String(message.uid), ['\\Seen'], { uid: true });
+            }
+            const updated = changes.isRead ? [...flags, '\\Seen'].sort() : flags.filter(flag => flag !== '\\Seen');
+            return { outcome: 'applied', local: { metadata: { ...metadata, imapUid: message.uid, imapUidValidity: uidValidity, flags: updated } } };
+        }, false);
+    }
+
+    /**
+     * Classify a new message and create an item for work mail
+     */
+    private async importMessage(record: ImapRecord, message: ImapMessage): Promise<ItemChange | null> {
+        const analysis = await EmailClassificationService.classifyAndPrioritizeEmail(message.subject, message.from, message.snippet);
+        if (!analysis || !analysis.isWork) {
+            console.log(`Skipping non-work email: ${message.subject}`);
+            return null;
+        }
+
+        const flags = record.flags || [];
+        return {
+            action: 'create',
+            item: {
+                type: 'email',
+                title: message.subject,
+                source: `Mail: ${message.from}`,
+                timestamp: message.date || new Date(),
+                preview: message.snippet,
+                isRead: flags.includes('\\Seen'),
+                priority: analysis.priority,
+                metadata: {
+                    imapId: record.id,
+                    imapUid: record.uid,
+                    imapUidValidity: record.uidValidity,
+                    flags,
+                    messageId: message.messageId,
+                    inReplyTo: message.inReplyTo,
+                    references: message.references,
+                    // The first message of the conversation, like Gmail's threadId
+                    conversationId: message.references[0] || message.inReplyTo || message.messageId,
+                    aiReason: analysis.reason,
+                    promptVersion: analysis.promptVersion
+                }
+            }
+        };
+    }
+
+    /**
+     * First page of a first sync: recent inbox mail, newest first. The cursor is taken from the mailbox
+     * as it was selected, so mail arriving during the backfill is picked up by the next sync.
+     */
+    private async fetchBackfill(context: ConnectorContext, client: ImapFlow, mailbox: MailboxObject): Promise<SyncPage<ImapRecord>> {
+        const since = new Date(Date.now() - IMAP_BACKFILL_DAYS * 24 * 60 * 60 * 1000);
+        const uids = (await client.search({ since }, { uid: true })) || [];
+
+        context.state.newUids = uids.sort((a, b) => b - a).slice(0, IMAP_BACKFILL_MAX_MESSAGES);
+        context.state.cursor = formatImapCursor({
+            uidValidity: mailbox.uidValidity.toString(),
+            lastUid: mailbox.uidNext - 1,
+            modseq: mailbox.highestModseq?.toString()
+        });
+        return this.fetchNewPage(context, client, mailbox.uidValidity.toString(), 0);
+    }
+
+    /**
+     * First page of a later sync: flag changes and deletions of imported messages, then the first new messages
+     */
+    private async fetchChanges(context: ConnectorContext, client: ImapFlow, mailbox: MailboxObject, cursor: ImapCursor): Promise<SyncPage<ImapRecord>> {
+        const uidValidity = cursor.uidValidity;
+        const imported = await this.getImportedMessages(context.userId, uidValidity);
+        const records: ImapRecord[] = [];
+
+        if (imported.size > 0) {
+            const uidSet = toUidSet([...imported.keys()]);
+            const condstore = !!(cursor.modseq && mailbox.highestModseq);
+            const changed = await client.fetchAll(uidSet, { uid: true, flags: true }, condstore ? { uid: true, changedSince: BigInt(cursor.modseq!) } : { uid: true });
+            // Without CONDSTORE every imported message is fetched, so the missing ones are gone
+            const remaining = condstore ? new Set((await client.search({ uid: uidSet }, { uid: true })) || []) : new Set(changed.map(message => message.uid));
+
+            for (const message of changed) {
+                records.push({ id: imported.get(message.uid)!, uid: message.uid, uidValidity, kind: 'changed', flags: [...(message.flags || [])].sort() });
+            }
+            for (const [uid, id] of imported) {
+                if (!remaining.has(uid)) records.push({ id, uid, uidValidity, kind: 'deleted' });
+            }
+        }
+
+        // `n:*` also matches the newest message when nothing is newer than n
+        const uids = ((await client.search({ uid: `${cursor.lastUid + 1}:*` }, { uid: true })) || [])
+            .filter(uid => uid > cursor.lastUid)
+            .sort((a, b) => a - b);
+        context.state.newUids = uids;
+        context.state.cursor = formatImapCursor({
+            uidValidity,
+            lastUid: Math.max(cursor.lastUid, mailbox.uidNext - 1, uids[uids.length - 1] || 0),
+            modseq: mailbox.highestModseq?.toString()
+        });
+
+        const page = await this.fetchNewPage(context, client, uidValidity, 0);
+        return { ...page, records: [...records, ...page.records] };
+    }
+
+    /**
+     * One page of the new messages listed on the first page, downloaded and parsed
+     */
+    private async fetchNewPage(context: ConnectorContext, client: ImapFlow, uidValidity: string, pageIndex: number): Promise<SyncPage<ImapRecord>> {
+        const newUids: number[] = context.state.newUids;
+        const uids = newUids.slice(pageIndex * IMAP_FETCH_PAGE_SIZE, (pageIndex + 1) * IMAP_FETCH_PAGE_SIZE);
+        const records: ImapRecord[] = [];
+
+        if (uids.length > 0) {
+            const messages = await client.fetchAll(toUidSet(uids), {
+                uid: true,
+                flags: true,
+                internalDate: true,
+                source: { maxLength: IMAP_MAX_SOURCE_BYTES }
+            }, { uid: true });
+
+            for (const fetched of messages) {
+                try {
+                    const message = await parseImapMessage(fetched.source!);
+                    if (!message.date && fetched.internalDate) message.date = new Date(fetched.internalDate);
+                    records.push({
+                        id: getImapExternalId(message.messageId, uidValidity, fetched.uid),
+                        uid: fetched.uid,
+                        uidValidity,
+                        kind: 'added',
+                        flags: [...(fetched.flags || [])].sort(),
+                        message
+                    });
+                } catch (error: any) {
+                    console.error(`Failed to parse IMAP message ${fetched.uid}:`, error.message);
+                }
+            }
+        }
+
+        return {
+            records,
+            nextPageToken: (pageIndex + 1) * IMAP_FETCH_PAGE_SIZE < newUids.length ? String(pageIndex + 1) : undefined,
+            cursor: context.state.cursor
+        };
+    }
+
+    /**
+     * UIDs of the messages imported under this UIDVALIDITY, with their item ids
+     */
+    private async getImportedMessages(userId: string, uidValidity: string): Promise<Map<number, string>> {
+        const items = await WorkItemModel.find({
+            userId,
+            type: 'email',
+            'metadata.imapId': { $exists: true },
+            'metadata.imapUidValidity': uidValidity
+        }).select('metadata');
+
+        return new Map(items.map(item => [item.get('metadata.imapUid') as number, item.get('metadata.imapId') as string]));
+    }
+}
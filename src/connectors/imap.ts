@@ -0,0 +1,144 @@
+import { ImapFlow, MailboxObject } from 'imapflow';
+import { simpleParser } from 'mailparser';
+import { IUser } from '../models/User';
+import { CredentialService, ReauthRequiredError } from '../services/credential.service';
+import { htmlToText } from '../utils/html';
+import { ConnectorContext } from './types';
+
+export const IMAP_MAILBOX = 'INBOX';
+// Only the start of a message is downloaded: the headers and text part come before attachments
+export const IMAP_MAX_SOURCE_BYTES = 256 * 1024;
+const IMAP_CONNECTION_TIMEOUT_MS = 30000;
+const SNIPPET_LENGTH = 200;
+
+export type ImapSettings = {
+    host: string;
+    port: number;
+    /** TLS from the start (usually port 993); otherwise STARTTLS is used when the server offers it */
+    secure: boolean;
+    username: string;
+};
+
+/**
+ * The parts of a MIME message an email item is made of
+ */
+export type ImapMessage = {
+    subject: string;
+    from: string;
+    snippet: string;
+    date?: Date;
+    messageId?: string;
+    inReplyTo?: string;
+    references: string[];
+};
+
+/**
+ * Sync position in the mailbox. UIDs are only valid for one UIDVALIDITY; `modseq` is kept on CONDSTORE servers.
+ */
+export type ImapCursor = {
+    uidValidity: string;
+    lastUid: number;
+    modseq?: string;
+};
+
+export const isImapConnected = (user: IUser): boolean => {
+    const imap = user.integrations?.imap;
+    return !!(imap?.connected && imap.host && imap.username && imap.password);
+};
+
+export const getImapSettings = (user: IUser): ImapSettings => {
+    const imap = user.integrations!.imap!;
+    return { host: imap.host!, port: imap.port || (imap.secure === false ? 143 : 993), secure: imap.secure !== false, username: imap.username! };
+};
+
+export const createImapClient = (settings: ImapSettings, password: string): ImapFlow => {
+    const client = new ImapFlow({
+        host: settings.host,
+        port: settings.port,
+        secure: settings.secure,
+        auth: { user: settings.username, pass: password },
+        logger: false,
+        disableAutoIdle: true,
+        connectionTimeout: IMAP_CONNECTION_TIMEOUT_MS
+    });
+    // Socket errors are emitted as events; without a listener they would end the process
+    client.on('error', (error: Error) => console.error(`IMAP connection error (${settings.host}):`, error.message));
+    return client;
+};
+
+/**
+ * Run `fn` with the inbox selected, logging out afterwards. A rejected login puts the integration in needs-reauth.
+ * Syncs open the inbox read only, so nothing they do can change flags.
+ */
+export const withImapInbox = async <T>(context: ConnectorContext, fn: (client: ImapFlow, mailbox: MailboxObject) => Promise<T>, readOnly = true): Promise<T> => {
+    const client = createImapClient(getImapSettings(context.user), context.credentials.password!);
+    try {
+        await client.connect();
+    } catch (error: any) {
+        if (error.authenticationFailed) {
+            await CredentialService.markNeedsReauth(context.userId, 'imap', error.responseText || error.message);
+            throw new ReauthRequiredError('imap', 'The mail server rejected the stored password. Please reconnect the mailbox.');
+        }
+        throw error;
+    }
+
+    try {
+        const lock = await client.getMailboxLock(IMAP_MAILBOX, { readOnly });
+        try {
+            return await fn(client, client.mailbox as MailboxObject);
+        } finally {
+            lock.release();
+        }
+    } finally {
+        await client.logout().catch(() => client.close());
+    }
+};
+
+/**
+ * Parse a (possibly truncated) MIME message into its subject, sender, text snippet and threading headers
+ */
+export const parseImapMessage = async (source: Buffer): Promise<ImapMessage> => {
+    const parsed = await simpleParser(source, { skipHtmlToText: true, skipTextToHtml: true, skipTextLinks: true, skipImageLinks: true });
+    const text = parsed.text || htmlToText(typeof parsed.html === 'string' ? parsed.html : '');
+    const references = parsed.references || [];
+    const sender = parsed.from?.value[0];
+
+    return {
+        subject: parsed.subject || 'No Subject',
+        from: sender?.name && sender.address ? `${sender.name} <${sender.address}>` : (sender?.address || sender?.name || 'Unknown'),
+        snippet: text.replace(/\s+/g, ' ').trim().slice(0, SNIPPET_LENGTH),
+        date: parsed.date,
+        messageId: parsed.messageId,
+        inReplyTo: parsed.inReplyTo,
+        references: typeof references === 'string' ? [references] : references
+    };
+};
+
+/**
+ * Id of an imported message: its Message-ID, which survives a UIDVALIDITY change, else its UID
+ */
+export const getImapExternalId = (messageId: string | undefined, uidValidity: string, uid: number): string =>
+    messageId?.trim() || `uid:${uidValidity}:${uid}`;
+
+export const formatImapCursor = (cursor: ImapCursor): string =>
+    [cursor.uidValidity, cursor.lastUid, cursor.modseq || ''].join(':');
+
+export const parseImapCursor = (value: string): ImapCursor | undefined => {
+    const [uidValidity, lastUid, modseq] = value.split(':');
+    if (!uidValidity || !/^\d+$/.test(lastUid || '')) return undefined;
+    return { uidValidity, lastUid: parseInt(lastUid), modseq: modseq || undefined };
+};
+
+/**
+ * IMAP sequence set for a list of UIDs, with runs collapsed (1,2,3,7 -> 1:3,7)
+ */
+export const toUidSet = (uids: number[]): string => {
+    const sorted = [...new Set(uids)].sort((a, b) => a - b);
+    const ranges: string[] = [];
+    for (let i = 0; i < sorted.length; i++) {
+        const start = sorted[i];
+        while (sorted[i + 1] === sorted[i] + 1) i++;
+        ranges.push(start === sorted[i] ? `${start}` : `${start}:${sorted[i]}`);
+    }
+    return ranges.join(',');
+};
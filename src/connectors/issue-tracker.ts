@@ -0,0 +1,78 @@
+import { WorkItem } from '../types';
+import { ThreadRoute } from './types';
+
+export type TrackerStatus = NonNullable<WorkItem['status']>;
+
+/**
+ * Settings shared by the issue tracker integrations (Jira, Linear)
+ */
+export interface IssueTrackerSettings {
+    /** Push status changes made in Monocle back to the tracker (off unless turned on) */
+    writeBack?: boolean;
+    /** Group issues in a thread per epic (Linear: project) or per sprint (Linear: cycle); the other is the fallback */
+    threadBy?: 'epic' | 'sprint';
+    /** Per project (Jira project key, Linear team key): workflow state name to Monocle status */
+    statusMapping?: Record<string, Record<string, TrackerStatus>>;
+}
+
+const STATUSES: TrackerStatus[] = ['todo', 'in-progress', 'completed'];
+
+/**
+ * The status a project's mapping gives a workflow state, if it has one. Names are matched case insensitively.
+ */
+export const getMappedStatus = (settings: IssueTrackerSettings, project: string | undefined, state: string | undefined): TrackerStatus | undefined => {
+    if (!project || !state) return undefined;
+
+    const mapping = Object.entries(settings.statusMapping || {}).find(([key]) => key.toLowerCase() === project.toLowerCase())?.[1];
+    return Object.entries(mapping || {}).find(([name]) => name.trim().toLowerCase() === state.trim().toLowerCase())?.[1];
+};
+
+/**
+ * State names a project's mapping assigns to a Monocle status
+ */
+export const getMappedStateNames = (settings: IssueTrackerSettings, project: string, status: TrackerStatus): string[] => {
+    const mapping = Object.entries(settings.statusMapping || {}).find(([key]) => key.toLowerCase() === project.toLowerCase())?.[1];
+    return Object.entries(mapping || {}).filter(([, mapped]) => mapped === status).map(([name]) => name.trim().toLowerCase());
+};
+
+/**
+ * The settings given in a request, throwing on the first invalid one. Settings that are not given are left out.
+ */
+export const parseTrackerSettings = (input: any): IssueTrackerSettings => {
+    const settings: IssueTrackerSettings = {};
+    if (input.writeBack !== undefined) {
+        if (typeof input.writeBack !== 'boolean') throw new Error('writeBack must be a boolean');
+        settings.writeBack = input.writeBack;
+    }
+    if (input.threadBy !== undefined) {
+        if (!['epic', 'sprint'].includes(input.threadBy)) throw new Error('threadBy must be epic or sprint');
+        settings.threadBy = input.threadBy;
+    }
+    if (input.statusMapping !== undefined) {
+        validateStatusMapping(input.statusMapping);
+        settings.statusMapping = input.statusMapping;
+    }
+    return settings;
+};
+
+const validateStatusMapping = (mapping: any): void => {
+    if (!mapping || typeof mapping !== 'object' || Array.isArray(mapping)) {
+        throw new Error('statusMapping must be an object of project to { state: status }');
+    }
+    for (const [project, states] of Object.entries(mapping)) {
+        if (!states || typeof states !== 'object' || Array.isArray(states)) {
+            throw new Error(`statusMapping.${project} must be an object of state name to status`);
+        }
+        for (const [state, status] of Object.entries(states as Record<string, any>)) {
+            if (!STATUSES.includes(status)) {
+                throw new Error(`statusMapping.${project}.${state} must be one of: ${STATUSES.join(', ')}`);
+            }
+        }
+    }
+};
+
+/**
+ * Thread for an issue: its epic or sprint, whichever the settings prefer and the issue has
+ */
+export const pickTrackerThread = (settings: IssueTrackerSettings, epic?: ThreadRoute, sprint?: ThreadRoute): ThreadRoute | undefined =>
+    settings.threadBy === 'sprint' ? sprint || epic : epic || sprint;
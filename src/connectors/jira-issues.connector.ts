@@ -0,0 +1,212 @@
+import { IUser } from '../models/User';
+import { IWorkItem } from '../models/WorkItem';
+import { WorkItem } from '../types';
+import { getMappedStateNames, getMappedStatus, IssueTrackerSettings, pickTrackerThread, TrackerStatus } from './issue-tracker';
+import { adfToText, isJiraConnected, JIRA_PAGE_SIZE, JIRA_SPRINT_FIELD_TYPE, JiraApiError, JiraIssue, jiraJson, parseJiraDate } from './jira';
+import { Connector, ConnectorContext, ItemChange, SyncPage, SyncPageRequest, ThreadRoute, WriteBackChanges, WriteBackResult } from './types';
+
+const PREVIEW_LENGTH = 500;
+const ISSUE_FIELDS = ['summary', 'description', 'status', 'priority', 'project', 'issuetype', 'parent', 'duedate', 'updated'];
+
+/**
+ * Jira issues assigned to the user, as tasks. Workflow states map through the project's status mapping, or else
+ * their status category; the issue's epic or sprint becomes its thread. With write-back turned on, status changes
+ * made in Monocle run the matching workflow transition.
+ * Only issues updated since the newest `updated` seen are fetched; the first sync skips done issues.
+ */
+export class JiraIssuesConnector implements Connector<JiraIssue> {
+    readonly id = 'jira-issues';
+    readonly provider = 'jira' as const;
+    readonly label = 'Jira issues';
+    readonly countKey = 'issuesSynced';
+    readonly idField = 'jiraId';
+    readonly itemType = 'task' as const;
+    readonly writeBackFields: (keyof WriteBackChanges)[] = ['status'];
+
+    isConnected(user: IUser): boolean {
+        return isJiraConnected(user);
+    }
+
+    async fetchPage(context: ConnectorContext, request: SyncPageRequest): Promise<SyncPage<JiraIssue>> {
+        if (request.pageIndex === 0) {
+            context.state.sprintField = await this.findSprintField(context);
+        }
+
+        // JQL dates are in the user's Jira time zone, so ask relative to now; a minute of overlap is skipped as unchanged
+        const since = request.cursor ? Math.ceil((Date.now() - new Date(request.cursor).getTime()) / 60000) + 1 : undefined;
+        const jql = `assignee = currentUser() AND ${since ? `updated >= -${since}m` : 'statusCategory != Done'} ORDER BY updated ASC`;
+
+        const result = await jiraJson(context.userId, context.user, context.credentials.apiKey!, 'POST', '/rest/api/3/search/jql', {
+            jql,
+            fields: context.state.sprintField ? [...ISSUE_FIELDS, context.state.sprintField] : ISSUE_FIELDS,
+            maxResults: JIRA_PAGE_SIZE,
+            nextPageToken: request.pageToken
+        });
+
+        const issues: JiraIssue[] = result.issues || [];
+        const last = issues[issues.length - 1];
+        return {
+            records: issues,
+            nextPageToken: result.isLast === false ? result.nextPageToken : undefined,
+            // Oldest first, so the last issue of the last page is the new cursor
+            cursor: last ? parseJiraDate(last.fields.updated).toISOString() : undefined
+        };
+    }
+
+    getExternalId(issue: JiraIssue): string {
+        return issue.id;
+    }
+
+    async toChange(context: ConnectorContext, issue: JiraIssue, existing: IWorkItem | undefined): Promise<ItemChange | null> {
+        const { fields } = issue;
+        if (existing && existing.get('metadata.updated') === fields.updated) return null;
+
+        const settings = this.getSettings(context.user);
+        const status = this.mapStatus(settings, fields.project?.key, fields.status?.name, fields.status?.statusCategory?.key);
+        // Issues assigned once they are already done are not imported
+        if (!existing && status === 'completed') return null;
+
+        const siteUrl = context.user.integrations!.jira!.siteUrl;
+        const epic = this.getEpic(fields.parent);
+        const sprint = this.getSprint(context.state.sprintField ? fields[context.state.sprintField] : undefined);
+        const thread = pickTrackerThread(settings, epic?.thread, sprint?.thread);
+
+        const changes = {
+            title: `${issue.key}: ${fields.summary}`,
+            preview: adfToText(fields.description).trim().slice(0, PREVIEW_LENGTH),
+            timestamp: fields.duedate ? new Date(fields.duedate) : parseJiraDate(fields.updated),
+            status,
+            priority: this.mapPriority(fields.priority?.name),
+            metadata: {
+                jiraId: issue.id,
+                key: issue.key,
+                project: fields.project?.key,
+                issueType: fields.issuetype?.name,
+                jiraStatus: fields.status?.name,
+                statusCategory: fields.status?.statusCategory?.key,
+                jiraPriority: fields.priority?.name,
+                epic: epic?.key,
+                sprint: sprint?.name,
+                dueDate: fields.duedate || undefined,
+                url: `${siteUrl}/browse/${issue.key}`,
+                updated: fields.updated
+            }
+        };
+
+        if (existing) return { action: 'update', changes, thread };
+        return {
+            action: 'create',
+            item: { ...changes, type: 'task', source: `Jira: ${fields.project?.name || fields.project?.key}`, isRead: false },
+            thread
+        };
+    }
+
+    /**
+     * Run the workflow transition that leads to a state meaning the new status. The status synced last is the
+     * common base: if the issue's status was changed in Jira since then, Jira's status wins.
+     */
+    async writeBack(context: ConnectorContext, item: IWorkItem, changes: WriteBackChanges): Promise<WriteBackResult> {
+        const settings = this.getSettings(context.user);
+        const status = changes.status!; // The only written back field
+        const apiToken = context.credentials.apiKey!;
+        const metadata = item.toObject({ flattenMaps: true }).metadata || {};
+
+        let issue: JiraIssue;
+        try {
+            issue = await jiraJson(context.userId, context.user, apiToken, 'GET', `/rest/api/3/issue/${metadata.jiraId}?fields=status,updated,project`);
+        } catch (error: any) {
+            if (error instanceof JiraApiError && error.status === 404) return { outcome: 'conflict', detail: 'The issue was deleted in Jira' };
+            throw error;
+        }
+
+        const project = issue.fields.project?.key || metadata.project;
+        const currentName: string | undefined = issue.fields.status?.name;
+        const current = this.mapStatus(settings, project, currentName, issue.fields.status?.statusCategory?.key);
+        if (current === status) return { outcome: 'unchanged' };
+
+        if (issue.fields.updated !== metadata.updated && current !== this.mapStatus(settings, project, metadata.jiraStatus, metadata.statusCategory)) {
+            return {
+                outcome: 'conflict',
+                detail: `The status was changed to ${currentName} in Jira`,
+                local: { status: current, metadata: { ...metadata, jiraStatus: currentName, statusCategory: issue.fields.status?.statusCategory?.key } }
+            };
+        }
+
+        const { transitions = [] } = await jiraJson(context.userId, context.user, apiToken, 'GET', `/rest/api/3/issue/${metadata.jiraId}/transitions`);
+        const mappedNames = getMappedStateNames(settings, project, status);
+        const transition = transitions.find((candidate: any) => mappedNames.includes(candidate.to?.name?.trim().toLowerCase()))
+            || transitions.find((candidate: any) => this.mapStatus(settings, project, candidate.to?.name, candidate.to?.statusCategory?.key) === status);
+        if (!transition) return { outcome: 'skipped', detail: `No Jira transition from ${currentName} leads to ${status}` };
+
+        await jiraJson(context.userId, context.user, apiToken, 'POST', `/rest/api/3/issue/${metadata.jiraId}/transitions`, {
+            transition: { id: transition.id }
+        });
+        return {
+            outcome: 'applied',
+            local: { metadata: { ...metadata, jiraStatus: transition.to.name, statusCategory: transition.to.statusCategory?.key } }
+        };
+    }
+
+    private getSettings(user: IUser): IssueTrackerSettings {
+        return user.integrations?.jira || {};
+    }
+
+    /**
+     * Id of the site's sprint field, if Jira Software is installed
+     */
+    private async findSprintField(context: ConnectorContext): Promise<string | undefined> {
+        const fields: any[] = await jiraJson(context.userId, context.user, context.credentials.apiKey!, 'GET', '/rest/api/3/field');
+        return fields.find(field => field.schema?.custom === JIRA_SPRINT_FIELD_TYPE)?.id;
+    }
+
+    /**
+     * The issue's parent when it is an epic (the top of the default issue hierarchy)
+     */
+    private getEpic(parent: any): { key: string, thread: ThreadRoute } | undefined {
+        const type = parent?.fields?.issuetype;
+        if (!parent || !(type?.hierarchyLevel === 1 || /^epic$/i.test(type?.name || ''))) return undefined;
+
+        return {
+            key: parent.key,
+            thread: {
+                externalId: `jira:epic:${parent.id}`,
+                title: `${parent.key}: ${parent.fields.summary}`,
+                description: `Jira issues of the ${parent.key} epic.`
+            }
+        };
+    }
+
+    /**
+     * The issue's current sprint: the active one, else the next one, else the last one it was in
+     */
+    private getSprint(sprints: any): { name: string, thread: ThreadRoute } | undefined {
+        if (!Array.isArray(sprints) || sprints.length === 0) return undefined;
+        const sprint = sprints.find(s => s.state === 'active') || sprints.find(s => s.state === 'future') || sprints[sprints.length - 1];
+
+        return {
+            name: sprint.name,
+            thread: {
+                externalId: `jira:sprint:${sprint.id}`,
+                title: sprint.name,
+                description: sprint.goal || `Jira issues in ${sprint.name}.`
+            }
+        };
+    }
+
+    /**
+     * The project's status mapping decides; other states follow their category (To Do, In Progress, Done)
+     */
+    private mapStatus(settings: IssueTrackerSettings, project: string | undefined, state: string | undefined, category: string | undefined): TrackerStatus {
+        const mapped = getMappedStatus(settings, project, state);
+        if (mapped) return mapped;
+        if (category === 'done') return 'completed';
+        if (category === 'indeterminate') return 'in-progress';
+        return 'todo';
+    }
+
+    private mapPriority(priority?: string): NonNullable<WorkItem['priority']> {
+        if (/highest|high|blocker|critical|urgent/i.test(priority || '')) return 'high';
+        if (/lowest|low|minor|trivial/i.test(priority || '')) return 'low';
+        return 'medium';
+    }
+}
@@ -0,0 +1,97 @@
+import { IUser } from '../models/User';
+import { CredentialService, ReauthRequiredError } from '../services/credential.service';
+
+const JIRA_MAX_RETRIES = 3;
+
+export const JIRA_PAGE_SIZE = 100;
+
+// Custom field type of the Jira Software sprint field, whose id differs per site
+export const JIRA_SPRINT_FIELD_TYPE = 'com.pyxis.greenhopper.jira:gh-sprint';
+
+/**
+ * A failed Jira API call, with its HTTP status
+ */
+export class JiraApiError extends Error {
+    constructor(readonly status: number, message: string) {
+        super(message);
+        this.name = 'JiraApiError';
+    }
+}
+
+export type JiraIssue = {
+    id: string;
+    key: string;
+    fields: Record<string, any>;
+};
+
+export const isJiraConnected = (user: IUser): boolean => {
+    const jira = user.integrations?.jira;
+    return !!(jira?.connected && jira.apiKey && jira.siteUrl && jira.email);
+};
+
+/**
+ * `https://acme.atlassian.net` from whatever form the user entered the site in
+ */
+export const normalizeJiraSiteUrl = (siteUrl: string): string => {
+    const trimmed = siteUrl.trim().replace(/\/+$/, '');
+    const url = new URL(/^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+    return `https://${url.host}`;
+};
+
+/**
+ * Call the Jira Cloud REST API with an account email and API token, waiting out rate limits (429 with Retry-After)
+ */
+export const jiraRequest = async (siteUrl: string, email: string, apiToken: string, method: 'GET' | 'POST' | 'PUT', path: string, body?: any): Promise<Response> => {
+    for (let attempt = 0; ; attempt++) {
+        const response = await fetch(`${siteUrl}${path}`, {
+            method,
+            headers: {
+                'Authorization': `Basic ${Buffer.from(`${email}:${apiToken}`).toString('base64')}`,
+                'Accept': 'application/json',
+                'Content-Type': 'application/json'
+            },
+            body: body ? JSON.stringify(body) : undefined
+        });
+
+        if (response.status !== 429 || attempt >= JIRA_MAX_RETRIES) return response;
+
+        const retryAfter = parseInt(response.headers.get('retry-after') || '') || 1;
+        await new Promise(resolve => setTimeout(resolve, Math.min(retryAfter, 30) * 1000));
+    }
+};
+
+/**
+ * Call Jira as the user and parse the JSON body (empty for 204). A rejected token puts the integration in needs-reauth.
+ */
+export const jiraJson = async (userId: string, user: IUser, apiToken: string, method: 'GET' | 'POST' | 'PUT', path: string, body?: any): Promise<any> => {
+    const { siteUrl, email } = user.integrations!.jira!;
+    const response = await jiraRequest(siteUrl!, email!, apiToken, method, path, body);
+
+    if (response.status === 401) {
+        await CredentialService.markNeedsReauth(userId, 'jira', await response.text());
+        throw new ReauthRequiredError('jira', 'Jira rejected the stored API token. Please reconnect Jira.');
+    }
+    if (!response.ok) {
+        throw new JiraApiError(response.status, `Jira API error: ${response.status} ${await response.text()}`);
+    }
+
+    return response.status === 204 ? {} : response.json();
+};
+
+/**
+ * Jira dates end in `+0000`; make them ISO so they parse and compare everywhere
+ */
+export const parseJiraDate = (value: string): Date => new Date(value.replace(/([+-]\d\d)(\d\d)$/, '$1:$2'));
+
+/**
+ * Plain text of an Atlassian Document Format value (issue descriptions and comments)
+ */
+export const adfToText = (node: any): string => {
+    if (!node) return '';
+    if (typeof node === 'string') return node;
+    if (node.type === 'text') return node.text || '';
+    if (node.type === 'hardBreak') return '\n';
+
+    const text = (node.content || []).map(adfToText).join('');
+    return ['paragraph', 'heading', 'listItem', 'codeBlock', 'blockquote'].includes(node.type) ? `${text}\n` : text;
+};
@@ -0,0 +1,220 @@
+import { IUser } from '../models/User';
+import { IWorkItem } from '../models/WorkItem';
+import { WorkItem } from '../types';
+import { getMappedStateNames, getMappedStatus, IssueTrackerSettings, pickTrackerThread, TrackerStatus } from './issue-tracker';
+import { isLinearConnected, LINEAR_ISSUE_FIELDS, LINEAR_PAGE_SIZE, LinearIssue, linearQuery } from './linear';
+import { Connector, ConnectorContext, ItemChange, SyncPage, SyncPageRequest, ThreadRoute, WriteBackChanges, WriteBackResult } from './types';
+
+const PREVIEW_LENGTH = 500;
+
+// Workflow state types that stand for each status, in order of preference
+const STATE_TYPES: Record<TrackerStatus, string[]> = {
+    'todo': ['unstarted', 'backlog'],
+    'in-progress': ['started'],
+    'completed': ['completed']
+};
+
+const ASSIGNED_ISSUES_QUERY = `
+    query AssignedIssues($after: String, $filter: IssueFilter) {
+        viewer {
+            assignedIssues(first: ${LINEAR_PAGE_SIZE}, after: $after, filter: $filter, orderBy: updatedAt) {
+                nodes { ${LINEAR_ISSUE_FIELDS} }
+                pageInfo { hasNextPage endCursor }
+            }
+        }
+    }
+`;
+
+const ISSUE_STATE_QUERY = `
+    query IssueState($id: String!) {
+        issue(id: $id) {
+            id updatedAt
+            state { id name type }
+            team { key states { nodes { id name type position } } }
+        }
+    }
+`;
+
+const UPDATE_STATE_MUTATION = `
+    mutation UpdateIssueState($id: String!, $stateId: String!) {
+        issueUpdate(id: $id, input: { stateId: $stateId }) {
+            success
+            issue { updatedAt state { name type } }
+        }
+    }
+`;
+
+/**
+ * Linear issues assigned to the user, as tasks. Workflow states map through the team's status mapping, or else
+ * their type; the issue's project or cycle becomes its thread. With write-back turned on, status changes made
+ * in Monocle move the issue to a matching state of its team.
+ * Only issues updated since the newest `updatedAt` seen are fetched; the first sync skips completed and canceled issues.
+ */
+export class LinearIssuesConnector implements Connector<LinearIssue> {
+    readonly id = 'linear-issues';
+    readonly provider = 'linear' as const;
+    readonly label = 'Linear issues';
+    readonly countKey = 'issuesSynced';
+    readonly idField = 'linearId';
+    readonly itemType = 'task' as const;
+    readonly writeBackFields: (keyof WriteBackChanges)[] = ['status'];
+
+    isConnected(user: IUser): boolean {
+        return isLinearConnected(user);
+    }
+
+    async fetchPage(context: ConnectorContext, request: SyncPageRequest): Promise<SyncPage<LinearIssue>> {
+        const filter = request.cursor
+            ? { updatedAt: { gte: request.cursor } }
+            : { state: { type: { nin: ['completed', 'canceled'] } } };
+
+        const data = await linearQuery(context.userId, context.credentials.apiKey!, ASSIGNED_ISSUES_QUERY, {
+            after: request.pageToken,
+            filter
+        });
+        const { nodes, pageInfo } = data.viewer.assignedIssues;
+        const issues: LinearIssue[] = nodes || [];
+
+        // Newest first, so keep the newest update across the run's pages
+        for (const issue of issues) {
+            if (!context.state.newest || issue.updatedAt > context.state.newest) context.state.newest = issue.updatedAt;
+        }
+        return {
+            records: issues,
+            nextPageToken: pageInfo?.hasNextPage ? pageInfo.endCursor : undefined,
+            cursor: context.state.newest
+        };
+    }
+
+    getExternalId(issue: LinearIssue): string {
+        return issue.id;
+    }
+
+    async toChange(context: ConnectorContext, issue: LinearIssue, existing: IWorkItem | undefined): Promise<ItemChange | null> {
+        if (existing && existing.get('metadata.updatedAt') === issue.updatedAt) return null;
+
+        const settings = this.getSettings(context.user);
+        const status = this.mapStatus(settings, issue.team?.key, issue.state?.name, issue.state?.type);
+        // Issues assigned once they are already done are not imported
+        if (!existing && status === 'completed') return null;
+
+        const thread = pickTrackerThread(settings, this.getProjectThread(issue), this.getCycleThread(issue));
+        const changes = {
+            title: `${issue.identifier}: ${issue.title}`,
+            preview: (issue.description || '').trim().slice(0, PREVIEW_LENGTH),
+            timestamp: new Date(issue.dueDate || issue.updatedAt),
+            status,
+            priority: this.mapPriority(issue.priority),
+            metadata: {
+                linearId: issue.id,
+                identifier: issue.identifier,
+                team: issue.team?.key,
+                linearState: issue.state?.name,
+                stateType: issue.state?.type,
+                linearPriority: issue.priorityLabel,
+                project: issue.project?.name,
+                cycle: issue.cycle?.number,
+                dueDate: issue.dueDate || undefined,
+                url: issue.url,
+                updatedAt: issue.updatedAt
+            }
+        };
+
+        if (existing) return { action: 'update', changes, thread };
+        return {
+            action: 'create',
+            item: { ...changes, type: 'task', source: `Linear: ${issue.team?.name || issue.team?.key}`, isRead: false },
+            thread
+        };
+    }
+
+    /**
+     * Move the issue to its team's first state that means the new status. The status synced last is the
+     * common base: if the issue's state was changed in Linear since then, Linear's state wins.
+     */
+    async writeBack(context: ConnectorContext, item: IWorkItem, changes: WriteBackChanges): Promise<WriteBackResult> {
+        const settings = this.getSettings(context.user);
+        const status = changes.status!; // The only written back field
+        const apiKey = context.credentials.apiKey!;
+        const metadata = item.toObject({ flattenMaps: true }).metadata || {};
+
+        let issue: any;
+        try {
+            issue = (await linearQuery(context.userId, apiKey, ISSUE_STATE_QUERY, { id: metadata.linearId })).issue;
+        } catch (error: any) {
+            if (!/not found/i.test(error.message)) throw error;
+        }
+        if (!issue) return { outcome: 'conflict', detail: 'The issue was deleted in Linear' };
+
+        const team: string = issue.team.key;
+        const current = this.mapStatus(settings, team, issue.state.name, issue.state.type);
+        if (current === status) return { outcome: 'unchanged' };
+
+        if (issue.updatedAt !== metadata.updatedAt && current !== this.mapStatus(settings, team, metadata.linearState, metadata.stateType)) {
+            return {
+                outcome: 'conflict',
+                detail: `The status was changed to ${issue.state.name} in Linear`,
+                local: { status: current, metadata: { ...metadata, linearState: issue.state.name, stateType: issue.state.type } }
+            };
+        }
+
+        const states: { id: string, name: string, type: string, position: number }[] = [...(issue.team.states?.nodes || [])]
+            .sort((a, b) => a.position - b.position);
+        const mappedNames = getMappedStateNames(settings, team, status);
+        const state = states.find(candidate => mappedNames.includes(candidate.name.trim().toLowerCase()))
+            || STATE_TYPES[status].map(type => states.find(candidate => candidate.type === type && !getMappedStatus(settings, team, candidate.name))).find(Boolean);
+        if (!state) return { outcome: 'skipped', detail: `No ${team} state in Linear means ${status}` };
+
+        const result = await linearQuery(context.userId, apiKey, UPDATE_STATE_MUTATION, { id: metadata.linearId, stateId: state.id });
+        const updated = result.issueUpdate?.issue;
+        if (!result.issueUpdate?.success || !updated) throw new Error('Linear did not update the issue');
+
+        return {
+            outcome: 'applied',
+            local: { metadata: { ...metadata, linearState: updated.state.name, stateType: updated.state.type, updatedAt: updated.updatedAt } }
+        };
+    }
+
+    private getSettings(user: IUser): IssueTrackerSettings {
+        return user.integrations?.linear || {};
+    }
+
+    private getProjectThread(issue: LinearIssue): ThreadRoute | undefined {
+        if (!issue.project) return undefined;
+        return {
+            externalId: `linear:project:${issue.project.id}`,
+            title: issue.project.name,
+            description: issue.project.description || `Linear issues of the ${issue.project.name} project.`
+        };
+    }
+
+    private getCycleThread(issue: LinearIssue): ThreadRoute | undefined {
+        if (!issue.cycle) return undefined;
+        const name = `${issue.team?.key || 'Linear'} cycle ${issue.cycle.number}${issue.cycle.name ? `: ${issue.cycle.name}` : ''}`;
+        return {
+            externalId: `linear:cycle:${issue.cycle.id}`,
+            title: name,
+            description: issue.cycle.description || `Linear issues in ${name}.`
+        };
+    }
+
+    /**
+     * The team's status mapping decides; other states follow their type (backlog, unstarted, started, completed, canceled)
+     */
+    private mapStatus(settings: IssueTrackerSettings, team: string | undefined, state: string | undefined, type: string | undefined): TrackerStatus {
+        const mapped = getMappedStatus(settings, team, state);
+        if (mapped) return mapped;
+        if (type === 'completed' || type === 'canceled') return 'completed';
+        if (type === 'started') return 'in-progress';
+        return 'todo';
+    }
+
+    /**
+     * Linear priorities: 1 urgent, 2 high, 3 medium, 4 low, 0 none
+     */
+    private mapPriority(priority?: number): NonNullable<WorkItem['priority']> {
+        if (priority === 1 || priority === 2) return 'high';
+        if (priority === 4) return 'low';
+        return 'medium';
+    }
+}
@@ -0,0 +1,83 @@
+import { IUser } from '../models/User';
+import { CredentialService, ReauthRequiredError } from '../services/credential.service';
+
+const LINEAR_API_URL = 'https://api.linear.app/graphql';
+const LINEAR_MAX_RETRIES = 3;
+
+export const LINEAR_PAGE_SIZE = 100;
+
+export type LinearIssue = {
+    id: string;
+    identifier: string;
+    title: string;
+    description?: string;
+    url: string;
+    priority: number;
+    priorityLabel?: string;
+    dueDate?: string;
+    updatedAt: string;
+    state: { id: string, name: string, type: string };
+    team: { id: string, key: string, name: string };
+    project?: { id: string, name: string, description?: string };
+    cycle?: { id: string, name?: string, number: number, description?: string };
+};
+
+/**
+ * Issue fields every query selects
+ */
+export const LINEAR_ISSUE_FIELDS = `
+    id identifier title description url priority priorityLabel dueDate updatedAt
+    state { id name type }
+    team { id key name }
+    project { id name description }
+    cycle { id name number description }
+`;
+
+export const isLinearConnected = (user: IUser): boolean => {
+    const linear = user.integrations?.linear;
+    return !!(linear?.connected && linear.apiKey);
+};
+
+/**
+ * Send a GraphQL request with a personal API key, waiting out rate limits (HTTP 429 or a RATELIMITED error)
+ */
+export const linearRequest = async (apiKey: string, query: string, variables?: Record<string, any>): Promise<Response> => {
+    for (let attempt = 0; ; attempt++) {
+        const response = await fetch(LINEAR_API_URL, {
+            method: 'POST',
+            headers: {
+                'Authorization': apiKey,
+                'Content-Type': 'application/json'
+            },
+            body: JSON.stringify({ query, variables })
+        });
+
+        const limited = response.status === 429
+            || (response.status === 400 && (await response.clone().text()).includes('RATELIMITED'));
+        if (!limited || attempt >= LINEAR_MAX_RETRIES) return response;
+
+        const reset = parseInt(response.headers.get('x-ratelimit-requests-reset') || '');
+        const waitMs = reset ? reset - Date.now() : 1000;
+        await new Promise(resolve => setTimeout(resolve, Math.min(Math.max(waitMs, 1000), 30000)));
+    }
+};
+
+/**
+ * Run a Linear query and return its `data`. A rejected key puts the integration in needs-reauth.
+ */
+export const linearQuery = async (userId: string, apiKey: string, query: string, variables?: Record<string, any>): Promise<any> => {
+    const response = await linearRequest(apiKey, query, variables);
+    const body: any = await response.json().catch(() => ({}));
+    const authFailed = response.status === 401
+        || (body.errors || []).some((error: any) => error.extensions?.code === 'AUTHENTICATION_ERROR');
+
+    if (authFailed) {
+        await CredentialService.markNeedsReauth(userId, 'linear', body.errors?.[0]?.message || `HTTP ${response.status}`);
+        throw new ReauthRequiredError('linear', 'Linear rejected the stored API key. Please reconnect Linear.');
+    }
+    if (!response.ok || body.errors?.length) {
+        throw new Error(`Linear API error: ${response.status} ${body.errors?.[0]?.message || ''}`.trim());
+    }
+
+    return body.data;
+};
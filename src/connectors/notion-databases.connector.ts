@@ -0,0 +1,201 @@
+import { IUser, UserModel } from '../models/User';
+import { IWorkItem } from '../models/WorkItem';
+import { getNotionTitle, isNotionConnected, NOTION_PAGE_SIZE, NotionPage, notionJson, richTextToPlain } from './notion';
+import { Connector, ConnectorContext, ItemChange, SyncPage, SyncPageRequest, SyncStream, WriteBackChanges, WriteBackResult } from './types';
+
+/**
+ * Rows of the selected Notion databases as tasks, mapping status, due date and assignee; status changes
+ * made in Monocle are written back.
+ * Each database is a stream, so a newly selected one gets a full import and the others
+ * only rows edited since their cursor.
+ */
+export class NotionDatabasesConnector implements Connector<NotionPage> {
+    readonly id = 'notion-databases';
+    readonly provider = 'notion' as const;
+    readonly label = 'Notion databases';
+    readonly countKey = 'tasksSynced';
+    readonly idField = 'notionId';
+    readonly itemType = 'task' as const;
+    readonly writeBackFields: (keyof WriteBackChanges)[] = ['status'];
+
+    isConnected(user: IUser): boolean {
+        return isNotionConnected(user);
+    }
+
+    async listStreams(context: ConnectorContext): Promise<SyncStream[]> {
+        return (context.user.integrations?.notion?.databaseIds || []).map(id => ({ id }));
+    }
+
+    async fetchPage(context: ConnectorContext, request: SyncPageRequest): Promise<SyncPage<NotionPage>> {
+        const apiKey = context.credentials.apiKey!;
+        const databaseId = request.stream.id;
+
+        if (request.pageIndex === 0) {
+            const database = await notionJson(context.userId, apiKey, 'GET', `/databases/${databaseId}`);
+            request.stream.label = richTextToPlain(database.title) || 'Untitled database';
+        }
+
+        const result = await notionJson(context.userId, apiKey, 'POST', `/databases/${databaseId}/query`, {
+            // Notion rounds last_edited_time to the minute, so re-read the cursor's minute and skip unchanged rows
+            filter: request.cursor ? { timestamp: 'last_edited_time', last_edited_time: { on_or_after: request.cursor } } : undefined,
+            sorts: [{ timestamp: 'last_edited_time', direction: 'ascending' }],
+            page_size: NOTION_PAGE_SIZE,
+            start_cursor: request.pageToken
+        });
+
+        const rows: NotionPage[] = result.results || [];
+        return {
+            records: rows,
+            nextPageToken: result.has_more ? result.next_cursor : undefined,
+            // Oldest first, so the last row of the last page is the new cursor
+            cursor: rows.length > 0 ? rows[rows.length - 1].last_edited_time : undefined
+        };
+    }
+
+    getExternalId(row: NotionPage): string {
+        return row.id;
+    }
+
+    async toChange(context: ConnectorContext, row: NotionPage, existing: IWorkItem | undefined, stream: SyncStream): Promise<ItemChange | null> {
+        if (row.archived || row.in_trash) {
+            return existing ? { action: 'remove' } : null;
+        }
+        if (existing && existing.get('metadata.lastEditedTime') === row.last_edited_time) return null;
+
+        const properties = row.properties || {};
+        const statusProperty = this.findStatusProperty(properties)?.[1];
+        const dueProperty = this.findProperty(properties, ['date'], /^(due|due date|deadline|date)$/i);
+        const assigneeProperty = this.findProperty(properties, ['people'], /^(assignee|assignees|assigned to|owner)$/i);
+
+        const statusName = this.getStatusName(statusProperty);
+        const dueDate: string | undefined = dueProperty?.date?.start;
+        const assignees: { name?: string, email?: string }[] = (assigneeProperty?.people || []).map((person: any) => ({
+            name: person.name,
+            email: person.person?.email
+        }));
+
+        // Notion people are matched to Monocle users by email
+        const emails = assignees.map(a => a.email).filter((email): email is string => !!email);
+        const assignee = emails.length > 0 ? await UserModel.findOne({ email: { $in: emails } }) : null;
+
+        const fields = {
+            title: getNotionTitle(row),
+            timestamp: dueDate ? new Date(dueDate) : new Date(row.last_edited_time),
+            status: this.mapStatus(statusName),
+            assigneeId: assignee ? (assignee._id as any).toString() : undefined,
+            metadata: {
+                notionId: row.id,
+                databaseId: stream.id,
+                url: row.url,
+                lastEditedTime: row.last_edited_time,
+                notionStatus: statusName,
+                dueDate,
+                assignees
+            }
+        };
+
+        if (existing) return { action: 'update', changes: fields };
+        return {
+            action: 'create',
+            item: { ...fields, type: 'task', source: `Notion: ${stream.label}`, isRead: false, priority: 'medium' }
+        };
+    }
+
+    /**
+     * Set the row's status property to an option that means the new status. The status synced last is
+     * the common base: if the row's status was changed in Notion since then, Notion's status wins.
+     * Needs the integration's "Update content" capability.
+     */
+    async writeBack(context: ConnectorContext, item: IWorkItem, changes: WriteBackChanges): Promise<WriteBackResult> {
+        const status = changes.status!; // The only written back field
+        const apiKey = context.credentials.apiKey!;
+        const metadata = item.toObject({ flattenMaps: true }).metadata || {};
+        const row: NotionPage = await notionJson(context.userId, apiKey, 'GET', `/pages/${metadata.notionId}`);
+        if (row.archived || row.in_trash) return { outcome: 'conflict', detail: 'The row was deleted in Notion' };
+
+        const entry = this.findStatusProperty(row.properties || {});
+        if (!entry) return { outcome: 'skipped', detail: 'The database has no status property' };
+        const [propertyName, property] = entry;
+
+        const currentName = this.getStatusName(property);
+        const current = this.mapStatus(currentName);
+        if (current === status) return { outcome: 'unchanged' };
+
+        if (row.last_edited_time !== metadata.lastEditedTime && current !== this.mapStatus(metadata.notionStatus)) {
+            return {
+                outcome: 'conflict',
+                detail: `The status was changed to ${currentName || 'empty'} in Notion`,
+                local: { status: current, metadata: { ...metadata, notionStatus: currentName } }
+            };
+        }
+
+        const value = await this.toStatusValue(context, metadata.databaseId, propertyName, property.type, status);
+        if (!value) return { outcome: 'skipped', detail: `No ${propertyName} option in Notion means ${status}` };
+
+        const updated: NotionPage = await notionJson(context.userId, apiKey, 'PATCH', `/pages/${metadata.notionId}`, {
+            properties: { [propertyName]: value }
+        });
+        const updatedProperty = updated.properties?.[propertyName];
+        return {
+            outcome: 'applied',
+            local: { metadata: { ...metadata, notionStatus: this.getStatusName(updatedProperty), lastEditedTime: updated.last_edited_time } }
+        };
+    }
+
+    /**
+     * Property value that sets a status property to a Monocle status, picking the first option whose name
+     * (or, for status properties, whose group) means that status
+     */
+    private async toStatusValue(context: ConnectorContext, databaseId: string, propertyName: string, type: string, status: 'todo' | 'in-progress' | 'completed'): Promise<any> {
+        if (type === 'checkbox') {
+            // A checkbox can only say done or not done
+            return status === 'in-progress' ? undefined : { checkbox: status === 'completed' };
+        }
+
+        const database = await notionJson(context.userId, context.credentials.apiKey!, 'GET', `/databases/${databaseId}`);
+        const schema = database.properties?.[propertyName]?.[type] || {};
+        const options: { id: string, name: string }[] = schema.options || [];
+
+        let option = options.find(candidate => this.mapStatus(candidate.name) === status);
+        if (!option && type === 'status') {
+            const group = (schema.groups || []).find((candidate: any) => this.mapStatus(candidate.name) === status);
+            option = options.find(candidate => group?.option_ids?.includes(candidate.id));
+        }
+        return option ? { [type]: { name: option.name } } : undefined;
+    }
+
+    /**
+     * The row's status property as `[name, property]`
+     */
+    private findStatusProperty(properties: Record<string, any>): [string, any] | undefined {
+        return this.findPropertyEntry(properties, ['status', 'select', 'checkbox'], /^(status|state|done|completed?)$/i);
+    }
+
+    private getStatusName(property: any): string | undefined {
+        if (property?.type === 'checkbox') return property.checkbox ? 'Done' : undefined;
+        return property?.[property?.type]?.name;
+    }
+
+    /**
+     * Find a property of one of the given types, preferring one whose name matches
+     */
+    private findProperty(properties: Record<string, any>, types: string[], preferredName: RegExp): any {
+        return this.findPropertyEntry(properties, types, preferredName)?.[1];
+    }
+
+    private findPropertyEntry(properties: Record<string, any>, types: string[], preferredName: RegExp): [string, any] | undefined {
+        const candidates = Object.entries(properties).filter(([, property]) => types.includes(property.type));
+        const named = candidates.find(([name]) => preferredName.test(name.trim()));
+        if (named) return named;
+
+        // Otherwise use the first property of the primary type; a select or checkbox with another name is not a status
+        return candidates.find(([, property]) => property.type === types[0]);
+    }
+
+    private mapStatus(status?: string): 'todo' | 'in-progress' | 'completed' {
+        if (!status || /not started|to.?do|backlog/i.test(status)) return 'todo';
+        if (/done|complete|closed|resolved|shipped|finished/i.test(status)) return 'completed';
+        if (/progress|doing|working|review|started|active|blocked/i.test(status)) return 'in-progress';
+        return 'todo';
+    }
+}
@@ -0,0 +1,90 @@
+import { IUser } from '../models/User';
+import { IWorkItem } from '../models/WorkItem';
+import { isNotionConnected, getNotionTitle, NOTION_PAGE_SIZE, NotionPage, notionJson, notionRequest, richTextToPlain } from './notion';
+import { Connector, ConnectorContext, ItemChange, SyncPage, SyncPageRequest } from './types';
+
+const NOTION_PREVIEW_BLOCKS = 20;
+const NOTION_PREVIEW_LENGTH = 500;
+
+/**
+ * Standalone Notion pages as documents. Search has no last_edited_time filter, so it is walked
+ * newest first and stops once past the cursor. Database rows are left to the databases connector.
+ */
+export class NotionPagesConnector implements Connector<NotionPage> {
+    readonly id = 'notion-pages';
+    readonly provider = 'notion' as const;
+    readonly label = 'Notion pages';
+    readonly countKey = 'pagesSynced';
+    readonly idField = 'notionId';
+    readonly itemType = 'document' as const;
+
+    isConnected(user: IUser): boolean {
+        return isNotionConnected(user);
+    }
+
+    async fetchPage(context: ConnectorContext, request: SyncPageRequest): Promise<SyncPage<NotionPage>> {
+        const result = await notionJson(context.userId, context.credentials.apiKey!, 'POST', '/search', {
+            filter: { property: 'object', value: 'page' },
+            sort: { timestamp: 'last_edited_time', direction: 'descending' },
+            page_size: NOTION_PAGE_SIZE,
+            start_cursor: request.pageToken
+        });
+
+        const since = request.cursor ? new Date(request.cursor) : undefined;
+        const pages: NotionPage[] = result.results || [];
+        const recent = since ? pages.filter(page => new Date(page.last_edited_time) >= since) : pages;
+        const passedCursor = recent.length < pages.length;
+
+        return {
+            records: recent.filter(page => page.parent?.type !== 'database_id'),
+            nextPageToken: result.has_more && !passedCursor ? result.next_cursor : undefined,
+            // Newest first, so the first page holds the new cursor
+            cursor: request.pageIndex === 0 && pages.length > 0 ? pages[0].last_edited_time : undefined
+        };
+    }
+
+    getExternalId(page: NotionPage): string {
+        return page.id;
+    }
+
+    async toChange(context: ConnectorContext, page: NotionPage, existing: IWorkItem | undefined): Promise<ItemChange | null> {
+        if (page.archived || page.in_trash) {
+            return existing ? { action: 'remove' } : null;
+        }
+        // Notion rounds last_edited_time to the minute, so the cursor's minute is read again and skipped here
+        if (existing && existing.get('metadata.lastEditedTime') === page.last_edited_time) return null;
+
+        const fields = {
+            title: getNotionTitle(page),
+            timestamp: new Date(page.last_edited_time),
+            preview: await this.fetchPreview(context.credentials.apiKey!, page.id),
+            metadata: {
+                notionId: page.id,
+                url: page.url,
+                lastEditedTime: page.last_edited_time
+            }
+        };
+
+        if (existing) return { action: 'update', changes: fields };
+        return { action: 'create', item: { ...fields, type: 'document', source: 'Notion', isRead: false, priority: 'medium' } };
+    }
+
+    /**
+     * Build a short preview from the first text blocks of a page
+     */
+    private async fetchPreview(apiKey: string, pageId: string): Promise<string> {
+        try {
+            const response = await notionRequest(apiKey, 'GET', `/blocks/${pageId}/children?page_size=${NOTION_PREVIEW_BLOCKS}`);
+            if (!response.ok) return '';
+
+            const data: any = await response.json();
+            const text = (data.results || [])
+                .map((block: any) => richTextToPlain(block[block.type]?.rich_text))
+                .filter(Boolean)
+                .join('\n');
+            return text.slice(0, NOTION_PREVIEW_LENGTH);
+        } catch {
+            return '';
+        }
+    }
+}
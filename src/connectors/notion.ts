@@ -0,0 +1,79 @@
+import { IUser } from '../models/User';
+import { CredentialService, ReauthRequiredError } from '../services/credential.service';
+
+const NOTION_API_URL = 'https://api.notion.com/v1';
+const NOTION_API_VERSION = '2022-06-28';
+const NOTION_MAX_RETRIES = 3;
+
+export const NOTION_PAGE_SIZE = 100;
+
+export type NotionPage = {
+    id: string;
+    url?: string;
+    last_edited_time: string;
+    archived?: boolean;
+    in_trash?: boolean;
+    parent?: { type: string, database_id?: string };
+    properties?: Record<string, any>;
+};
+
+export const isNotionConnected = (user: IUser): boolean => {
+    const notion = user.integrations?.notion;
+    return !!(notion?.connected && notion.apiKey);
+};
+
+/**
+ * Call the Notion API, waiting out rate limits (429 with Retry-After)
+ */
+export const notionRequest = async (apiKey: string, method: 'GET' | 'POST' | 'PATCH', path: string, body?: any): Promise<Response> => {
+    for (let attempt = 0; ; attempt++) {
+        const response = await fetch(`${NOTION_API_URL}${path}`, {
+            method,
+            headers: {
+                'Authorization': `Bearer ${apiKey}`,
+                'Notion-Version': NOTION_API_VERSION,
+                'Content-Type': 'application/json'
+            },
+            body: body ? JSON.stringify(body) : undefined
+        });
+
+        if (response.status !== 429 || attempt >= NOTION_MAX_RETRIES) return response;
+
+        const retryAfter = parseInt(response.headers.get('retry-after') || '') || 1;
+        await new Promise(resolve => setTimeout(resolve, Math.min(retryAfter, 30) * 1000));
+    }
+};
+
+/**
+ * Call the Notion API and parse the JSON body. A rejected key puts the integration in needs-reauth.
+ */
+export const notionJson = async (userId: string, apiKey: string, method: 'GET' | 'POST' | 'PATCH', path: string, body?: any): Promise<any> => {
+    const response = await notionRequest(apiKey, method, path, body);
+
+    if (response.status === 401) {
+        await CredentialService.markNeedsReauth(userId, 'notion', await response.text());
+        throw new ReauthRequiredError('notion', 'Notion rejected the stored API key. Please reconnect Notion.');
+    }
+    if (!response.ok) {
+        throw new Error(`Notion API error: ${response.status} ${await response.text()}`);
+    }
+
+    return response.json();
+};
+
+export const richTextToPlain = (richText?: { plain_text?: string }[]): string =>
+    (richText || []).map(part => part.plain_text || '').join('').trim();
+
+export const getNotionTitle = (page: NotionPage): string => {
+    const titleProperty = Object.values(page.properties || {}).find((property: any) => property.type === 'title');
+    return richTextToPlain(titleProperty?.title) || 'Untitled';
+};
+
+/**
+ * Notion accepts ids with or without dashes; store the dashed form the API returns
+ */
+export const normalizeNotionId = (id: string): string => {
+    const hex = id.replace(/-/g, '').trim();
+    if (!/^[0-9a-f]{32}$/i.test(hex)) return id.trim();
+    return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`.toLowerCase();
+};
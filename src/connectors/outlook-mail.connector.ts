@@ -0,0 +1,107 @@
+import { IUser } from '../models/User';
+import { IWorkItem } from '../models/WorkItem';
+import { EmailClassificationService } from '../services/email-classification.service';
+import { GRAPH_API_URL, GRAPH_PAGE_SIZE, graphDeltaPage, graphGet, graphPatch, isMicrosoftConnected } from './graph';
+import { Connector, ConnectorContext, ItemChange, SyncPage, SyncPageRequest, WriteBackChanges, WriteBackResult } from './types';
+
+const OUTLOOK_BACKFILL_DAYS = parseInt(process.env.OUTLOOK_BACKFILL_DAYS || '') || 14;
+const OUTLOOK_MAIL_FIELDS = 'subject,from,bodyPreview,receivedDateTime,isRead,isDraft,categories,conversationId,webLink';
+
+/**
+ * Outlook inbox through a Graph delta query. New mail is classified like Gmail and only work mail
+ * is imported; read state and categories follow later changes, and deleted or moved-out mail is removed.
+ */
+export class OutlookMailConnector implements Connector<any> {
+    readonly id = 'outlook-mail';
+    readonly provider = 'microsoft' as const;
+    readonly label = 'Outlook Mail';
+    readonly countKey = 'emailsSynced';
+    readonly idField = 'microsoftId';
+    readonly itemType = 'email' as const;
+    readonly writeBackFields: (keyof WriteBackChanges)[] = ['isRead'];
+
+    isConnected(user: IUser, overrideAccessToken?: string): boolean {
+        return isMicrosoftConnected(user, overrideAccessToken);
+    }
+
+    async fetchPage(context: ConnectorContext, request: SyncPageRequest): Promise<SyncPage<any>> {
+        const backfillStart = new Date(Date.now() - OUTLOOK_BACKFILL_DAYS * 24 * 60 * 60 * 1000).toISOString();
+        return graphDeltaPage(
+            context,
+            request,
+            `${GRAPH_API_URL}/me/mailFolders/inbox/messages/delta?$select=${OUTLOOK_MAIL_FIELDS}&$filter=receivedDateTime ge ${backfillStart}`,
+            { Prefer: `odata.maxpagesize=${GRAPH_PAGE_SIZE}` }
+        );
+    }
+
+    getExternalId(message: any): string {
+        return message.id;
+    }
+
+    async toChange(context: ConnectorContext, message: any, existing: IWorkItem | undefined): Promise<ItemChange | null> {
+        if (message['@removed']) {
+            return existing ? { action: 'remove' } : null;
+        }
+
+        if (existing) {
+            const isRead = !!message.isRead;
+            const categories = message.categories || [];
+            const metadata = existing.toObject({ flattenMaps: true }).metadata || {};
+            if (existing.isRead === isRead && JSON.stringify(metadata.categories) === JSON.stringify(categories)) return null;
+            return { action: 'update', changes: { isRead, metadata: { ...metadata, categories } } };
+        }
+
+        if (message.isDraft) return null;
+
+        const subject = message.subject || 'No Subject';
+        const sender = message.from?.emailAddress;
+        const from = sender?.name && sender?.address ? `${sender.name} <${sender.address}>` : (sender?.address || sender?.name || 'Unknown');
+        const snippet = message.bodyPreview || '';
+
+        const analysis = await EmailClassificationService.classifyAndPrioritizeEmail(subject, from, snippet);
+        if (!analysis || !analysis.isWork) {
+            console.log(`Skipping non-work email: ${subject}`);
+            return null;
+        }
+
+        return {
+            action: 'create',
+            item: {
+                type: 'email',
+                title: subject,
+                source: `Outlook: ${from}`,
+                timestamp: new Date(message.receivedDateTime || Date.now()),
+                preview: snippet,
+                isRead: !!message.isRead,
+                priority: analysis.priority,
+                metadata: {
+                    microsoftId: message.id,
+                    conversationId: message.conversationId,
+                    categories: message.categories || [],
+                    webLink: message.webLink,
+                    aiReason: analysis.reason,
+                    promptVersion: analysis.promptVersion
+                }
+            }
+        };
+    }
+
+    /**
+     * Mark the message read or unread. Read state is a single flag, so a message whose flag Outlook already
+     * changed needs nothing. Needs the Mail.ReadWrite scope.
+     */
+    async writeBack(context: ConnectorContext, item: IWorkItem, changes: WriteBackChanges): Promise<WriteBackResult> {
+        const url = `${GRAPH_API_URL}/me/messages/${encodeURIComponent(item.get('metadata.microsoftId'))}`;
+        let message: any;
+        try {
+            message = await graphGet(context, `${url}?$select=isRead`);
+        } catch (error: any) {
+            if (error.status === 404) return { outcome: 'conflict', detail: 'The message was deleted in Outlook' };
+            throw error;
+        }
+
+        if (!!message.isRead === changes.isRead) return { outcome: 'unchanged' };
+        await graphPatch(context, url, { isRead: changes.isRead });
+        return { outcome: 'applied' };
+    }
+}
@@ -0,0 +1,63 @@
+import { IWorkItem } from '../models/WorkItem';
+import { IntegrationProvider } from '../services/credential.service';
+import { Connector } from './types';
+import { GmailConnector } from './gmail.connector';
+import { GoogleCalendarConnector } from './google-calendar.connector';
+import { GoogleTasksConnector } from './google-tasks.connector';
+import { TeamsConnector } from './teams.connector';
+import { OutlookMailConnector } from './outlook-mail.connector';
+import { OutlookCalendarConnector } from './outlook-calendar.connector';
+import { NotionPagesConnector } from './notion-pages.connector';
+import { NotionDatabasesConnector } from './notion-databases.connector';
+import { GitHubIssuesConnector } from './github-issues.connector';
+import { GitHubCommentsConnector } from './github-comments.connector';
+import { JiraIssuesConnector } from './jira-issues.connector';
+import { LinearIssuesConnector } from './linear-issues.connector';
+import { ImapMailConnector } from './imap-mail.connector';
+import { IcsCalendarConnector } from './ics-calendar.connector';
+
+// Results are reported in registration order; the connectors of a provider sync side by side
+const connectors: Connector[] = [
+    new GmailConnector(),
+    new GoogleCalendarConnector(),
+    new GoogleTasksConnector(),
+    new TeamsConnector(),
+    new OutlookMailConnector(),
+    new OutlookCalendarConnector(),
+    new NotionPagesConnector(),
+    new NotionDatabasesConnector(),
+    new GitHubIssuesConnector(),
+    new GitHubCommentsConnector(),
+    new JiraIssuesConnector(),
+    new LinearIssuesConnector(),
+    new ImapMailConnector(),
+    new IcsCalendarConnector()
+];
+
+/**
+ * Add a connector. Its provider becomes available under `/api/integrations/:provider/*`.
+ */
+export const registerConnector = (connector: Connector): void => {
+    if (connectors.some(existing => existing.id === connector.id)) {
+        throw new Error(`Connector ${connector.id} is already registered`);
+    }
+    connectors.push(connector);
+};
+
+export const getConnector = (id: string): Connector | undefined =>
+    connectors.find(connector => connector.id === id);
+
+export const getConnectors = (provider?: string): Connector[] =>
+    provider ? connectors.filter(connector => connector.provider === provider) : [...connectors];
+
+/**
+ * Connector that imported an item, if any
+ */
+export const getItemConnector = (item: IWorkItem): Connector | undefined =>
+    connectors.find(connector => connector.itemType === item.type && item.get(`metadata.${connector.idField}`) != null);
+
+export const getIntegrationProviders = (): IntegrationProvider[] =>
+    [...new Set(connectors.map(connector => connector.provider))];
+
+export const isIntegrationProvider = (provider: string): provider is IntegrationProvider =>
+    connectors.some(connector => connector.provider === provider);
@@ -0,0 +1,220 @@
+import { IUser } from '../models/User';
+import { IWorkItem } from '../models/WorkItem';
+import { ReauthRequiredError } from '../services/credential.service';
+import { htmlToText } from '../utils/html';
+import { GRAPH_API_URL, graphDeltaPage, graphGet, isMicrosoftConnected } from './graph';
+import { Connector, ConnectorContext, ItemChange, SyncPage, SyncPageRequest, SyncStream } from './types';
+
+const TEAMS_BACKFILL_DAYS = parseInt(process.env.TEAMS_BACKFILL_DAYS || '') || 14;
+
+type TeamsMessage = {
+    id: string;
+    messageType?: string;
+    createdDateTime?: string;
+    lastModifiedDateTime?: string;
+    deletedDateTime?: string;
+    replyToId?: string;
+    webUrl?: string;
+    from?: { user?: { id?: string, displayName?: string }, application?: { displayName?: string } };
+    body?: { contentType?: string, content?: string };
+    attachments?: any[];
+    mentions?: any[];
+    '@removed'?: any;
+};
+
+type TeamsStreamData =
+    | { kind: 'chat', chat: any, title?: string }
+    | { kind: 'channel', team: any, channel: any };
+
+/**
+ * Microsoft Teams chat and channel messages. Each chat and channel is a stream with its own thread.
+ * Channels use Graph delta links; chats have no delta query, so a chat's cursor is the newest
+ * lastModifiedDateTime seen. Channel access needs extra Graph permissions; without them channels are skipped.
+ */
+export class TeamsConnector implements Connector<TeamsMessage> {
+    readonly id = 'teams';
+    readonly provider = 'microsoft' as const;
+    readonly label = 'Microsoft Teams';
+    readonly countKey = 'teamsSynced';
+    readonly idField = 'microsoftId';
+    readonly itemType = 'message' as const;
+
+    isConnected(user: IUser, overrideAccessToken?: string): boolean {
+        return isMicrosoftConnected(user, overrideAccessToken);
+    }
+
+    async listStreams(context: ConnectorContext): Promise<SyncStream[]> {
+        const me = await graphGet(context, `${GRAPH_API_URL}/me?$select=id`);
+        context.state.meId = me.id;
+
+        const streams: SyncStream[] = [];
+        let chatsUrl: string | undefined = `${GRAPH_API_URL}/me/chats?$expand=lastMessagePreview&$top=50`;
+        while (chatsUrl) {
+            const page: any = await graphGet(context, chatsUrl);
+            for (const chat of page.value || []) {
+                streams.push({ id: `chat:${chat.id}`, label: chat.topic, data: { kind: 'chat', chat } });
+            }
+            chatsUrl = page['@odata.nextLink'];
+        }
+
+        for (const team of await this.getOptional(context, `${GRAPH_API_URL}/me/joinedTeams`)) {
+            for (const channel of await this.getOptional(context, `${GRAPH_API_URL}/teams/${team.id}/channels`)) {
+                streams.push({
+                    id: `channel:${team.id}:${channel.id}`,
+                    label: `${team.displayName} / ${channel.displayName}`,
+                    data: { kind: 'channel', team, channel }
+                });
+            }
+        }
+
+        return streams;
+    }
+
+    async fetchPage(context: ConnectorContext, request: SyncPageRequest): Promise<SyncPage<TeamsMessage>> {
+        const data: TeamsStreamData = request.stream.data;
+        return data.kind === 'chat' ? this.fetchChatPage(context, request, data) : this.fetchChannelPage(context, request, data);
+    }
+
+    getExternalId(message: TeamsMessage): string {
+        return message.id;
+    }
+
+    async toChange(context: ConnectorContext, message: TeamsMessage, existing: IWorkItem | undefined, stream: SyncStream): Promise<ItemChange | null> {
+        if (message['@removed'] || message.deletedDateTime) {
+            return existing ? { action: 'remove' } : null;
+        }
+        // System events (members added, chat renamed, ...) are not conversation content
+        if (message.messageType && message.messageType !== 'message') return null;
+
+        const text = message.body?.contentType === 'html' ? htmlToText(message.body.content) : (message.body?.content || '').trim();
+        const attachments = message.attachments?.length || 0;
+        const preview = text || (attachments > 0 ? `[${attachments} attachment${attachments === 1 ? '' : 's'}]` : '');
+        if (!preview) return null;
+
+        const data: TeamsStreamData = stream.data;
+        const meId = context.state.meId;
+        const author = message.from?.user?.displayName || message.from?.application?.displayName || 'Unknown';
+        const fromMe = message.from?.user?.id === meId;
+        const mentionsMe = (message.mentions || []).some((mention: any) => mention.mentioned?.user?.id === meId);
+        const conversationTitle = data.kind === 'chat' ? (data.title || 'Teams Chat') : stream.label!;
+
+        const thread = {
+            externalId: `teams:${stream.id}`,
+            title: conversationTitle,
+            description: `Messages from ${conversationTitle} in Microsoft Teams.`
+        };
+        const people = !fromMe && author !== 'Unknown' ? [author] : [];
+        const fields = {
+            title: `${author} in ${conversationTitle}`,
+            preview,
+            metadata: {
+                ...(data.kind === 'chat'
+                    ? { chatId: data.chat.id }
+                    : { teamId: data.team.id, channelId: data.channel.id }),
+                microsoftId: message.id,
+                from: author,
+                fromId: message.from?.user?.id,
+                replyToId: message.replyToId,
+                webUrl: message.webUrl || (data.kind === 'chat' ? data.chat.webUrl : data.channel.webUrl),
+                lastModifiedDateTime: message.lastModifiedDateTime
+            }
+        };
+
+        if (existing) {
+            // Items from the old last-message import have no lastModifiedDateTime; updating them moves them to the chat's thread
+            if (existing.get('metadata.lastModifiedDateTime') === message.lastModifiedDateTime) return null;
+            return { action: 'update', changes: fields, thread, people };
+        }
+
+        return {
+            action: 'create',
+            item: {
+                ...fields,
+                type: 'message',
+                source: data.kind === 'chat' ? 'Microsoft Teams' : `Microsoft Teams: ${data.team.displayName}`,
+                timestamp: new Date(message.createdDateTime || Date.now()),
+                isRead: fromMe,
+                priority: mentionsMe ? 'high' : 'medium'
+            },
+            thread,
+            people
+        };
+    }
+
+    /**
+     * New and edited messages of a chat, newest first
+     */
+    private async fetchChatPage(context: ConnectorContext, request: SyncPageRequest, data: Extract<TeamsStreamData, { kind: 'chat' }>): Promise<SyncPage<TeamsMessage>> {
+        const { cursor } = request;
+
+        // Skip chats without a message since the last sync (edits to older messages are picked up with the next new one)
+        const lastMessageAt = data.chat.lastMessagePreview?.createdDateTime;
+        if (cursor && (!lastMessageAt || new Date(lastMessageAt) <= new Date(cursor))) return { records: [] };
+
+        const since = cursor || new Date(Date.now() - TEAMS_BACKFILL_DAYS * 24 * 60 * 60 * 1000).toISOString();
+        const page = await graphGet(context, request.pageToken || `${GRAPH_API_URL}/chats/${encodeURIComponent(data.chat.id)}/messages`
+            + `?$top=50&$orderby=lastModifiedDateTime desc&$filter=lastModifiedDateTime gt ${since}`);
+        const records: TeamsMessage[] = page.value || [];
+
+        if (request.pageIndex === 0 && records.length > 0) {
+            data.title = data.chat.topic || await this.getChatTitle(context, data.chat.id);
+        }
+
+        // Newest first, so the first page holds the new cursor
+        let newest: Date | undefined;
+        if (request.pageIndex === 0) {
+            newest = records.reduce((latest, message) => {
+                const modified = message.lastModifiedDateTime ? new Date(message.lastModifiedDateTime) : undefined;
+                return modified && modified > latest ? modified : latest;
+            }, new Date(since));
+        }
+
+        return { records, nextPageToken: page['@odata.nextLink'], cursor: newest?.toISOString() };
+    }
+
+    /**
+     * Channel messages through the channel's delta query
+     */
+    private async fetchChannelPage(context: ConnectorContext, request: SyncPageRequest, data: Extract<TeamsStreamData, { kind: 'channel' }>): Promise<SyncPage<TeamsMessage>> {
+        const since = new Date(Date.now() - TEAMS_BACKFILL_DAYS * 24 * 60 * 60 * 1000).toISOString();
+        const initialUrl = `${GRAPH_API_URL}/teams/${data.team.id}/channels/${encodeURIComponent(data.channel.id)}/messages/delta`
+            + `?$filter=lastModifiedDateTime gt ${since}`;
+
+        try {
+            return await graphDeltaPage<TeamsMessage>(context, request, initialUrl);
+        } catch (error: any) {
+            if (error.status !== 403) throw error;
+            console.warn(`Skipping channel ${data.channel.id}, permission denied:`, error.message);
+            return { records: [] };
+        }
+    }
+
+    /**
+     * List a collection that needs channel permissions, treating a denied request as empty
+     */
+    private async getOptional(context: ConnectorContext, url: string): Promise<any[]> {
+        try {
+            return (await graphGet(context, url)).value || [];
+        } catch (error: any) {
+            if (error.status !== 403) throw error;
+            console.warn(`Skipping ${url}, permission denied:`, error.message);
+            return [];
+        }
+    }
+
+    /**
+     * Name an untitled chat after its other members
+     */
+    private async getChatTitle(context: ConnectorContext, chatId: string): Promise<string> {
+        try {
+            const members: any = await graphGet(context, `${GRAPH_API_URL}/chats/${encodeURIComponent(chatId)}/members`);
+            const names = (members.value || [])
+                .filter((member: any) => member.userId !== context.state.meId && member.displayName)
+                .map((member: any) => member.displayName);
+            return names.length > 0 ? names.join(', ') : 'Teams Chat';
+        } catch (error: any) {
+            if (error instanceof ReauthRequiredError) throw error;
+            return 'Teams Chat';
+        }
+    }
+}
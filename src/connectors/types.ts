@@ -0,0 +1,144 @@
+import { IUser } from '../models/User';
+import { IWorkItem } from '../models/WorkItem';
+import { IntegrationProvider, OAuthCredentials } from '../services/credential.service';
+import { WorkItem } from '../types';
+
+/**
+ * Decrypted credentials for the connector's provider: OAuth tokens, or a user provided API key or password
+ */
+export interface ConnectorCredentials extends OAuthCredentials {
+    apiKey?: string;
+    /** IMAP mailbox password (or app password) */
+    password?: string;
+    /** ICS subscription URLs by feed id */
+    feedUrls?: Record<string, string>;
+}
+
+/**
+ * Everything a connector gets for one sync run
+ */
+export interface ConnectorContext {
+    userId: string;
+    user: IUser;
+    credentials: ConnectorCredentials;
+    overrideAccessToken?: string;
+    /** Scratch space for the run, e.g. an API client or the signed-in account's id */
+    state: Record<string, any>;
+}
+
+/**
+ * One independently synced resource of a connector (a chat, a task list, a database).
+ * Each stream has its own cursor.
+ */
+export interface SyncStream {
+    id: string;
+    label?: string;
+    data?: any;
+}
+
+export interface SyncPageRequest {
+    stream: SyncStream;
+    /** Position saved by the previous run, undefined on the first sync */
+    cursor?: string;
+    /** Continuation token returned by the previous page of this run */
+    pageToken?: string;
+    pageIndex: number;
+}
+
+export interface SyncPage<TRecord> {
+    records: TRecord[];
+    nextPageToken?: string;
+    /** Position to save once every page of the run is applied; the last one returned wins */
+    cursor?: string;
+}
+
+/**
+ * Thread that mirrors a source conversation (created on first use).
+ * Items without a route go to "External Imports".
+ */
+export interface ThreadRoute {
+    externalId: string;
+    title: string;
+    description?: string;
+}
+
+export type NewConnectorItem = Omit<WorkItem, 'id' | 'userId' | 'threadId'>;
+
+export type ItemChange =
+    | { action: 'create', item: NewConnectorItem, thread?: ThreadRoute, people?: string[] }
+    | { action: 'update', changes: Partial<WorkItem>, thread?: ThreadRoute, people?: string[] }
+    | { action: 'remove' };
+
+/**
+ * A source of work items. The sync engine in IntegrationService handles credentials, cursors,
+ * dedupe by `metadata[idField]`, thread routing, error capture and counts; a connector only fetches
+ * pages of source records and maps each one to a change.
+ */
+export interface Connector<TRecord = any> {
+    readonly id: string;
+    readonly provider: IntegrationProvider;
+    readonly label: string;
+    /** Key of this connector's count in sync responses, e.g. `emailsSynced` */
+    readonly countKey: string;
+    /** Metadata field holding the source id of imported items */
+    readonly idField: string;
+    /** Type of the items it imports; with `idField` it identifies the connector an item came from */
+    readonly itemType: WorkItem['type'];
+
+    isConnected(user: IUser, overrideAccessToken?: string): boolean;
+
+    /** Streams to sync; connectors without one use a single default stream */
+    listStreams?(context: ConnectorContext): Promise<SyncStream[]>;
+
+    fetchPage(context: ConnectorContext, request: SyncPageRequest): Promise<SyncPage<TRecord>>;
+
+    getExternalId(record: TRecord): string;
+
+    /** Map a record to a change of the item imported from it (if any); null leaves it alone */
+    toChange(context: ConnectorContext, record: TRecord, existing: IWorkItem | undefined, stream: SyncStream): Promise<ItemChange | null>;
+
+    /**
+     * Push a change made in Monocle (read state, task status) back to the source. `item` is the item as it was
+     * before the change. When the source changed the same field since the last sync, the source wins: return
+     * `conflict` with the source's values in `local`.
+     */
+    writeBack?(context: ConnectorContext, item: IWorkItem, changes: WriteBackChanges): Promise<WriteBackResult>;
+
+    /** Fields `writeBack` pushes; changes to other fields are not sent */
+    readonly writeBackFields?: (keyof WriteBackChanges)[];
+}
+
+/**
+ * Item fields that are written back to the source
+ */
+export type WriteBackChanges = Partial<Pick<WorkItem, 'isRead' | 'status'>>;
+
+export interface WriteBackResult {
+    outcome: 'applied' | 'unchanged' | 'conflict' | 'skipped';
+    /** Why the change was not applied as is */
+    detail?: string;
+    /** Changes to save on the Monocle item: the source's refreshed metadata, or its values when it wins a conflict */
+    local?: Partial<WorkItem>;
+}
+
+/**
+ * Thrown by `fetchPage` when the saved cursor is no longer accepted; the stream starts over without it
+ */
+export class CursorExpiredError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'CursorExpiredError';
+    }
+}
+
+export interface ConnectorSyncResult {
+    connector: string;
+    /** Source records read, whatever became of them */
+    fetched: number;
+    created: number;
+    updated: number;
+    removed: number;
+    skipped: number;
+    errors: string[];
+    error?: string;
+}
@@ -0,0 +1,54 @@
+import { Request, Response } from 'express';
+import { UsageService, UsageGrouping } from '../services/usage.service';
+import { clearLLMCache, getLLMCacheStats } from '../llm';
+
+const GROUPINGS: UsageGrouping[] = ['user', 'team', 'provider', 'model', 'caller', 'day'];
+
+export class AdminController {
+    /**
+     * Aggregate LLM usage from the call ledger
+     * Query: from, to (ISO dates, default last 7 days), groupBy (user|team|provider|model|caller|day)
+     */
+    static async getLLMUsage(req: Request, res: Response) {
+        try {
+            const groupBy = (req.query.groupBy as UsageGrouping) || 'user';
+            if (!GROUPINGS.includes(groupBy)) {
+                return res.status(400).json({ success: false, error: `groupBy must be one of ${GROUPINGS.join(', ')}` });
+            }
+
+            const to = req.query.to ? new Date(req.query.to as string) : new Date();
+            const from = req.query.from ? new Date(req.query.from as string) : new Date(to.getTime() - 7 * 24 * 60 * 60 * 1000);
+            if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+                return res.status(400).json({ success: false, error: 'from and to must be valid dates' });
+            }
+
+            const usage = await UsageService.getUsage(from, to, groupBy);
+            res.json({ success: true, data: { from, to, groupBy, usage } });
+        } catch (error: any) {
+            res.status(500).json({ success: false, error: error.message });
+        }
+    }
+
+    /**
+     * Get LLM response cache hit rates, overall and per prompt
+     */
+    static async getLLMCacheStats(req: Request, res: Response) {
+        try {
+            res.json({ success: true, data: getLLMCacheStats() });
+        } catch (error: any) {
+            res.status(500).json({ success: false, error: error.message });
+        }
+    }
+
+    /**
+     * Empty the LLM response cache
+     */
+    static async clearLLMCache(req: Request, res: Response) {
+        try {
+            clearLLMCache();
+            res.json({ success: true, message: 'LLM cache cleared' });
+        } catch (error: any) {
+            res.status(500).json({ success: false, error: error.message });
+        }
+    }
+}
@@ -1,8 +1,13 @@
 import { Request, Response } from 'express';
 import { IntegrationService } from '../services/integration.service';
+import { IntegrationProvider, PROVIDER_LABELS, ReauthRequiredError } from '../services/credential.service';
+import { SyncSchedulerService } from '../services/sync-scheduler.service';
+import { CalendarFeedInput, CalendarFeedService } from '../services/calendar-feed.service';
+import { WebhookRequestError } from '../services/webhook.service';
+import { isIntegrationProvider } from '../connectors';
 
 export class IntegrationController {
-    static async syncGoogle(req: Request, res: Response) {
+    static async sync(req: Request, res: Response) {
         try {
             const userId = (req as any).user?.id;
             if (!userId) {
@@ -10,17 +15,20 @@ export class IntegrationController {
                 return;
             }
 
-            const { accessToken } = req.body;
-            const gmailCount = await IntegrationService.syncGmail(userId, accessToken);
-            const calendarCount = await IntegrationService.syncCalendar(userId, accessToken);
-            const tasksCount = await IntegrationService.syncTasks(userId, accessToken);
+            const provider = req.params.provider as string;
+            if (!isIntegrationProvider(provider)) {
+                res.status(404).json({ error: `Unknown integration: ${provider}` });
+                return;
+            }
 
-            res.status(200).json({
-                message: 'Google sync completed',
+            const { accessToken } = req.body || {};
+            const job = await SyncSchedulerService.enqueue(userId, provider, 'manual', accessToken);
+
+            res.status(202).json({
+                message: `${IntegrationController.providerLabel(provider)} sync queued`,
                 data: {
-                    emailsSynced: gmailCount,
-                    meetingsSynced: calendarCount,
-                    tasksSynced: tasksCount
+                    jobId: (job._id as any).toString(),
+                    status: job.status
                 }
             });
         } catch (error: any) {
@@ -28,7 +36,8 @@ export class IntegrationController {
             res.status(500).json({ error: error.message });
         }
     }
-    static async syncMicrosoft(req: Request, res: Response) {
+
+    static async getSyncJob(req: Request, res: Response) {
         try {
             const userId = (req as any).user?.id;
             if (!userId) {
@@ -36,20 +45,315 @@ export class IntegrationController {
                 return;
             }
 
-            const { accessToken } = req.body;
-            const teamsCount = await IntegrationService.syncTeams(userId, accessToken);
+            const job = await SyncSchedulerService.getJob(userId, req.params.jobId as string);
+            if (!job) {
+                res.status(404).json({ error: 'Sync job not found' });
+                return;
+            }
 
             res.status(200).json({
-                message: 'Microsoft sync completed',
-                data: {
-                    teamsSynced: teamsCount
-                }
+                message: 'Sync job retrieved successfully',
+                data: job
+            });
+        } catch (error: any) {
+            console.error('Get Sync Job error:', error.message);
+            res.status(500).json({ error: error.message });
+        }
+    }
+
+    static async getStatus(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user?.id;
+            if (!userId) {
+                res.status(401).json({ error: 'Unauthorized' });
+                return;
+            }
+
+            const status = await IntegrationService.getStatus(userId);
+
+            res.status(200).json({
+                message: 'Integration status retrieved successfully',
+                data: status
             });
         } catch (error: any) {
-            console.error('Microsoft Integration error:', error.message);
+            console.error('Get Integration Status error:', error.message);
             res.status(500).json({ error: error.message });
         }
     }
+
+    static async connect(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user?.id;
+            if (!userId) {
+                res.status(401).json({ error: 'Unauthorized' });
+                return;
+            }
+
+            const provider = req.params.provider as string;
+            if (!isIntegrationProvider(provider)) {
+                res.status(404).json({ error: `Unknown integration: ${provider}` });
+                return;
+            }
+
+            const { apiKey, databaseIds, email, siteUrl, writeBack, threadBy, statusMapping, host, port, secure, username, password } = req.body || {};
+            const strings = { apiKey, email, siteUrl, host, username, password };
+            const invalid = Object.entries(strings).find(([, value]) => value !== undefined && typeof value !== 'string');
+            if (invalid) {
+                res.status(400).json({ error: `${invalid[0]} must be a string` });
+                return;
+            }
+            if (databaseIds !== undefined && !Array.isArray(databaseIds)) {
+                res.status(400).json({ error: 'databaseIds must be an array' });
+                return;
+            }
+            if (port !== undefined && (!Number.isInteger(port) || port < 1 || port > 65535)) {
+                res.status(400).json({ error: 'port must be a port number' });
+                return;
+            }
+            if (secure !== undefined && typeof secure !== 'boolean') {
+                res.status(400).json({ error: 'secure must be a boolean' });
+                return;
+            }
+
+            const result = await IntegrationService.connect(userId, provider, {
+                apiKey,
+                databaseIds,
+                email,
+                siteUrl,
+                settings: { writeBack, threadBy, statusMapping },
+                mailbox: { host, port, secure, username, password }
+            });
+
+            res.status(200).json({
+                message: `${IntegrationController.providerLabel(provider)} connected`,
+                data: result
+            });
+        } catch (error: any) {
+            console.error('Integration connect error:', error.message);
+            res.status(400).json({ error: error.message });
+        }
+    }
+
+    static async updateSettings(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user?.id;
+            if (!userId) {
+                res.status(401).json({ error: 'Unauthorized' });
+                return;
+            }
+
+            const provider = req.params.provider as string;
+            if (!isIntegrationProvider(provider)) {
+                res.status(404).json({ error: `Unknown integration: ${provider}` });
+                return;
+            }
+
+            const settings = await IntegrationService.updateTrackerSettings(userId, provider, req.body);
+
+            res.status(200).json({
+                message: `${IntegrationController.providerLabel(provider)} settings updated`,
+                data: settings
+            });
+        } catch (error: any) {
+            console.error('Integration settings error:', error.message);
+            res.status(400).json({ error: error.message });
+        }
+    }
+
+    static async disconnect(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user?.id;
+            if (!userId) {
+                res.status(401).json({ error: 'Unauthorized' });
+                return;
+            }
+
+            const provider = req.params.provider as string;
+            if (!isIntegrationProvider(provider)) {
+                res.status(404).json({ error: `Unknown integration: ${provider}` });
+                return;
+            }
+
+            await IntegrationService.disconnect(userId, provider);
+
+            res.status(200).json({ message: `${IntegrationController.providerLabel(provider)} disconnected` });
+        } catch (error: any) {
+            console.error('Integration disconnect error:', error.message);
+            res.status(500).json({ error: error.message });
+        }
+    }
+
+    static async getNotionDatabases(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user?.id;
+            if (!userId) {
+                res.status(401).json({ error: 'Unauthorized' });
+                return;
+            }
+
+            const databases = await IntegrationService.listNotionDatabases(userId);
+
+            res.status(200).json({
+                message: 'Notion databases retrieved',
+                data: databases
+            });
+        } catch (error: any) {
+            if (IntegrationController.sendReauthRequired(res, error)) return;
+            console.error('Notion databases error:', error.message);
+            res.status(500).json({ error: error.message });
+        }
+    }
+
+    static async setNotionDatabases(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user?.id;
+            if (!userId) {
+                res.status(401).json({ error: 'Unauthorized' });
+                return;
+            }
+
+            const { databaseIds } = req.body;
+            if (!Array.isArray(databaseIds) || databaseIds.some(id => typeof id !== 'string')) {
+                res.status(400).json({ error: 'databaseIds must be an array of strings' });
+                return;
+            }
+
+            const selected = await IntegrationService.setNotionDatabases(userId, databaseIds);
+
+            res.status(200).json({
+                message: 'Notion databases updated',
+                data: { databaseIds: selected }
+            });
+        } catch (error: any) {
+            console.error('Notion databases error:', error.message);
+            res.status(500).json({ error: error.message });
+        }
+    }
+
+    static async listCalendarFeeds(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user?.id;
+            if (!userId) {
+                res.status(401).json({ error: 'Unauthorized' });
+                return;
+            }
+
+            const feeds = await CalendarFeedService.listFeeds(userId);
+
+            res.status(200).json({
+                message: 'Calendar feeds retrieved',
+                data: feeds
+            });
+        } catch (error: any) {
+            console.error('Calendar feeds error:', error.message);
+            res.status(500).json({ error: error.message });
+        }
+    }
+
+    /**
+     * Subscribe to a calendar URL or upload an .ics file (JSON, or the file itself as `text/calendar`)
+     */
+    static async addCalendarFeed(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user?.id;
+            if (!userId) {
+                res.status(401).json({ error: 'Unauthorized' });
+                return;
+            }
+
+            const input = IntegrationController.readCalendarFeedInput(req, res);
+            if (!input) return;
+
+            const { feed, jobId } = await CalendarFeedService.addFeed(userId, input);
+
+            res.status(201).json({
+                message: 'Calendar feed added, sync queued',
+                data: { feed, jobId }
+            });
+        } catch (error: any) {
+            console.error('Calendar feed error:', error.message);
+            res.status(400).json({ error: error.message });
+        }
+    }
+
+    /**
+     * Rename a feed, change a subscription's URL or replace an uploaded file
+     */
+    static async updateCalendarFeed(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user?.id;
+            if (!userId) {
+                res.status(401).json({ error: 'Unauthorized' });
+                return;
+            }
+
+            const input = IntegrationController.readCalendarFeedInput(req, res);
+            if (!input) return;
+
+            const updated = await CalendarFeedService.updateFeed(userId, req.params.feedId as string, input);
+            if (!updated) {
+                res.status(404).json({ error: 'Calendar feed not found' });
+                return;
+            }
+
+            res.status(200).json({
+                message: updated.jobId ? 'Calendar feed updated, sync queued' : 'Calendar feed updated',
+                data: updated
+            });
+        } catch (error: any) {
+            console.error('Calendar feed error:', error.message);
+            res.status(400).json({ error: error.message });
+        }
+    }
+
+    static async removeCalendarFeed(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user?.id;
+            if (!userId) {
+                res.status(401).json({ error: 'Unauthorized' });
+                return;
+            }
+
+            const removed = await CalendarFeedService.removeFeed(userId, req.params.feedId as string);
+            if (!removed) {
+                res.status(404).json({ error: 'Calendar feed not found' });
+                return;
+            }
+
+            res.status(200).json({ message: 'Calendar feed removed' });
+        } catch (error: any) {
+            console.error('Calendar feed error:', error.message);
+            res.status(500).json({ error: error.message });
+        }
+    }
+
+    /**
+     * Receive a GitHub webhook delivery. Public: the request is authenticated by its signature.
+     */
+    static async receiveGitHubWebhook(req: Request, res: Response) {
+        try {
+            const delivery = await IntegrationService.receiveGitHubWebhook(
+                req.params.userId as string,
+                req.get('X-GitHub-Event'),
+                (req as any).rawBody,
+                req.get('X-Hub-Signature-256'),
+                req.body
+            );
+
+            res.status(200).json({
+                message: delivery.handled ? 'GitHub delivery applied' : 'GitHub delivery ignored',
+                data: delivery
+            });
+        } catch (error: any) {
+            if (error instanceof WebhookRequestError) {
+                res.status(error.status).json({ error: error.message });
+                return;
+            }
+            console.error('GitHub webhook error:', error.message);
+            res.status(500).json({ error: error.message });
+        }
+    }
+
     static async createMeeting(req: Request, res: Response) {
         try {
             const userId = (req as any).user?.id;
@@ -81,6 +385,7 @@ export class IntegrationController {
                 }
             });
         } catch (error: any) {
+            if (IntegrationController.sendReauthRequired(res, error)) return;
             console.error('Create Meeting error:', error.message);
             res.status(500).json({ error: error.message });
         }
@@ -115,8 +420,41 @@ export class IntegrationController {
                 data: result
             });
         } catch (error: any) {
+            if (IntegrationController.sendReauthRequired(res, error)) return;
             console.error('Create Teams Meeting error:', error.message);
             res.status(500).json({ error: error.message });
         }
     }
+
+    /**
+     * Feed fields from a JSON body, or an uploaded file sent as the body with the name in `?name=`.
+     * Answers 400 and returns undefined when a field has the wrong type.
+     */
+    private static readCalendarFeedInput(req: Request, res: Response): CalendarFeedInput | undefined {
+        if (typeof req.body === 'string') {
+            const name = typeof req.query.name === 'string' ? req.query.name : undefined;
+            return { name, content: req.body };
+        }
+
+        const { name, url, content } = req.body || {};
+        const invalid = Object.entries({ name, url, content }).find(([, value]) => value !== undefined && typeof value !== 'string');
+        if (invalid) {
+            res.status(400).json({ error: `${invalid[0]} must be a string` });
+            return undefined;
+        }
+        return { name, url, content };
+    }
+
+    private static providerLabel(provider: IntegrationProvider): string {
+        return PROVIDER_LABELS[provider];
+    }
+
+    /**
+     * Answer 401 with `needsReauth` when the integration's tokens could not be refreshed
+     */
+    private static sendReauthRequired(res: Response, error: any): boolean {
+        if (!(error instanceof ReauthRequiredError)) return false;
+        res.status(401).json({ error: error.message, needsReauth: true, provider: error.provider });
+        return true;
+    }
 }
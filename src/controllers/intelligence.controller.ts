@@ -1,8 +1,14 @@
 import { Request, Response } from 'express';
+import { Citation } from '../types';
 import { InsightService } from '../services/insight.service';
 import { PriorityService } from '../services/priority.service';
 import { AnalyticsService } from '../services/analytics.service';
-import { ChatService } from '../services/chat.service';
+import { ChatService, ChatStreamEvent } from '../services/chat.service';
+import { ConversationService } from '../services/conversation.service';
+import { ChatActionService } from '../services/action.service';
+import { getStructuredOutputStats } from '../llm';
+import { listPrompts } from '../prompts/registry';
+import { UsageService } from '../services/usage.service';
 
 export class IntelligenceController {
     /**
@@ -198,10 +204,308 @@ export class IntelligenceController {
                 return res.status(400).json({ success: false, error: 'User ID is required' });
             }
 
-            const response = await ChatService.processChat(userId, message, history);
-            res.json({ success: true, data: response });
+            const { text, citations, actions } = await ChatService.processChat(userId, message, history);
+            res.json({ success: true, data: text, citations, actions });
         } catch (error: any) {
             res.status(500).json({ success: false, error: error.message });
         }
     }
+
+    /**
+     * Chat with AI, streaming tokens over Server-Sent Events
+     */
+    static async chatStream(req: Request, res: Response) {
+        const userId = req.params.userId || (req as any).user?.id;
+        const { message, history } = req.body;
+
+        if (!userId) {
+            return res.status(400).json({ success: false, error: 'User ID is required' });
+        }
+        if (!message) {
+            return res.status(400).json({ success: false, error: 'Message is required' });
+        }
+
+        await IntelligenceController.pipeToSSE(res, signal => ChatService.streamChat(userId, message, history, signal));
+    }
+
+    /**
+     * List the user's chat conversations
+     */
+    static async getConversations(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user?.id;
+            if (!userId) {
+                return res.status(401).json({ success: false, error: 'Unauthorized' });
+            }
+            if (req.params.userId !== userId) {
+                return res.status(403).json({ success: false, error: 'userId does not match the signed-in user' });
+            }
+            const conversations = await ConversationService.listConversations(userId);
+            res.json({ success: true, data: conversations });
+        } catch (error: any) {
+            res.status(500).json({ success: false, error: error.message });
+        }
+    }
+
+    /**
+     * Create a chat conversation
+     */
+    static async createConversation(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user?.id;
+            if (!userId) {
+                return res.status(401).json({ success: false, error: 'Unauthorized' });
+            }
+            if (req.params.userId !== userId) {
+                return res.status(403).json({ success: false, error: 'userId does not match the signed-in user' });
+            }
+            const conversation = await ConversationService.createConversation(userId, req.body.title);
+            res.status(201).json({ success: true, data: conversation });
+        } catch (error: any) {
+            res.status(500).json({ success: false, error: error.message });
+        }
+    }
+
+    /**
+     * Get a conversation with its messages
+     */
+    static async getConversation(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user?.id;
+            const conversation = await ConversationService.getConversation(req.params.id, userId);
+            if (!conversation) {
+                return res.status(404).json({ success: false, error: 'Conversation not found' });
+            }
+            const messages = await ConversationService.getMessages(conversation.id);
+            res.json({ success: true, data: { ...conversation, messages } });
+        } catch (error: any) {
+            res.status(500).json({ success: false, error: error.message });
+        }
+    }
+
+    /**
+     * Rename a conversation
+     */
+    static async renameConversation(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user?.id;
+            const { title } = req.body;
+            if (typeof title !== 'string') {
+                return res.status(400).json({ success: false, error: 'Title is required' });
+            }
+            const conversation = await ConversationService.renameConversation(req.params.id, userId, title);
+            if (!conversation) {
+                return res.status(404).json({ success: false, error: 'Conversation not found' });
+            }
+            res.json({ success: true, data: conversation });
+        } catch (error: any) {
+            res.status(500).json({ success: false, error: error.message });
+        }
+    }
+
+    /**
+     * Delete a conversation and its messages
+     */
+    static async deleteConversation(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user?.id;
+            const deleted = await ConversationService.deleteConversation(req.params.id, userId);
+            if (!deleted) {
+                return res.status(404).json({ success: false, error: 'Conversation not found' });
+            }
+            res.json({ success: true, message: 'Conversation deleted' });
+        } catch (error: any) {
+            res.status(500).json({ success: false, error: error.message });
+        }
+    }
+
+    /**
+     * Send a message in an existing conversation
+     */
+    static async sendConversationMessage(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user?.id;
+            const { message } = req.body;
+            if (!message) {
+                return res.status(400).json({ success: false, error: 'Message is required' });
+            }
+            const conversation = await ConversationService.getConversation(req.params.id, userId);
+            if (!conversation) {
+                return res.status(404).json({ success: false, error: 'Conversation not found' });
+            }
+            const result = await ChatService.sendConversationMessage(userId, conversation.id, message);
+            res.json({ success: true, data: result });
+        } catch (error: any) {
+            res.status(500).json({ success: false, error: error.message });
+        }
+    }
+
+    /**
+     * Send a message in an existing conversation, streaming the reply over Server-Sent Events
+     */
+    static async streamConversationMessage(req: Request, res: Response) {
+        const userId = (req as any).user?.id;
+        const { message } = req.body;
+        if (!message) {
+            return res.status(400).json({ success: false, error: 'Message is required' });
+        }
+
+        try {
+            const conversation = await ConversationService.getConversation(req.params.id, userId);
+            if (!conversation) {
+                return res.status(404).json({ success: false, error: 'Conversation not found' });
+            }
+            await IntelligenceController.pipeToSSE(res, signal => ChatService.streamConversationMessage(userId, conversation.id, message, signal));
+        } catch (error: any) {
+            if (!res.headersSent) {
+                res.status(500).json({ success: false, error: error.message });
+            }
+        }
+    }
+
+    /**
+     * List chat actions proposed to the user
+     */
+    static async getChatActions(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user?.id;
+            if (!userId) {
+                return res.status(401).json({ success: false, error: 'Unauthorized' });
+            }
+            if (req.params.userId !== userId) {
+                return res.status(403).json({ success: false, error: 'userId does not match the signed-in user' });
+            }
+            const actions = await ChatActionService.getUserActions(userId, req.query.status as any);
+            res.json({ success: true, data: actions });
+        } catch (error: any) {
+            res.status(500).json({ success: false, error: error.message });
+        }
+    }
+
+    /**
+     * Confirm and execute a pending chat action
+     */
+    static async confirmChatAction(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user?.id;
+            const action = await ChatActionService.confirmAction(req.params.id, userId);
+            if (!action) {
+                return res.status(404).json({ success: false, error: 'Pending action not found' });
+            }
+            if (action.status === 'failed') {
+                return res.status(422).json({ success: false, error: action.error, data: action });
+            }
+            res.json({ success: true, data: action });
+        } catch (error: any) {
+            res.status(500).json({ success: false, error: error.message });
+        }
+    }
+
+    /**
+     * Reject a pending chat action
+     */
+    static async rejectChatAction(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user?.id;
+            const action = await ChatActionService.rejectAction(req.params.id, userId);
+            if (!action) {
+                return res.status(404).json({ success: false, error: 'Pending action not found' });
+            }
+            res.json({ success: true, data: action });
+        } catch (error: any) {
+            res.status(500).json({ success: false, error: error.message });
+        }
+    }
+
+    /**
+     * Get today's AI token usage against the user's and their teams' daily quotas
+     */
+    static async getUsage(req: Request, res: Response) {
+        try {
+            const userId = req.params.userId || (req as any).user?.id;
+            if (!userId) {
+                return res.status(400).json({ success: false, error: 'User ID is required' });
+            }
+            const quota = await UsageService.checkQuota(userId);
+            res.json({ success: true, data: quota });
+        } catch (error: any) {
+            res.status(500).json({ success: false, error: error.message });
+        }
+    }
+
+    /**
+     * Get per-prompt structured output repair statistics
+     */
+    static async getStructuredOutputStats(req: Request, res: Response) {
+        try {
+            res.json({ success: true, data: getStructuredOutputStats() });
+        } catch (error: any) {
+            res.status(500).json({ success: false, error: error.message });
+        }
+    }
+
+    /**
+     * List registered prompt versions and which one is active
+     */
+    static async getPrompts(req: Request, res: Response) {
+        try {
+            res.json({ success: true, data: listPrompts() });
+        } catch (error: any) {
+            res.status(500).json({ success: false, error: error.message });
+        }
+    }
+
+    /**
+     * Write a chat stream as SSE `citations` and `token` events followed by a final `done` event.
+     * The `done` payload is the generator's return value, or the concatenated text if it returns nothing.
+     */
+    private static async pipeToSSE(res: Response, start: (signal: AbortSignal) => AsyncGenerator<ChatStreamEvent, any>) {
+        res.status(200).set({
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache, no-transform',
+            'Connection': 'keep-alive',
+            'X-Accel-Buffering': 'no'
+        });
+        res.flushHeaders();
+
+        const sendEvent = (event: string, data: any) => {
+            res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+        };
+
+        // Stop generating as soon as the client goes away
+        const controller = new AbortController();
+        res.on('close', () => {
+            if (!res.writableEnded) controller.abort();
+        });
+
+        // Keep proxies from closing an idle connection while the model is thinking
+        const heartbeat = setInterval(() => res.write(': ping\n\n'), 15000);
+
+        let fullMessage = '';
+        let citations: Citation[] = [];
+        try {
+            const stream = start(controller.signal);
+            let step = await stream.next();
+            while (!step.done) {
+                if (step.value.type === 'citations') {
+                    citations = step.value.citations;
+                    sendEvent('citations', { citations });
+                } else {
+                    fullMessage += step.value.token;
+                    sendEvent('token', { token: step.value.token });
+                }
+                step = await stream.next();
+            }
+            if (!controller.signal.aborted) {
+                sendEvent('done', { success: true, data: step.value ?? fullMessage, citations });
+            }
+        } catch (error: any) {
+            if (!controller.signal.aborted) {
+                sendEvent('error', { success: false, error: error.message });
+            }
+        } finally {
+            clearInterval(heartbeat);
+            res.end();
+        }
+    }
 }
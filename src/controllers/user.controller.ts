@@ -44,8 +44,8 @@ export class UserController {
      */
     static async microsoftLogin(req: Request, res: Response) {
         try {
-            const { accessToken } = req.body;
-            const { user, token } = await UserService.microsoftLogin(accessToken);
+            const { accessToken, refreshToken, expiresOn } = req.body;
+            const { user, token } = await UserService.microsoftLogin(accessToken, refreshToken, expiresOn);
             res.json({ success: true, data: { user, token } });
         } catch (error: any) {
             res.status(401).json({ success: false, error: error.message });
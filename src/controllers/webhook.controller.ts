@@ -0,0 +1,191 @@
+import { Request, Response } from 'express';
+import { IWebhook } from '../models/Webhook';
+import { WebhookRequestError, WebhookService } from '../services/webhook.service';
+
+export class WebhookController {
+    /**
+     * Receive a payload from another tool. Public: the request is authenticated by its signature.
+     */
+    static async receive(req: Request, res: Response) {
+        try {
+            const receipt = await WebhookService.receive(req.params.id as string, (req as any).rawBody, req.body, {
+                signature: req.get('X-Monocle-Signature'),
+                idempotencyKey: req.get('Idempotency-Key')
+            });
+
+            res.status(receipt.duplicate ? 200 : 201).json({
+                message: receipt.duplicate ? 'Payload already received' : 'Work item created',
+                data: receipt
+            });
+        } catch (error: any) {
+            WebhookController.sendError(res, error, 'Receive Webhook error');
+        }
+    }
+
+    static async createWebhook(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user?.id;
+            if (!userId) {
+                res.status(401).json({ error: 'Unauthorized' });
+                return;
+            }
+
+            const { webhook, secret } = await WebhookService.createWebhook(userId, req.body || {});
+
+            res.status(201).json({
+                message: 'Webhook created successfully. Store the secret now, it is not shown again.',
+                data: { ...WebhookController.present(webhook), secret }
+            });
+        } catch (error: any) {
+            WebhookController.sendError(res, error, 'Create Webhook error');
+        }
+    }
+
+    static async listWebhooks(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user?.id;
+            if (!userId) {
+                res.status(401).json({ error: 'Unauthorized' });
+                return;
+            }
+
+            const webhooks = await WebhookService.listWebhooks(userId);
+
+            res.status(200).json({
+                message: 'Webhooks retrieved successfully',
+                data: webhooks.map(webhook => WebhookController.present(webhook))
+            });
+        } catch (error: any) {
+            WebhookController.sendError(res, error, 'List Webhooks error');
+        }
+    }
+
+    static async getWebhook(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user?.id;
+            if (!userId) {
+                res.status(401).json({ error: 'Unauthorized' });
+                return;
+            }
+
+            const webhook = await WebhookService.getWebhook(userId, req.params.id as string);
+            if (!webhook) {
+                res.status(404).json({ error: 'Webhook not found' });
+                return;
+            }
+
+            res.status(200).json({
+                message: 'Webhook retrieved successfully',
+                data: WebhookController.present(webhook)
+            });
+        } catch (error: any) {
+            WebhookController.sendError(res, error, 'Get Webhook error');
+        }
+    }
+
+    static async updateWebhook(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user?.id;
+            if (!userId) {
+                res.status(401).json({ error: 'Unauthorized' });
+                return;
+            }
+
+            const webhook = await WebhookService.updateWebhook(userId, req.params.id as string, req.body || {});
+            if (!webhook) {
+                res.status(404).json({ error: 'Webhook not found' });
+                return;
+            }
+
+            res.status(200).json({
+                message: 'Webhook updated successfully',
+                data: WebhookController.present(webhook)
+            });
+        } catch (error: any) {
+            WebhookController.sendError(res, error, 'Update Webhook error');
+        }
+    }
+
+    static async rotateSecret(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user?.id;
+            if (!userId) {
+                res.status(401).json({ error: 'Unauthorized' });
+                return;
+            }
+
+            const secret = await WebhookService.rotateSecret(userId, req.params.id as string);
+            if (!secret) {
+                res.status(404).json({ error: 'Webhook not found' });
+                return;
+            }
+
+            res.status(200).json({
+                message: 'Webhook secret rotated. Store the new secret now, it is not shown again.',
+                data: { secret }
+            });
+        } catch (error: any) {
+            WebhookController.sendError(res, error, 'Rotate Webhook Secret error');
+        }
+    }
+
+    static async deleteWebhook(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user?.id;
+            if (!userId) {
+                res.status(401).json({ error: 'Unauthorized' });
+                return;
+            }
+
+            const deleted = await WebhookService.deleteWebhook(userId, req.params.id as string);
+            if (!deleted) {
+                res.status(404).json({ error: 'Webhook not found' });
+                return;
+            }
+
+            res.status(200).json({ message: 'Webhook deleted successfully' });
+        } catch (error: any) {
+            WebhookController.sendError(res, error, 'Delete Webhook error');
+        }
+    }
+
+    static async listDeliveries(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user?.id;
+            if (!userId) {
+                res.status(401).json({ error: 'Unauthorized' });
+                return;
+            }
+
+            const limit = parseInt(req.query.limit as string) || 50;
+            const deliveries = await WebhookService.listDeliveries(userId, req.params.id as string, limit);
+            if (!deliveries) {
+                res.status(404).json({ error: 'Webhook not found' });
+                return;
+            }
+
+            res.status(200).json({
+                message: 'Webhook deliveries retrieved successfully',
+                data: deliveries
+            });
+        } catch (error: any) {
+            WebhookController.sendError(res, error, 'List Webhook Deliveries error');
+        }
+    }
+
+    /**
+     * A webhook with the path other tools post to
+     */
+    private static present(webhook: IWebhook) {
+        return { ...webhook.toJSON(), receivePath: `/api/webhooks/inbound/${webhook._id}` };
+    }
+
+    private static sendError(res: Response, error: any, context: string): void {
+        if (error instanceof WebhookRequestError) {
+            res.status(error.status).json({ error: error.message });
+            return;
+        }
+        console.error(`${context}:`, error.message);
+        res.status(500).json({ error: error.message });
+    }
+}
@@ -0,0 +1,198 @@
+import fs from 'fs';
+import path from 'path';
+import { getConnector, Connector, ConnectorContext, ItemChange } from '../connectors';
+import { UserModel } from '../models/User';
+import { IWorkItem, WorkItemModel } from '../models/WorkItem';
+
+/**
+ * Offline connector checks.
+ * Replays recorded HTTP exchanges through a connector's sync and write-back, without a database or network,
+ * and compares the resulting changes with the expectations in each fixture.
+ *
+ *   npm run eval:connectors -- [--connector jira-issues] [--fixtures dir]
+ */
+
+type RecordedExchange = {
+    request: { method: string, url: string, bodyIncludes?: string[] };
+    response: { status: number, headers?: Record<string, string>, body?: any };
+};
+
+type ExpectedChange = { externalId: string, action: ItemChange['action'] | 'skip', thread?: string } & Record<string, any>;
+
+type ConnectorFixture = {
+    connector: string;
+    user: any;
+    credentials: Record<string, any>;
+    sync?: { id: string, cursor?: string, existing?: any[], exchanges: RecordedExchange[], expected: ExpectedChange[], expectedCursor?: string }[];
+    writeBack?: { id: string, item: any, changes: Record<string, any>, exchanges: RecordedExchange[], expected: { outcome: string, status?: string } }[];
+};
+
+type CaseResult = { id: string, passed: boolean, detail: string };
+
+const parseArgs = (argv: string[]): Record<string, string> => {
+    const args: Record<string, string> = {};
+    for (let i = 0; i < argv.length; i++) {
+        if (argv[i].startsWith('--')) {
+            args[argv[i].slice(2)] = argv[i + 1] && !argv[i + 1].startsWith('--') ? argv[++i] : 'true';
+        }
+    }
+    return args;
+};
+
+/**
+ * Serve the recorded responses in order, failing on any request that differs from the recording
+ */
+const replay = (exchanges: RecordedExchange[]): { fetch: typeof fetch, remaining: () => number } => {
+    let next = 0;
+    const replayFetch = async (input: any, init?: RequestInit): Promise<Response> => {
+        const url = String(input);
+        const method = (init?.method || 'GET').toUpperCase();
+        const body = typeof init?.body === 'string' ? init.body : '';
+        const exchange = exchanges[next++];
+
+        if (!exchange) throw new Error(`Unexpected request ${method} ${url}: the recording has no more exchanges`);
+        const { request, response } = exchange;
+        if (request.method.toUpperCase() !== method || request.url !== url) {
+            throw new Error(`Expected ${request.method} ${request.url}, got ${method} ${url}`);
+        }
+        const missing = (request.bodyIncludes || []).find(part => !body.includes(part));
+        if (missing) throw new Error(`Request body of ${method} ${url} does not include "${missing}"`);
+
+        return new Response(response.status === 204 ? null : JSON.stringify(response.body ?? {}), {
+            status: response.status,
+            headers: { 'Content-Type': 'application/json', ...response.headers }
+        });
+    };
+    return { fetch: replayFetch as typeof fetch, remaining: () => exchanges.length - next };
+};
+
+const createContext = (fixture: ConnectorFixture): ConnectorContext => {
+    const user = new UserModel(fixture.user);
+    return { userId: (user._id as any).toString(), user, credentials: fixture.credentials, state: {} };
+};
+
+/**
+ * Differences between a change and what was expected of it
+ */
+const compareChange = (change: ItemChange | null, expected: ExpectedChange): string[] => {
+    const action = change?.action || 'skip';
+    if (action !== expected.action) return [`action=${action} (expected ${expected.action})`];
+    if (!change || change.action === 'remove') return [];
+
+    const fields: Record<string, any> = change.action === 'create' ? change.item : change.changes;
+    const problems: string[] = [];
+    for (const [name, value] of Object.entries(expected)) {
+        if (name === 'externalId' || name === 'action') continue;
+        const actual = name === 'thread' ? change.thread?.title : fields[name];
+        if (actual !== value) problems.push(`${name}=${actual} (expected ${value})`);
+    }
+    return problems;
+};
+
+const runSyncCase = async (fixture: ConnectorFixture, connector: Connector, test: NonNullable<ConnectorFixture['sync']>[number]): Promise<CaseResult> => {
+    const { fetch: replayFetch, remaining } = replay(test.exchanges);
+    global.fetch = replayFetch;
+
+    const context = createContext(fixture);
+    const existing = new Map<string, IWorkItem>((test.existing || []).map(doc => {
+        const item = new WorkItemModel(doc);
+        return [item.get(`metadata.${connector.idField}`), item];
+    }));
+    const streams = connector.listStreams ? await connector.listStreams(context) : [{ id: 'default' }];
+    const changes = new Map<string, ItemChange | null>();
+    let cursor: string | undefined;
+
+    for (const stream of streams) {
+        let pageToken: string | undefined;
+        let pageIndex = 0;
+        do {
+            const page = await connector.fetchPage(context, { stream, cursor: test.cursor, pageToken, pageIndex });
+            for (const record of page.records) {
+                const externalId = connector.getExternalId(record);
+                changes.set(externalId, await connector.toChange(context, record, existing.get(externalId), stream));
+            }
+            cursor = page.cursor ?? cursor;
+            pageToken = page.nextPageToken;
+            pageIndex++;
+        } while (pageToken);
+    }
+
+    const problems: string[] = [];
+    for (const expected of test.expected) {
+        if (!changes.has(expected.externalId)) {
+            problems.push(`${expected.externalId}: not fetched`);
+            continue;
+        }
+        problems.push(...compareChange(changes.get(expected.externalId)!, expected).map(problem => `${expected.externalId}: ${problem}`));
+    }
+    if (test.expectedCursor !== undefined && cursor !== test.expectedCursor) problems.push(`cursor=${cursor} (expected ${test.expectedCursor})`);
+    if (remaining() > 0) problems.push(`${remaining()} recorded exchanges were not requested`);
+
+    return {
+        id: test.id,
+        passed: problems.length === 0,
+        detail: problems.length ? problems.join('; ') : `${changes.size} records, cursor=${cursor}`
+    };
+};
+
+const runWriteBackCase = async (fixture: ConnectorFixture, connector: Connector, test: NonNullable<ConnectorFixture['writeBack']>[number]): Promise<CaseResult> => {
+    const { fetch: replayFetch, remaining } = replay(test.exchanges);
+    global.fetch = replayFetch;
+
+    const result = await connector.writeBack!(createContext(fixture), new WorkItemModel(test.item), test.changes);
+    const problems: string[] = [];
+    if (result.outcome !== test.expected.outcome) problems.push(`outcome=${result.outcome} (expected ${test.expected.outcome})`);
+    if (test.expected.status !== undefined && result.local?.status !== test.expected.status) {
+        problems.push(`local status=${result.local?.status} (expected ${test.expected.status})`);
+    }
+    if (remaining() > 0) problems.push(`${remaining()} recorded exchanges were not requested`);
+
+    return {
+        id: test.id,
+        passed: problems.length === 0,
+        detail: problems.length ? problems.join('; ') : `${result.outcome}${result.detail ? `: ${result.detail}` : ''}`
+    };
+};
+
+async function runConnectorEval() {
+    const args = parseArgs(process.argv.slice(2));
+    const fixturesDir = args.fixtures || path.resolve(__dirname, '../../src/eval/fixtures/connectors');
+    const files = fs.readdirSync(fixturesDir)
+        .filter(file => file.endsWith('.json'))
+        .filter(file => !args.connector || file === `${args.connector}.json`);
+    if (files.length === 0) throw new Error(`No connector fixtures found in ${fixturesDir}`);
+
+    const originalFetch = global.fetch;
+    let failures = 0;
+
+    for (const file of files) {
+        const fixture: ConnectorFixture = JSON.parse(fs.readFileSync(path.join(fixturesDir, file), 'utf8'));
+        const connector = getConnector(fixture.connector);
+        if (!connector) throw new Error(`${file}: unknown connector "${fixture.connector}"`);
+
+        console.log(`\n${connector.id}`);
+        const cases: [string, () => Promise<CaseResult>][] = [
+            ...(fixture.sync || []).map(test => [`sync:${test.id}`, () => runSyncCase(fixture, connector, test)] as [string, () => Promise<CaseResult>]),
+            ...(fixture.writeBack || []).map(test => [`write-back:${test.id}`, () => runWriteBackCase(fixture, connector, test)] as [string, () => Promise<CaseResult>])
+        ];
+
+        for (const [id, run] of cases) {
+            const result = await run().catch((error: any): CaseResult => ({ id, passed: false, detail: error.message }));
+            if (!result.passed) failures++;
+            console.log(`  ${result.passed ? 'pass' : 'FAIL'} ${id}: ${result.detail}`);
+        }
+    }
+
+    global.fetch = originalFetch;
+    if (failures > 0) {
+        console.error(`\nFAILED: ${failures} connector case${failures === 1 ? '' : 's'}`);
+        process.exit(1);
+    }
+    console.log('\nAll connector cases passed');
+    process.exit(0);
+}
+
+runConnectorEval().catch(error => {
+    console.error('Connector evaluation failed:', error.message);
+    process.exit(1);
+});
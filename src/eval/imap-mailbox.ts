@@ -0,0 +1,227 @@
+import fs from 'fs';
+import path from 'path';
+import { createLLMProvider, setLLMProvider } from '../llm';
+import { ConnectorContext, ItemChange } from '../connectors';
+import { ImapMailConnector } from '../connectors/imap-mail.connector';
+import { createImapClient, IMAP_MAILBOX, ImapSettings } from '../connectors/imap';
+import { UserModel } from '../models/User';
+import { IWorkItem, WorkItemModel } from '../models/WorkItem';
+
+/**
+ * IMAP connector check against a real mail server, e.g. the GreenMail container in docker-compose.imap.yml.
+ * Seeds the inbox with the messages in src/eval/fixtures/imap and syncs it twice: the first sync must import
+ * the work mail, the second must pick up a read flag, a deleted message and new mail. Write-back is checked last.
+ * The inbox is emptied first, so only point it at a throwaway mailbox.
+ *
+ *   docker compose -f docker-compose.imap.yml up -d
+ *   npm run eval:imap -- [--host localhost] [--port 3143] [--secure false] [--user monocle] [--password pass]
+ */
+
+type Expectation = { messageId: string, action: ItemChange['action'] | 'skip' } & Record<string, any>;
+
+const FIXTURES_DIR = path.resolve(__dirname, '../../src/eval/fixtures/imap');
+
+const parseArgs = (argv: string[]): Record<string, string> => {
+    const args: Record<string, string> = {};
+    for (let i = 0; i < argv.length; i++) {
+        if (argv[i].startsWith('--')) {
+            args[argv[i].slice(2)] = argv[i + 1] && !argv[i + 1].startsWith('--') ? argv[++i] : 'true';
+        }
+    }
+    return args;
+};
+
+// Messages on the wire end lines with CRLF
+const readFixture = (file: string): Buffer =>
+    Buffer.from(fs.readFileSync(path.join(FIXTURES_DIR, file), 'utf8').replace(/\r?\n/g, '\r\n'));
+
+/**
+ * Empty the inbox, then append the given fixtures with their flags. Returns each message's UID.
+ */
+const seedInbox = async (settings: ImapSettings, password: string, reset: boolean, messages: [string, string[]][]): Promise<number[]> => {
+    const client = createImapClient(settings, password);
+    await client.connect();
+    try {
+        const mailbox = await client.mailboxOpen(IMAP_MAILBOX);
+        if (reset && mailbox.exists > 0) await client.messageDelete('1:*');
+
+        const uids: number[] = [];
+        for (const [file, flags] of messages) {
+            const source = readFixture(file);
+            const appended = await client.append(IMAP_MAILBOX, source, flags);
+            if (appended && appended.uid) {
+                uids.push(appended.uid);
+                continue;
+            }
+            // Servers without UIDPLUS don't answer the UID, so look the message up
+            const messageId = source.toString().match(/^Message-ID:\s*(\S+)/mi)![1];
+            uids.push(((await client.search({ header: { 'message-id': messageId } }, { uid: true })) || [])[0]);
+        }
+        return uids;
+    } finally {
+        await client.logout().catch(() => client.close());
+    }
+};
+
+/**
+ * Change flags or delete messages behind the connector's back
+ */
+const changeInbox = async (settings: ImapSettings, password: string, change: (client: ReturnType<typeof createImapClient>) => Promise<unknown>): Promise<void> => {
+    const client = createImapClient(settings, password);
+    await client.connect();
+    try {
+        await client.mailboxOpen(IMAP_MAILBOX);
+        await change(client);
+    } finally {
+        await client.logout().catch(() => client.close());
+    }
+};
+
+/**
+ * Run every page of one sync and apply the changes to the in-memory items, like the sync engine does
+ */
+const sync = async (connector: ImapMailConnector, context: ConnectorContext, items: Map<string, IWorkItem>, cursor?: string) => {
+    const changes = new Map<string, ItemChange | null>();
+    let nextCursor = cursor;
+    let pageToken: string | undefined;
+    let pageIndex = 0;
+    context.state = {};
+
+    do {
+        const page = await connector.fetchPage(context, { stream: { id: 'default' }, cursor, pageToken, pageIndex });
+        for (const record of page.records) {
+            const id = connector.getExternalId(record);
+            const change = await connector.toChange(context, record, items.get(id));
+            changes.set(id, change);
+
+            if (change?.action === 'create') items.set(id, new WorkItemModel({ ...change.item, userId: context.userId }));
+            if (change?.action === 'update') items.get(id)!.set(change.changes);
+            if (change?.action === 'remove') items.delete(id);
+        }
+        nextCursor = page.cursor ?? nextCursor;
+        pageToken = page.nextPageToken;
+        pageIndex++;
+    } while (pageToken);
+
+    return { changes, cursor: nextCursor };
+};
+
+const check = (step: string, changes: Map<string, ItemChange | null>, expectations: Expectation[]): string[] => {
+    const problems: string[] = [];
+    for (const expected of expectations) {
+        const change = changes.get(expected.messageId);
+        const action = change?.action || 'skip';
+        if (action !== expected.action) {
+            problems.push(`${step} ${expected.messageId}: action=${changes.has(expected.messageId) ? action : 'not fetched'} (expected ${expected.action})`);
+            continue;
+        }
+        if (!change || change.action === 'remove') continue;
+
+        const fields: Record<string, any> = change.action === 'create' ? change.item : change.changes;
+        for (const [name, value] of Object.entries(expected)) {
+            if (name === 'messageId' || name === 'action') continue;
+            const actual = name.startsWith('metadata.') ? fields.metadata?.[name.slice('metadata.'.length)] : fields[name];
+            if (JSON.stringify(actual) !== JSON.stringify(value)) problems.push(`${step} ${expected.messageId}: ${name}=${JSON.stringify(actual)} (expected ${JSON.stringify(value)})`);
+        }
+    }
+    return problems;
+};
+
+async function runImapCheck() {
+    const args = parseArgs(process.argv.slice(2));
+    const settings: ImapSettings = {
+        host: args.host || 'localhost',
+        port: parseInt(args.port || '') || 3143,
+        secure: args.secure === 'true',
+        username: args.user || 'monocle'
+    };
+    const password = args.password || 'pass';
+
+    // Classification runs on the deterministic mock model, so newsletters are told apart without a real LLM
+    setLLMProvider(createLLMProvider('mock'));
+
+    const connector = new ImapMailConnector();
+    const user = new UserModel({ name: 'IMAP check', email: 'dev@acme.test', integrations: { imap: { connected: true, ...settings, password: 'stored' } } });
+    const context: ConnectorContext = { userId: (user._id as any).toString(), user, credentials: { password }, state: {} };
+
+    // Without a database, the connector's lookup of imported messages reads the in-memory items
+    const items = new Map<string, IWorkItem>();
+    (WorkItemModel as any).find = (filter: any) => ({
+        select: async () => [...items.values()].filter(item => item.get('metadata.imapUidValidity') === filter['metadata.imapUidValidity'])
+    });
+
+    console.log(`Checking the IMAP connector against ${settings.username}@${settings.host}:${settings.port}`);
+    const [designUid, , , checklistUid] = await seedInbox(settings, password, true, [
+        ['design-review.eml', []],
+        ['weekly-digest.eml', []],
+        ['load-test-results.eml', ['\\Seen']],
+        ['release-checklist.eml', []]
+    ]);
+
+    const problems: string[] = [];
+    const first = await sync(connector, context, items);
+    problems.push(...check('first sync', first.changes, [
+        {
+            messageId: '<design-review-1@acme.test>',
+            action: 'create',
+            title: 'Design review for the session store migration',
+            source: 'Mail: Priya Raman <priya@acme.test>',
+            isRead: false,
+            'metadata.conversationId': '<design-review-1@acme.test>'
+        },
+        { messageId: '<digest-2026-41@news.example>', action: 'skip' },
+        { messageId: '<load-test-3@acme.test>', action: 'create', isRead: true, preview: 'p95 latency is 180ms at 2k rps; the sessions endpoint is the bottleneck.' },
+        { messageId: '<release-checklist-7@acme.test>', action: 'create', title: 'Release checklist – v2.4', preview: 'The v2.4 release checklist is ready. • Freeze the API on Wednesday • Run the load test' }
+    ]));
+    if (!first.cursor) problems.push('first sync: no cursor');
+
+    // Read one message elsewhere, delete another and receive a reply
+    await changeInbox(settings, password, async client => {
+        await client.messageFlagsAdd(String(designUid), ['\\Seen'], { uid: true });
+        await client.messageDelete(String(checklistUid), { uid: true });
+    });
+    await seedInbox(settings, password, false, [['design-review-reply.eml', []]]);
+
+    const second = await sync(connector, context, items, first.cursor);
+    problems.push(...check('second sync', second.changes, [
+        { messageId: '<design-review-1@acme.test>', action: 'update', isRead: true },
+        { messageId: '<release-checklist-7@acme.test>', action: 'remove' },
+        {
+            messageId: '<design-review-2@acme.test>',
+            action: 'create',
+            priority: 'high',
+            'metadata.inReplyTo': '<design-review-1@acme.test>',
+            'metadata.references': ['<design-review-1@acme.test>'],
+            'metadata.conversationId': '<design-review-1@acme.test>'
+        }
+    ]));
+    if (second.changes.has('<load-test-3@acme.test>') && second.changes.get('<load-test-3@acme.test>')) {
+        problems.push('second sync <load-test-3@acme.test>: changed without a change in the mailbox');
+    }
+
+    // Marking the reply read in Monocle sets \Seen; doing it again changes nothing
+    const reply = items.get('<design-review-2@acme.test>');
+    if (reply) {
+        const applied = await connector.writeBack(context, reply, { isRead: true });
+        if (applied.outcome !== 'applied') problems.push(`write-back: outcome=${applied.outcome} (expected applied)`);
+        if (applied.local) reply.set(applied.local);
+        const repeated = await connector.writeBack(context, reply, { isRead: true });
+        if (repeated.outcome !== 'unchanged') problems.push(`write-back again: outcome=${repeated.outcome} (expected unchanged)`);
+    }
+
+    for (const problem of problems) console.log(`  FAIL ${problem}`);
+    if (problems.length > 0) {
+        console.error(`\nFAILED: ${problems.length} IMAP check${problems.length === 1 ? '' : 's'}`);
+        process.exit(1);
+    }
+    console.log(`  pass first sync: ${first.changes.size} messages, cursor=${first.cursor}`);
+    console.log(`  pass second sync: ${second.changes.size} changes, cursor=${second.cursor}`);
+    console.log('  pass write-back');
+    console.log('\nIMAP connector checks passed');
+    process.exit(0);
+}
+
+runImapCheck().catch(error => {
+    console.error('IMAP check failed:', error.message);
+    process.exit(1);
+});
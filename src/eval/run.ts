@@ -0,0 +1,149 @@
+import fs from 'fs';
+import path from 'path';
+import { LLMProviderName } from '../config/llm';
+import { createLLMProvider, getStructuredOutputStats, setLLMProvider } from '../llm';
+import { getPrompt, PromptName } from '../prompts/registry';
+import { WorkThread } from '../types';
+import { EmailClassificationService } from '../services/email-classification.service';
+import { InsightService } from '../services/insight.service';
+import { PriorityService } from '../services/priority.service';
+
+/**
+ * Offline prompt evaluation.
+ * Replays fixture threads and emails through a provider and prompt version and scores the outputs.
+ *
+ *   npm run eval -- --provider mock --prompt email-classification --version v1 [--fixtures dir] [--min-score 0.8]
+ */
+
+type CaseResult = { id: string, score: number, valid: boolean, detail: string };
+
+const EVALUATED_PROMPTS: PromptName[] = ['email-classification', 'work-insight', 'priority-reasoning', 'thread-summary'];
+
+const parseArgs = (argv: string[]): Record<string, string> => {
+    const args: Record<string, string> = {};
+    for (let i = 0; i < argv.length; i++) {
+        if (argv[i].startsWith('--')) {
+            args[argv[i].slice(2)] = argv[i + 1] && !argv[i + 1].startsWith('--') ? argv[++i] : 'true';
+        }
+    }
+    return args;
+};
+
+const loadFixture = (dir: string, file: string): any[] => JSON.parse(fs.readFileSync(path.join(dir, file), 'utf8'));
+
+const toThread = (fixture: any): WorkThread => ({
+    id: fixture.id || 'fixture',
+    userId: 'eval',
+    itemIds: [],
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    lastActivity: new Date(),
+    ...fixture,
+    deadline: fixture.deadline ? new Date(fixture.deadline) : undefined
+});
+
+const evaluators: Record<string, (dir: string, version?: string) => Promise<CaseResult[]>> = {
+    'email-classification': async (dir, version) => {
+        const results: CaseResult[] = [];
+        for (const email of loadFixture(dir, 'emails.json')) {
+            const output = await EmailClassificationService.classifyAndPrioritizeEmail(email.subject, email.from, email.snippet, version);
+            const isWorkCorrect = output?.isWork === email.expected.isWork;
+            // Priority only matters for work email that has an expected label
+            const priorityCorrect = !email.expected.isWork || !email.expected.priority || output?.priority === email.expected.priority;
+            results.push({
+                id: email.id,
+                score: (isWorkCorrect ? 0.6 : 0) + (isWorkCorrect && priorityCorrect ? 0.4 : 0),
+                valid: !!output?.promptVersion,
+                detail: `isWork=${output?.isWork} priority=${output?.priority}`
+            });
+        }
+        return results;
+    },
+    'work-insight': async (dir, version) => {
+        const results: CaseResult[] = [];
+        for (const set of loadFixture(dir, 'thread-sets.json')) {
+            const { insight } = await InsightService.generateAIInsight(set.threads.map(toThread), version);
+            const typeCorrect = insight?.type === set.expected.type;
+            const severityCorrect = insight?.severity === set.expected.severity;
+            results.push({
+                id: set.id,
+                score: (typeCorrect ? 0.7 : 0) + (severityCorrect ? 0.3 : 0),
+                valid: !!insight,
+                detail: `type=${insight?.type} severity=${insight?.severity}`
+            });
+        }
+        return results;
+    },
+    'priority-reasoning': async (dir, version) => {
+        const results: CaseResult[] = [];
+        for (const fixture of loadFixture(dir, 'threads.json')) {
+            const { reasoning, promptVersion } = await PriorityService.generateReasoning(toThread(fixture.thread), version);
+            const topWeight = reasoning.factors[0]?.weight;
+            results.push({
+                id: fixture.id,
+                score: (topWeight === fixture.expected.topWeight ? 0.7 : 0) + (reasoning.factors.length > 0 ? 0.3 : 0),
+                valid: !!promptVersion,
+                detail: `topWeight=${topWeight} factors=${reasoning.factors.length}`
+            });
+        }
+        return results;
+    },
+    'thread-summary': async (dir, version) => {
+        const results: CaseResult[] = [];
+        for (const fixture of loadFixture(dir, 'threads.json')) {
+            const { summary, nextSteps } = await InsightService.summarizeThread(toThread(fixture.thread), version);
+            const keywords: string[] = fixture.expected.mustMention || [];
+            const mentioned = keywords.filter(k => summary.toLowerCase().includes(k.toLowerCase())).length;
+            results.push({
+                id: fixture.id,
+                score: 0.7 * (keywords.length ? mentioned / keywords.length : 1) + (nextSteps.length === 3 ? 0.3 : 0),
+                valid: true,
+                detail: `mentioned=${mentioned}/${keywords.length} nextSteps=${nextSteps.length}`
+            });
+        }
+        return results;
+    }
+};
+
+async function runEval() {
+    const args = parseArgs(process.argv.slice(2));
+    const fixturesDir = args.fixtures || path.resolve(__dirname, '../../src/eval/fixtures');
+    const prompts = !args.prompt || args.prompt === 'all' ? EVALUATED_PROMPTS : [args.prompt as PromptName];
+    const minScore = args['min-score'] !== undefined ? parseFloat(args['min-score']) : undefined;
+
+    const provider = createLLMProvider(args.provider as LLMProviderName | undefined);
+    setLLMProvider(provider);
+    console.log(`Evaluating with ${provider.name} (${provider.model}), fixtures: ${fixturesDir}`);
+
+    const summary: { prompt: string, cases: number, score: number, validRate: number }[] = [];
+    for (const name of prompts) {
+        if (!evaluators[name]) throw new Error(`No evaluator for prompt "${name}"`);
+        const version = getPrompt(name, args.version).version;
+
+        console.log(`\n${name}@${version}`);
+        const results = await evaluators[name](fixturesDir, version);
+        results.forEach(r => console.log(`  ${r.score.toFixed(2)} ${r.valid ? ' ' : '!'} ${r.id}: ${r.detail}`));
+
+        summary.push({
+            prompt: `${name}@${version}`,
+            cases: results.length,
+            score: results.reduce((sum, r) => sum + r.score, 0) / (results.length || 1),
+            validRate: results.filter(r => r.valid).length / (results.length || 1)
+        });
+    }
+
+    console.log('\nSummary ("!" above marks cases that fell back to the rule-based result)');
+    console.table(summary.map(s => ({ ...s, score: Number(s.score.toFixed(3)), validRate: Number(s.validRate.toFixed(3)) })));
+    console.log('Structured output stats:', JSON.stringify(getStructuredOutputStats(), null, 2));
+
+    if (minScore !== undefined && summary.some(s => s.score < minScore)) {
+        console.error(`FAILED: at least one prompt scored below ${minScore}`);
+        process.exit(1);
+    }
+    process.exit(0);
+}
+
+runEval().catch(error => {
+    console.error('Evaluation failed:', error.message);
+    process.exit(1);
+});
@@ -0,0 +1,182 @@
+import crypto from 'crypto';
+import { getLLMConfig } from '../config/llm';
+
+export interface CacheKeyParts {
+    provider: string;
+    model: string;
+    /** Prompt id including its version, e.g. "priority-reasoning@v1" */
+    promptId: string;
+    input: string;
+}
+
+export interface CacheOptions {
+    /** Overrides LLM_CACHE_TTL_MINUTES for this entry */
+    ttlMs?: number;
+    /** Invalidation tags such as "thread:<id>" or "item:<id>" */
+    tags?: string[];
+}
+
+export interface LLMCacheStats {
+    hits: number;
+    misses: number;
+    /** Requests that joined an identical call already in flight */
+    sharedInFlight: number;
+    expired: number;
+    invalidated: number;
+    evicted: number;
+}
+
+interface CacheEntry {
+    value: any;
+    expiresAt: number;
+    tags: string[];
+    namespace: string;
+}
+
+const entries = new Map<string, CacheEntry>();
+const inFlight = new Map<string, Promise<any>>();
+const tagIndex = new Map<string, Set<string>>();
+const stats = new Map<string, LLMCacheStats>();
+
+const statsFor = (namespace: string): LLMCacheStats => {
+    if (!stats.has(namespace)) {
+        stats.set(namespace, { hits: 0, misses: 0, sharedInFlight: 0, expired: 0, invalidated: 0, evicted: 0 });
+    }
+    return stats.get(namespace)!;
+};
+
+/**
+ * Collapse whitespace so formatting-only differences in a prompt share one entry
+ */
+const normalizeInput = (input: string): string => input.replace(/\s+/g, ' ').trim();
+
+/**
+ * Content-addressed key for a model call
+ */
+export const buildCacheKey = (parts: CacheKeyParts): string =>
+    crypto.createHash('sha256')
+        .update([parts.provider, parts.model, parts.promptId, normalizeInput(parts.input)].join('\u0000'))
+        .digest('hex');
+
+const removeEntry = (key: string): void => {
+    const entry = entries.get(key);
+    if (!entry) return;
+    entries.delete(key);
+    for (const tag of entry.tags) {
+        const keys = tagIndex.get(tag);
+        keys?.delete(key);
+        if (keys && keys.size === 0) tagIndex.delete(tag);
+    }
+};
+
+const storeEntry = (key: string, namespace: string, value: any, options: CacheOptions): void => {
+    const config = getLLMConfig().cache;
+    removeEntry(key);
+
+    // Maps iterate in insertion order, so the first key is the oldest entry
+    while (entries.size >= config.maxEntries) {
+        const oldest = entries.keys().next().value as string;
+        statsFor(entries.get(oldest)!.namespace).evicted++;
+        removeEntry(oldest);
+    }
+
+    const tags = options.tags || [];
+    entries.set(key, { value, expiresAt: Date.now() + (options.ttlMs ?? config.ttlMs), tags, namespace });
+    for (const tag of tags) {
+        if (!tagIndex.has(tag)) tagIndex.set(tag, new Set());
+        tagIndex.get(tag)!.add(key);
+    }
+};
+
+/**
+ * Return a cached result for the key, join an identical call that is already running,
+ * or run `compute`. Only results that `shouldStore` accepts are kept, so fallbacks
+ * and errors are retried on the next request.
+ */
+export const withLLMCache = async <T>(
+    key: string,
+    namespace: string,
+    options: CacheOptions,
+    compute: () => Promise<T>,
+    shouldStore: (value: T) => boolean = () => true
+): Promise<{ value: T, cached: boolean }> => {
+    if (!getLLMConfig().cache.enabled) {
+        return { value: await compute(), cached: false };
+    }
+
+    const counters = statsFor(namespace);
+    const entry = entries.get(key);
+    if (entry) {
+        if (entry.expiresAt > Date.now()) {
+            counters.hits++;
+            return { value: entry.value as T, cached: true };
+        }
+        counters.expired++;
+        removeEntry(key);
+    }
+
+    const pending = inFlight.get(key);
+    if (pending) {
+        counters.sharedInFlight++;
+        return { value: await pending as T, cached: true };
+    }
+
+    counters.misses++;
+    const call = compute();
+    inFlight.set(key, call);
+    try {
+        const value = await call;
+        if (shouldStore(value)) storeEntry(key, namespace, value, options);
+        return { value, cached: false };
+    } finally {
+        inFlight.delete(key);
+    }
+};
+
+/**
+ * Drop every cached result tagged with any of the given tags
+ */
+export const invalidateLLMCache = (...tags: string[]): number => {
+    let removed = 0;
+    for (const tag of tags) {
+        for (const key of Array.from(tagIndex.get(tag) || [])) {
+            const entry = entries.get(key);
+            if (entry) statsFor(entry.namespace).invalidated++;
+            removeEntry(key);
+            removed++;
+        }
+    }
+    return removed;
+};
+
+/**
+ * Empty the cache (stats are kept)
+ */
+export const clearLLMCache = (): void => {
+    entries.clear();
+    tagIndex.clear();
+};
+
+/**
+ * Per-prompt cache counters since process start, with hit rates
+ */
+export const getLLMCacheStats = () => {
+    const byPrompt: Record<string, LLMCacheStats & { hitRate: number }> = {};
+    const total: LLMCacheStats = { hits: 0, misses: 0, sharedInFlight: 0, expired: 0, invalidated: 0, evicted: 0 };
+
+    for (const [namespace, s] of stats) {
+        const lookups = s.hits + s.sharedInFlight + s.misses;
+        byPrompt[namespace] = { ...s, hitRate: lookups ? (s.hits + s.sharedInFlight) / lookups : 0 };
+        (Object.keys(total) as (keyof LLMCacheStats)[]).forEach(k => total[k] += s[k]);
+    }
+
+    const lookups = total.hits + total.sharedInFlight + total.misses;
+    return {
+        enabled: getLLMConfig().cache.enabled,
+        entries: entries.size,
+        inFlight: inFlight.size,
+        ...total,
+        hitRate: lookups ? (total.hits + total.sharedInFlight) / lookups : 0,
+        byPrompt
+    };
+};
@@ -0,0 +1,120 @@
+import { ChatMessage } from './types';
+
+/**
+ * Prompt format for servers that only expose a raw completion endpoint.
+ * `render` turns role-separated messages into one prompt that ends where the assistant reply starts.
+ */
+export interface ChatTemplate {
+    name: string;
+    render(messages: ChatMessage[]): string;
+    stop: string[];
+}
+
+/**
+ * Fold system messages into the first user turn, for formats without a system role
+ */
+const foldSystem = (messages: ChatMessage[]): ChatMessage[] => {
+    const system = messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+    const rest = messages.filter(m => m.role !== 'system');
+    if (!system) return rest;
+    if (rest[0]?.role === 'user') {
+        return [{ role: 'user', content: `${system}\n\n${rest[0].content}` }, ...rest.slice(1)];
+    }
+    return [{ role: 'user', content: system }, ...rest];
+};
+
+const llama3: ChatTemplate = {
+    name: 'llama3',
+    render: messages =>
+        '<|begin_of_text|>' +
+        messages.map(m => `<|start_header_id|>${m.role}<|end_header_id|>\n\n${m.content}<|eot_id|>`).join('') +
+        '<|start_header_id|>assistant<|end_header_id|>\n\n',
+    stop: ['<|eot_id|>', '<|end_of_text|>']
+};
+
+const chatml: ChatTemplate = {
+    name: 'chatml',
+    render: messages =>
+        messages.map(m => `<|im_start|>${m.role}\n${m.content}<|im_end|>\n`).join('') +
+        '<|im_start|>assistant\n',
+    stop: ['<|im_end|>', '<|im_start|>']
+};
+
+// Mistral and Llama 2 share the [INST] format; Llama 2 wraps the system prompt in <<SYS>>
+const mistral: ChatTemplate = {
+    name: 'mistral',
+    render: messages => '<s>' + foldSystem(messages)
+        .map(m => m.role === 'user' ? `[INST] ${m.content} [/INST]` : ` ${m.content}</s>`)
+        .join(''),
+    stop: ['</s>', '[INST]']
+};
+
+const llama2: ChatTemplate = {
+    name: 'llama2',
+    render: messages => {
+        const system = messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+        let prompt = '';
+        let first = true;
+        for (const m of messages.filter(m => m.role !== 'system')) {
+            if (m.role === 'user') {
+                const content = first && system ? `<<SYS>>\n${system}\n<</SYS>>\n\n${m.content}` : m.content;
+                prompt += `<s>[INST] ${content} [/INST]`;
+                first = false;
+            } else {
+                prompt += ` ${m.content} </s>`;
+            }
+        }
+        return prompt;
+    },
+    stop: ['</s>', '[INST]']
+};
+
+const gemma: ChatTemplate = {
+    name: 'gemma',
+    render: messages =>
+        foldSystem(messages)
+            .map(m => `<start_of_turn>${m.role === 'assistant' ? 'model' : 'user'}\n${m.content}<end_of_turn>\n`)
+            .join('') +
+        '<start_of_turn>model\n',
+    stop: ['<end_of_turn>']
+};
+
+const phi3: ChatTemplate = {
+    name: 'phi3',
+    render: messages =>
+        messages.map(m => `<|${m.role}|>\n${m.content}<|end|>\n`).join('') + '<|assistant|>\n',
+    stop: ['<|end|>', '<|endoftext|>']
+};
+
+// Last resort for unknown models: a plain transcript most instruction-tuned models can follow
+const plain: ChatTemplate = {
+    name: 'plain',
+    render: messages =>
+        messages.map(m => `${m.role === 'system' ? 'System' : m.role === 'user' ? 'User' : 'Assistant'}: ${m.content}`).join('\n\n') +
+        '\n\nAssistant:',
+    stop: ['\nUser:', '\nSystem:']
+};
+
+export const CHAT_TEMPLATES: Record<string, ChatTemplate> = { llama3, chatml, mistral, llama2, gemma, phi3, plain };
+
+// Checked in order, so more specific model families come first
+const MODEL_FAMILIES: [RegExp, ChatTemplate][] = [
+    [/llama-?3|llama3/i, llama3],
+    [/llama-?2|llama2|codellama/i, llama2],
+    [/mistral|mixtral/i, mistral],
+    [/gemma/i, gemma],
+    [/phi-?3|phi3|phi4/i, phi3],
+    [/qwen|yi|openhermes|dolphin|nous-hermes|deepseek|chatml/i, chatml]
+];
+
+/**
+ * Pick the chat template for a model name, or the template named by `override`
+ */
+export const getChatTemplate = (model: string, override?: string): ChatTemplate => {
+    if (override) {
+        const template = CHAT_TEMPLATES[override];
+        if (template) return template;
+        console.warn(`Unknown chat template "${override}", choosing one from the model name`);
+    }
+    return MODEL_FAMILIES.find(([pattern]) => pattern.test(model))?.[1] || plain;
+};
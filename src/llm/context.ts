@@ -0,0 +1,21 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+export interface LLMCallContext {
+    /** User the model calls are billed to */
+    userId?: string;
+    /** Operation that made the call, e.g. a prompt id such as "priority-reasoning@v1" */
+    caller?: string;
+    /** HTTP route or job that started the work */
+    route?: string;
+}
+
+const storage = new AsyncLocalStorage<LLMCallContext>();
+
+/**
+ * Run `fn` with call attribution that every model request inside it will be recorded under.
+ * Nested scopes inherit the fields they don't override.
+ */
+export const runWithLLMContext = <T>(context: LLMCallContext, fn: () => T): T =>
+    storage.run({ ...storage.getStore(), ...context }, fn);
+
+export const getLLMContext = (): LLMCallContext => storage.getStore() || {};
@@ -0,0 +1,120 @@
+import { Content, GoogleGenerativeAI } from '@google/generative-ai';
+import { ChatMessage, GenerateOptions, LLMProvider, LLMResult, StreamOptions } from './types';
+
+const GEMINI_EMBED_BATCH_SIZE = 100;
+
+export class GeminiProvider implements LLMProvider {
+    readonly name = 'gemini' as const;
+    private client: GoogleGenerativeAI;
+
+    constructor(apiKey: string, readonly model: string, readonly contextWindow: number, readonly embeddingModel: string) {
+        this.client = new GoogleGenerativeAI(apiKey);
+    }
+
+    /**
+     * Embed texts in batches of at most GEMINI_EMBED_BATCH_SIZE, the most `batchEmbedContents` accepts per call
+     */
+    async embed(texts: string[]): Promise<number[][]> {
+        try {
+            const embedder = this.client.getGenerativeModel({ model: this.embeddingModel });
+            const vectors: number[][] = [];
+            for (let i = 0; i < texts.length; i += GEMINI_EMBED_BATCH_SIZE) {
+                const result = await embedder.batchEmbedContents({
+                    requests: texts.slice(i, i + GEMINI_EMBED_BATCH_SIZE).map(text => ({ content: { role: 'user', parts: [{ text }] } }))
+                });
+                vectors.push(...result.embeddings.map(e => e.values));
+            }
+            return vectors;
+        } catch (error: any) {
+            console.error('Gemini embed error:', error.message);
+            throw new Error(`Gemini embedding failed: ${error.message}`);
+        }
+    }
+
+    async generate(prompt: string, options: GenerateOptions = {}): Promise<LLMResult> {
+        try {
+            const result = await this.getModel(options).generateContent(prompt);
+            return this.toResult(result.response);
+        } catch (error: any) {
+            console.error('Gemini generate error:', error.message);
+            throw new Error(`Gemini generation failed: ${error.message}`);
+        }
+    }
+
+    async chat(messages: ChatMessage[], options: GenerateOptions = {}): Promise<LLMResult> {
+        const { system, history, last } = this.splitMessages(messages);
+
+        try {
+            const chat = this.getModel(options, system).startChat({ history });
+            const result = await chat.sendMessage(last);
+            return this.toResult(result.response);
+        } catch (error: any) {
+            console.error('Gemini chat error:', error.message);
+            throw new Error(`Gemini chat failed: ${error.message}`);
+        }
+    }
+
+    async *chatStream(messages: ChatMessage[], options: StreamOptions = {}): AsyncGenerator<string> {
+        const { system, history, last } = this.splitMessages(messages);
+
+        let result;
+        try {
+            const chat = this.getModel(options, system).startChat({ history });
+            result = await chat.sendMessageStream(last, { signal: options.signal });
+        } catch (error: any) {
+            console.error('Gemini stream error:', error.message);
+            throw new Error(`Gemini chat stream failed: ${error.message}`);
+        }
+
+        for await (const chunk of result.stream) {
+            const text = chunk.text();
+            if (text) yield text;
+        }
+    }
+
+    /**
+     * Gemini takes the system prompt separately and the last user turn as the message to send
+     */
+    private splitMessages(messages: ChatMessage[]): { system?: string, history: Content[], last: string } {
+        const system = messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+        const turns = messages.filter(m => m.role !== 'system');
+        const last = turns.pop();
+        if (!last || last.role !== 'user') {
+            throw new Error('Gemini chat requires the last message to come from the user');
+        }
+
+        return {
+            system: system || undefined,
+            history: turns.map(m => ({
+                role: m.role === 'assistant' ? 'model' : 'user',
+                parts: [{ text: m.content }]
+            })),
+            last: last.content
+        };
+    }
+
+    private getModel(options: GenerateOptions, systemInstruction?: string) {
+        return this.client.getGenerativeModel({
+            model: this.model,
+            systemInstruction,
+            generationConfig: {
+                temperature: options.temperature,
+                maxOutputTokens: options.maxTokens,
+                stopSequences: options.stop
+            }
+        });
+    }
+
+    private toResult(response: any): LLMResult {
+        const usage = response.usageMetadata;
+        return {
+            text: response.text(),
+            provider: this.name,
+            model: this.model,
+            usage: usage ? {
+                promptTokens: usage.promptTokenCount || 0,
+                completionTokens: usage.candidatesTokenCount || 0
+            } : undefined
+        };
+    }
+}
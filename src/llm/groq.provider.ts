@@ -0,0 +1,62 @@
+import Groq from 'groq-sdk';
+import { ChatMessage, GenerateOptions, LLMProvider, LLMResult, StreamOptions } from './types';
+
+export class GroqProvider implements LLMProvider {
+    readonly name = 'groq' as const;
+    private client: Groq;
+
+    constructor(apiKey: string, readonly model: string, readonly contextWindow: number) {
+        this.client = new Groq({ apiKey });
+    }
+
+    async generate(prompt: string, options: GenerateOptions = {}): Promise<LLMResult> {
+        return this.chat([{ role: 'user', content: prompt }], options);
+    }
+
+    async chat(messages: ChatMessage[], options: GenerateOptions = {}): Promise<LLMResult> {
+        try {
+            const completion = await this.client.chat.completions.create({
+                model: this.model,
+                messages,
+                temperature: options.temperature,
+                max_tokens: options.maxTokens,
+                stop: options.stop
+            });
+
+            return {
+                text: completion.choices[0]?.message?.content || '',
+                provider: this.name,
+                model: this.model,
+                usage: completion.usage ? {
+                    promptTokens: completion.usage.prompt_tokens,
+                    completionTokens: completion.usage.completion_tokens
+                } : undefined
+            };
+        } catch (error: any) {
+            console.error('Groq chat error:', error.message);
+            throw new Error(`Groq chat failed: ${error.message}`);
+        }
+    }
+
+    async *chatStream(messages: ChatMessage[], options: StreamOptions = {}): AsyncGenerator<string> {
+        let stream;
+        try {
+            stream = await this.client.chat.completions.create({
+                model: this.model,
+                messages,
+                temperature: options.temperature,
+                max_tokens: options.maxTokens,
+                stop: options.stop,
+                stream: true
+            }, { signal: options.signal });
+        } catch (error: any) {
+            console.error('Groq stream error:', error.message);
+            throw new Error(`Groq chat stream failed: ${error.message}`);
+        }
+
+        for await (const chunk of stream) {
+            const text = chunk.choices[0]?.delta?.content;
+            if (text) yield text;
+        }
+    }
+}
@@ -0,0 +1,8 @@
+export * from './types';
+export * from './tokens';
+export * from './registry';
+export * from './structured';
+export * from './cache';
+export * from './context';
+export * from './ledger';
+export * from './metered.provider';
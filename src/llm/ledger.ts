@@ -0,0 +1,44 @@
+import mongoose from 'mongoose';
+import { LLMCallModel } from '../models/LLMCall';
+import { getLLMContext } from './context';
+
+export interface LLMCallRecord {
+    caller?: string;
+    provider: string;
+    model: string;
+    latencyMs: number;
+    promptTokens: number;
+    completionTokens: number;
+    tokensEstimated: boolean;
+    status: 'success' | 'error' | 'aborted' | 'fallback';
+    error?: string;
+}
+
+/**
+ * Append a model call to the ledger, attributed to the current call context.
+ * Writes are fire-and-forget and skipped when there is no database (scripts, evaluation runs).
+ */
+export const recordLLMCall = (record: LLMCallRecord): void => {
+    if (mongoose.connection.readyState !== 1) return;
+
+    const context = getLLMContext();
+    const caller = record.caller || context.caller || 'unknown';
+    // Prompt ids carry their version ("name@version")
+    const promptVersion = caller.includes('@') ? caller : undefined;
+
+    LLMCallModel.create({
+        userId: context.userId,
+        caller,
+        route: context.route,
+        provider: record.provider,
+        llmModel: record.model,
+        promptVersion,
+        latencyMs: record.latencyMs,
+        promptTokens: record.promptTokens,
+        completionTokens: record.completionTokens,
+        totalTokens: record.promptTokens + record.completionTokens,
+        tokensEstimated: record.tokensEstimated,
+        status: record.status,
+        error: record.error
+    }).catch(error => console.error('Failed to record LLM call:', error.message));
+};
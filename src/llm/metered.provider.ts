@@ -0,0 +1,119 @@
+import { LLMProviderName } from '../config/llm';
+import { ChatMessage, GenerateOptions, LLMProvider, LLMResult, StreamOptions } from './types';
+import { estimateTokens } from './tokens';
+import { getLLMContext } from './context';
+import { recordLLMCall } from './ledger';
+
+/**
+ * Decorates a provider so every request is timed and written to the call ledger.
+ * Token counts come from the provider when it reports them and are estimated otherwise.
+ */
+export class MeteredProvider implements LLMProvider {
+    readonly name: LLMProviderName;
+    readonly model: string;
+    readonly contextWindow: number;
+    readonly embeddingModel?: string;
+    readonly embed?: (texts: string[]) => Promise<number[][]>;
+
+    constructor(readonly inner: LLMProvider) {
+        this.name = inner.name;
+        this.model = inner.model;
+        this.contextWindow = inner.contextWindow;
+        this.embeddingModel = inner.embeddingModel;
+
+        if (inner.embed) {
+            const embed = inner.embed.bind(inner);
+            this.embed = texts => this.measure('embed', texts.join('\n'), async () => {
+                const vectors = await embed(texts);
+                return { value: vectors, text: '' };
+            });
+        }
+    }
+
+    async generate(prompt: string, options?: GenerateOptions): Promise<LLMResult> {
+        return this.measure('generate', prompt, async () => {
+            const result = await this.inner.generate(prompt, options);
+            return { value: result, text: result.text, usage: result.usage };
+        });
+    }
+
+    async chat(messages: ChatMessage[], options?: GenerateOptions): Promise<LLMResult> {
+        return this.measure('chat', this.joinMessages(messages), async () => {
+            const result = await this.inner.chat(messages, options);
+            return { value: result, text: result.text, usage: result.usage };
+        });
+    }
+
+    async *chatStream(messages: ChatMessage[], options?: StreamOptions): AsyncGenerator<string> {
+        const started = Date.now();
+        let text = '';
+        let status: 'success' | 'error' | 'aborted' = 'aborted';
+        let error: string | undefined;
+
+        try {
+            for await (const chunk of this.inner.chatStream(messages, options)) {
+                text += chunk;
+                yield chunk;
+            }
+            status = 'success';
+        } catch (err: any) {
+            status = options?.signal?.aborted ? 'aborted' : 'error';
+            error = err.message;
+            throw err;
+        } finally {
+            // Streams don't report usage, and a consumer that stops early still paid for the prompt
+            recordLLMCall({
+                caller: getLLMContext().caller || 'chatStream',
+                provider: this.name,
+                model: this.model,
+                latencyMs: Date.now() - started,
+                promptTokens: estimateTokens(this.joinMessages(messages)),
+                completionTokens: estimateTokens(text),
+                tokensEstimated: true,
+                status,
+                error
+            });
+        }
+    }
+
+    private async measure<T>(
+        method: string,
+        input: string,
+        call: () => Promise<{ value: T, text: string, usage?: LLMResult['usage'] }>
+    ): Promise<T> {
+        const started = Date.now();
+        const caller = getLLMContext().caller || method;
+
+        try {
+            const { value, text, usage } = await call();
+            recordLLMCall({
+                caller,
+                provider: this.name,
+                model: method === 'embed' && this.embeddingModel ? this.embeddingModel : this.model,
+                latencyMs: Date.now() - started,
+                promptTokens: usage ? usage.promptTokens : estimateTokens(input),
+                completionTokens: usage ? usage.completionTokens : estimateTokens(text),
+                tokensEstimated: !usage,
+                status: 'success'
+            });
+            return value;
+        } catch (error: any) {
+            recordLLMCall({
+                caller,
+                provider: this.name,
+                model: this.model,
+                latencyMs: Date.now() - started,
+                promptTokens: estimateTokens(input),
+                completionTokens: 0,
+                tokensEstimated: true,
+                status: 'error',
+                error: error.message
+            });
+            throw error;
+        }
+    }
+
+    private joinMessages(messages: ChatMessage[]): string {
+        return messages.map(m => m.content).join('\n');
+    }
+}
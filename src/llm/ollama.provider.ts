@@ -0,0 +1,287 @@
+import axios from 'axios';
+import { OllamaChatMode } from '../config/llm';
+import { ChatMessage, GenerateOptions, LLMProvider, LLMResult, StreamOptions } from './types';
+import { ChatTemplate, getChatTemplate } from './chat-templates';
+
+export interface OllamaCapabilities {
+    reachable: boolean;
+    /** The configured model is pulled on the server */
+    modelAvailable: boolean;
+    chat: boolean;
+    generate: boolean;
+    /** Only probed when an embedding model is configured */
+    embed?: boolean;
+    /** Template used when /api/chat is unavailable */
+    template: string;
+    errors: string[];
+    checkedAt: Date;
+}
+
+export class OllamaProvider implements LLMProvider {
+    readonly name = 'ollama' as const;
+    readonly embeddingModel?: string;
+    readonly embed?: (texts: string[]) => Promise<number[][]>;
+
+    private readonly template: ChatTemplate;
+    private capabilities: Promise<OllamaCapabilities> | null = null;
+
+    constructor(
+        private baseUrl: string,
+        readonly model: string,
+        readonly contextWindow: number,
+        embedModel?: string,
+        private chatMode: OllamaChatMode = 'auto',
+        chatTemplate?: string
+    ) {
+        this.template = getChatTemplate(model, chatTemplate);
+
+        // Only advertise embeddings when an embedding model has been configured
+        if (embedModel) {
+            this.embeddingModel = embedModel;
+            this.embed = texts => this.embedTexts(embedModel, texts);
+        }
+    }
+
+    async generate(prompt: string, options: GenerateOptions = {}): Promise<LLMResult> {
+        try {
+            console.log('Generating content with Ollama...');
+            const response = await axios.post(`${this.baseUrl}/api/generate`, {
+                model: this.model,
+                prompt,
+                stream: false,
+                options: this.toOllamaOptions(options)
+            });
+            return this.toResult(response.data);
+        } catch (error: any) {
+            console.error('Ollama generate error:', error.message);
+            throw new Error(`Ollama generation failed: ${error.message}`);
+        }
+    }
+
+    async chat(messages: ChatMessage[], options: GenerateOptions = {}): Promise<LLMResult> {
+        const useChatEndpoint = await this.supportsChatEndpoint();
+        try {
+            if (useChatEndpoint) {
+                const response = await axios.post(`${this.baseUrl}/api/chat`, this.buildChatRequest(messages, options, false));
+                return this.toResult(response.data);
+            }
+
+            console.log(`Sending chat to Ollama /api/generate with the ${this.template.name} template...`);
+            const response = await axios.post(`${this.baseUrl}/api/generate`, this.buildTemplatedRequest(messages, options, false));
+            return this.toResult(response.data);
+        } catch (error: any) {
+            if (useChatEndpoint && this.isMissingEndpoint(error)) {
+                this.markChatUnsupported();
+                return this.chat(messages, options);
+            }
+            console.error('Ollama chat error:', error.message);
+            throw new Error(`Ollama chat failed: ${error.message}`);
+        }
+    }
+
+    async *chatStream(messages: ChatMessage[], options: StreamOptions = {}): AsyncGenerator<string> {
+        const useChatEndpoint = await this.supportsChatEndpoint();
+        let response;
+        try {
+            response = useChatEndpoint
+                ? await axios.post(`${this.baseUrl}/api/chat`, this.buildChatRequest(messages, options, true), {
+                    responseType: 'stream',
+                    signal: options.signal
+                })
+                : await axios.post(`${this.baseUrl}/api/generate`, this.buildTemplatedRequest(messages, options, true), {
+                    responseType: 'stream',
+                    signal: options.signal
+                });
+        } catch (error: any) {
+            if (useChatEndpoint && this.isMissingEndpoint(error)) {
+                this.markChatUnsupported();
+                yield* this.chatStream(messages, options);
+                return;
+            }
+            console.error('Ollama stream error:', error.message);
+            throw new Error(`Ollama chat stream failed: ${error.message}`);
+        }
+
+        // Ollama streams newline-delimited JSON objects
+        let buffer = '';
+        for await (const chunk of response.data) {
+            buffer += chunk.toString();
+            const lines = buffer.split('\n');
+            buffer = lines.pop() || '';
+
+            for (const line of lines) {
+                if (!line.trim()) continue;
+                const data = this.parseStreamLine(line);
+                if (data.text) yield data.text;
+                if (data.done) return;
+            }
+        }
+
+        // The last object may arrive without a trailing newline
+        if (buffer.trim()) {
+            const data = this.parseStreamLine(buffer);
+            if (data.text) yield data.text;
+        }
+    }
+
+    private parseStreamLine(line: string): { text?: string, done: boolean } {
+        const data = JSON.parse(line);
+        if (data.error) throw new Error(`Ollama chat stream failed: ${data.error}`);
+        return { text: data.message?.content ?? data.response, done: !!data.done };
+    }
+
+    /**
+     * Probe the server for the endpoints and model this provider needs.
+     * The result is cached; pass `refresh` to probe again.
+     */
+    detectCapabilities(refresh: boolean = false): Promise<OllamaCapabilities> {
+        if (!this.capabilities || refresh) {
+            this.capabilities = this.probe();
+        }
+        return this.capabilities;
+    }
+
+    private async probe(): Promise<OllamaCapabilities> {
+        const capabilities: OllamaCapabilities = {
+            reachable: false,
+            modelAvailable: false,
+            chat: false,
+            generate: false,
+            template: this.template.name,
+            errors: [],
+            checkedAt: new Date()
+        };
+
+        try {
+            const { data } = await axios.get(`${this.baseUrl}/api/tags`, { timeout: 10000 });
+            capabilities.reachable = true;
+            const names: string[] = (data.models || []).map((m: any) => m.name);
+            capabilities.modelAvailable = names.some(n => n === this.model || n === `${this.model}:latest`);
+        } catch (error: any) {
+            capabilities.errors.push(`/api/tags: ${this.describeError(error)}`);
+            return capabilities;
+        }
+
+        // One-token requests: enough to tell a missing endpoint from a working one
+        const probeOptions = { num_predict: 1 };
+        capabilities.chat = await this.probeEndpoint('/api/chat', {
+            model: this.model,
+            messages: [{ role: 'user', content: 'hi' }],
+            stream: false,
+            options: probeOptions
+        }, capabilities.errors);
+        capabilities.generate = await this.probeEndpoint('/api/generate', {
+            model: this.model,
+            prompt: 'hi',
+            stream: false,
+            options: probeOptions
+        }, capabilities.errors);
+
+        if (this.embeddingModel) {
+            capabilities.embed = await this.probeEndpoint('/api/embed', { model: this.embeddingModel, input: ['hi'] }, capabilities.errors);
+        }
+
+        return capabilities;
+    }
+
+    private async probeEndpoint(path: string, body: any, errors: string[]): Promise<boolean> {
+        try {
+            await axios.post(`${this.baseUrl}${path}`, body, { timeout: 60000 });
+            return true;
+        } catch (error: any) {
+            errors.push(`${path}: ${this.describeError(error)}`);
+            // A JSON error (e.g. model not found) means the endpoint itself exists
+            return !this.isMissingEndpoint(error);
+        }
+    }
+
+    private async supportsChatEndpoint(): Promise<boolean> {
+        if (this.chatMode !== 'auto') return this.chatMode === 'chat';
+
+        const capabilities = await this.detectCapabilities();
+        // If the server could not be reached, try /api/chat and let a 404 switch us over
+        if (!capabilities.reachable) {
+            this.capabilities = null;
+            return true;
+        }
+        return capabilities.chat;
+    }
+
+    private markChatUnsupported(): void {
+        console.warn(`Ollama /api/chat is not available, falling back to /api/generate with the ${this.template.name} template`);
+        this.chatMode = 'generate';
+    }
+
+    /**
+     * Ollama answers a missing route with a plain-text 404, but a missing model with a JSON error body
+     */
+    private isMissingEndpoint(error: any): boolean {
+        return error.response?.status === 404 && typeof error.response?.data?.error !== 'string';
+    }
+
+    private describeError(error: any): string {
+        const status = error.response?.status;
+        const detail = typeof error.response?.data?.error === 'string' ? error.response.data.error : error.message;
+        return status ? `${status} ${detail}` : detail;
+    }
+
+    private buildChatRequest(messages: ChatMessage[], options: GenerateOptions, stream: boolean) {
+        return {
+            model: this.model,
+            messages,
+            stream,
+            options: this.toOllamaOptions(options)
+        };
+    }
+
+    /**
+     * Render the messages with the model's chat template for servers without /api/chat
+     */
+    private buildTemplatedRequest(messages: ChatMessage[], options: GenerateOptions, stream: boolean) {
+        return {
+            model: this.model,
+            prompt: this.template.render(messages),
+            raw: true,
+            stream,
+            options: {
+                ...this.toOllamaOptions(options),
+                stop: Array.from(new Set([...this.template.stop, ...(options.stop || [])]))
+            }
+        };
+    }
+
+    private async embedTexts(embedModel: string, texts: string[]): Promise<number[][]> {
+        try {
+            const response = await axios.post(`${this.baseUrl}/api/embed`, {
+                model: embedModel,
+                input: texts
+            });
+            return response.data.embeddings;
+        } catch (error: any) {
+            console.error('Ollama embed error:', error.message);
+            throw new Error(`Ollama embedding failed: ${error.message}`);
+        }
+    }
+
+    private toOllamaOptions(options: GenerateOptions) {
+        return {
+            // Ollama's default context is smaller than the budgets we build prompts for
+            num_ctx: options.contextTokens ?? this.contextWindow,
+            ...(options.temperature !== undefined ? { temperature: options.temperature } : {}),
+            ...(options.maxTokens !== undefined ? { num_predict: options.maxTokens } : {}),
+            ...(options.stop?.length ? { stop: options.stop } : {})
+        };
+    }
+
+    private toResult(data: any): LLMResult {
+        return {
+            text: data.message?.content ?? data.response ?? '',
+            provider: this.name,
+            model: this.model,
+            usage: data.prompt_eval_count !== undefined ? {
+                promptTokens: data.prompt_eval_count,
+                completionTokens: data.eval_count || 0
+            } : undefined
+        };
+    }
+}
@@ -0,0 +1,56 @@
+import { getLLMConfig, LLMProviderName } from '../config/llm';
+import { LLMProvider } from './types';
+import { OllamaProvider } from './ollama.provider';
+import { GeminiProvider } from './gemini.provider';
+import { GroqProvider } from './groq.provider';
+import { MockProvider } from './mock.provider';
+import { MeteredProvider } from './metered.provider';
+
+let activeProvider: LLMProvider | null = null;
+
+/**
+ * Build a provider by name using the environment configuration
+ */
+export const createLLMProvider = (name: LLMProviderName = getLLMConfig().provider): LLMProvider => {
+    const config = getLLMConfig();
+
+    switch (name) {
+        case 'gemini':
+            if (!config.gemini.apiKey) throw new Error('GEMINI_API_KEY is required for the gemini provider');
+            return new GeminiProvider(config.gemini.apiKey, config.gemini.model, config.gemini.contextTokens, config.gemini.embedModel);
+        case 'groq':
+            if (!config.groq.apiKey) throw new Error('GROQ_API_KEY is required for the groq provider');
+            return new GroqProvider(config.groq.apiKey, config.groq.model, config.groq.contextTokens);
+        case 'mock':
+            return new MockProvider();
+        case 'ollama':
+        default:
+            return new OllamaProvider(
+                config.ollama.baseUrl,
+                config.ollama.model,
+                config.ollama.contextTokens,
+                config.ollama.embedModel,
+                config.ollama.chatMode,
+                config.ollama.chatTemplate
+            );
+    }
+};
+
+/**
+ * Get the process-wide provider selected by LLM_PROVIDER.
+ * Every request it makes is recorded in the call ledger.
+ */
+export const getLLMProvider = (): LLMProvider => {
+    if (!activeProvider) {
+        activeProvider = new MeteredProvider(createLLMProvider());
+        console.log(`LLM provider: ${activeProvider.name} (${activeProvider.model})`);
+    }
+    return activeProvider;
+};
+
+/**
+ * Override the active provider (used by scripts and evaluation runs)
+ */
+export const setLLMProvider = (provider: LLMProvider | null): void => {
+    activeProvider = provider && !(provider instanceof MeteredProvider) ? new MeteredProvider(provider) : provider;
+};
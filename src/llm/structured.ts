@@ -0,0 +1,211 @@
+import { getLLMProvider } from './registry';
+import { buildCacheKey, CacheOptions, withLLMCache } from './cache';
+import { runWithLLMContext } from './context';
+import { recordLLMCall } from './ledger';
+import { ChatMessage, GenerateOptions } from './types';
+
+export type Schema =
+    | { type: 'string'; enum?: readonly string[]; minLength?: number }
+    | { type: 'number'; min?: number; max?: number }
+    | { type: 'boolean' }
+    | { type: 'array'; items: Schema; minItems?: number; maxItems?: number }
+    | { type: 'object'; properties: Record<string, Schema>; required?: readonly string[] };
+
+export interface StructuredRequest<T> {
+    /** Stable prompt name, used as the key for repair statistics */
+    name: string;
+    prompt: string;
+    schema: Schema;
+    /** Rule-based result used when the model never produces valid output */
+    fallback: () => T | Promise<T>;
+    maxRepairs?: number;
+    options?: GenerateOptions;
+    /** Cache valid replies for identical prompts; omit to always call the model */
+    cache?: CacheOptions;
+}
+
+export interface StructuredResult<T> {
+    data: T;
+    source: 'model' | 'repaired' | 'fallback';
+    attempts: number;
+    errors: string[];
+    /** True when served from the response cache or a shared in-flight call */
+    cached?: boolean;
+}
+
+export interface StructuredStats {
+    calls: number;
+    validFirstTry: number;
+    repaired: number;
+    fallbacks: number;
+    repairAttempts: number;
+    providerErrors: number;
+}
+
+const DEFAULT_MAX_REPAIRS = 2;
+
+const stats = new Map<string, StructuredStats>();
+
+const statsFor = (name: string): StructuredStats => {
+    if (!stats.has(name)) {
+        stats.set(name, { calls: 0, validFirstTry: 0, repaired: 0, fallbacks: 0, repairAttempts: 0, providerErrors: 0 });
+    }
+    return stats.get(name)!;
+};
+
+/**
+ * Validate a value against a schema, returning human readable errors (empty when valid)
+ */
+export const validateSchema = (value: any, schema: Schema, path: string = '$'): string[] => {
+    switch (schema.type) {
+        case 'string':
+            if (typeof value !== 'string') return [`${path} must be a string`];
+            if (schema.enum && !schema.enum.includes(value)) return [`${path} must be one of ${schema.enum.map(v => `"${v}"`).join(', ')}`];
+            if (schema.minLength !== undefined && value.trim().length < schema.minLength) return [`${path} must not be empty`];
+            return [];
+        case 'number':
+            if (typeof value !== 'number' || isNaN(value)) return [`${path} must be a number`];
+            if (schema.min !== undefined && value < schema.min) return [`${path} must be >= ${schema.min}`];
+            if (schema.max !== undefined && value > schema.max) return [`${path} must be <= ${schema.max}`];
+            return [];
+        case 'boolean':
+            return typeof value === 'boolean' ? [] : [`${path} must be a boolean`];
+        case 'array': {
+            if (!Array.isArray(value)) return [`${path} must be an array`];
+            const errors: string[] = [];
+            if (schema.minItems !== undefined && value.length < schema.minItems) errors.push(`${path} must have at least ${schema.minItems} items`);
+            if (schema.maxItems !== undefined && value.length > schema.maxItems) errors.push(`${path} must have at most ${schema.maxItems} items`);
+            value.forEach((item, i) => errors.push(...validateSchema(item, schema.items, `${path}[${i}]`)));
+            return errors;
+        }
+        case 'object': {
+            if (!value || typeof value !== 'object' || Array.isArray(value)) return [`${path} must be an object`];
+            const errors: string[] = [];
+            for (const key of schema.required || []) {
+                if (value[key] === undefined || value[key] === null) errors.push(`${path}.${key} is required`);
+            }
+            for (const [key, child] of Object.entries(schema.properties)) {
+                if (value[key] !== undefined && value[key] !== null) errors.push(...validateSchema(value[key], child, `${path}.${key}`));
+            }
+            return errors;
+        }
+    }
+};
+
+/**
+ * Pull the JSON object out of a model reply (bare or inside a fenced block)
+ */
+export const extractJson = (text: string): any => {
+    const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+    const source = fenced ? fenced[1] : text;
+    const match = source.match(/\{[\s\S]*\}/);
+    if (!match) throw new Error('reply does not contain a JSON object');
+    return JSON.parse(match[0]);
+};
+
+/**
+ * Ask the model for JSON matching a schema.
+ * Invalid replies are sent back with the validation errors up to `maxRepairs` times,
+ * after which the caller's rule-based fallback is used.
+ * With `cache` set, valid replies are reused for identical prompts and concurrent identical calls share one request.
+ */
+export const generateStructured = async <T>(request: StructuredRequest<T>): Promise<StructuredResult<T>> => {
+    if (!request.cache) return runWithLLMContext({ caller: request.name }, () => runStructured(request));
+
+    const provider = getLLMProvider();
+    const key = buildCacheKey({
+        provider: provider.name,
+        model: provider.model,
+        promptId: request.name,
+        input: request.prompt + (request.options ? JSON.stringify(request.options) : '')
+    });
+    const { value, cached } = await withLLMCache(
+        key,
+        request.name,
+        request.cache,
+        () => runWithLLMContext({ caller: request.name }, () => runStructured(request)),
+        result => result.source !== 'fallback'
+    );
+    return cached ? { ...value, cached } : value;
+};
+
+/**
+ * One uncached structured call: first attempt, repair rounds, then fallback
+ */
+const runStructured = async <T>(request: StructuredRequest<T>): Promise<StructuredResult<T>> => {
+    const provider = getLLMProvider();
+    const maxRepairs = request.maxRepairs ?? DEFAULT_MAX_REPAIRS;
+    const counters = statsFor(request.name);
+    counters.calls++;
+
+    const messages: ChatMessage[] = [{ role: 'user', content: request.prompt }];
+    const started = Date.now();
+    const errors: string[] = [];
+    let attempts = 0;
+
+    for (let attempt = 0; attempt <= maxRepairs; attempt++) {
+        attempts = attempt + 1;
+        let text: string;
+        try {
+            text = attempt === 0
+                ? (await provider.generate(request.prompt, request.options)).text
+                : (await provider.chat(messages, request.options)).text;
+        } catch (error: any) {
+            console.error(`Structured output "${request.name}" provider error:`, error.message);
+            counters.providerErrors++;
+            errors.push(error.message);
+            break;
+        }
+
+        let attemptErrors: string[];
+        let parsed: any;
+        try {
+            parsed = extractJson(text);
+            attemptErrors = validateSchema(parsed, request.schema);
+        } catch (error: any) {
+            attemptErrors = [`Invalid JSON: ${error.message}`];
+        }
+
+        if (attemptErrors.length === 0) {
+            if (attempt === 0) counters.validFirstTry++;
+            else counters.repaired++;
+            return { data: parsed as T, source: attempt === 0 ? 'model' : 'repaired', attempts, errors };
+        }
+
+        errors.push(...attemptErrors);
+        if (attempt < maxRepairs) {
+            counters.repairAttempts++;
+            messages.push({ role: 'assistant', content: text });
+            messages.push({
+                role: 'user',
+                content: `Your reply was not valid:\n${attemptErrors.map(e => `- ${e}`).join('\n')}\n` +
+                    'Reply again with ONLY the corrected JSON object, no other text.'
+            });
+        }
+    }
+
+    console.warn(`Structured output "${request.name}" fell back to rule-based result:`, errors.slice(-3).join('; '));
+    counters.fallbacks++;
+    recordLLMCall({
+        provider: provider.name,
+        model: provider.model,
+        latencyMs: Date.now() - started,
+        promptTokens: 0,
+        completionTokens: 0,
+        tokensEstimated: false,
+        status: 'fallback',
+        error: errors[errors.length - 1]
+    });
+    return { data: await request.fallback(), source: 'fallback', attempts, errors };
+};
+
+/**
+ * Per-prompt counters of valid, repaired and fallback outputs since process start
+ */
+export const getStructuredOutputStats = (): Record<string, StructuredStats & { repairRate: number }> => {
+    const result: Record<string, StructuredStats & { repairRate: number }> = {};
+    for (const [name, s] of stats) {
+        result[name] = { ...s, repairRate: s.calls ? (s.repaired + s.fallbacks) / s.calls : 0 };
+    }
+    return result;
+};
@@ -0,0 +1,24 @@
+import { ChatMessage } from './types';
+
+/**
+ * Rough token estimate (~4 characters per token) for providers that don't report usage
+ */
+export const estimateTokens = (text: string): number => Math.ceil((text || '').length / 4);
+
+/**
+ * Keep the most recent messages that fit within the token budget, preserving order
+ */
+export const trimToTokenBudget = <T extends Pick<ChatMessage, 'content'>>(messages: T[], budget: number): T[] => {
+    const kept: T[] = [];
+    let used = 0;
+
+    for (let i = messages.length - 1; i >= 0; i--) {
+        // Each message carries a few tokens of role/formatting overhead
+        const cost = estimateTokens(messages[i].content) + 4;
+        if (used + cost > budget) break;
+        used += cost;
+        kept.unshift(messages[i]);
+    }
+
+    return kept;
+};
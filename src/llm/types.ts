@@ -0,0 +1,69 @@
+import { LLMProviderName } from '../config/llm';
+
+export type ChatRole = 'system' | 'user' | 'assistant';
+
+export interface ChatMessage {
+    role: ChatRole;
+    content: string;
+}
+
+export interface GenerateOptions {
+    temperature?: number;
+    maxTokens?: number;
+    /** Context size to allocate on servers that take it per request (Ollama num_ctx) */
+    contextTokens?: number;
+    stop?: string[];
+}
+
+export interface StreamOptions extends GenerateOptions {
+    signal?: AbortSignal;
+}
+
+export interface LLMUsage {
+    promptTokens: number;
+    completionTokens: number;
+}
+
+export interface LLMResult {
+    text: string;
+    provider: LLMProviderName;
+    model: string;
+    usage?: LLMUsage;
+}
+
+/**
+ * Common interface implemented by every model backend.
+ * Services depend on this, never on a concrete SDK.
+ */
+export interface LLMProvider {
+    readonly name: LLMProviderName;
+    readonly model: string;
+    /** Maximum prompt + completion tokens the model accepts */
+    readonly contextWindow: number;
+
+    /**
+     * Single-shot completion for a plain prompt
+     */
+    generate(prompt: string, options?: GenerateOptions): Promise<LLMResult>;
+
+    /**
+     * Multi-turn completion over role-separated messages
+     */
+    chat(messages: ChatMessage[], options?: GenerateOptions): Promise<LLMResult>;
+
+    /**
+     * Multi-turn completion that yields text chunks as the model produces them.
+     * Aborting the signal stops the upstream request.
+     */
+    chatStream(messages: ChatMessage[], options?: StreamOptions): AsyncGenerator<string>;
+
+    /**
+     * Identifier of the embedding model, present only when embed() is supported
+     */
+    readonly embeddingModel?: string;
+
+    /**
+     * Embed texts into vectors, one per input. Optional: not every backend supports embeddings.
+     */
+    embed?(texts: string[]): Promise<number[][]>;
+}
@@ -1,5 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
+import { UserModel } from '../models/User';
 
 export interface AuthRequest extends Request {
     user?: {
@@ -43,3 +44,28 @@ export async function authMiddleware(req: AuthRequest, res: Response, next: Next
         });
     }
 }
+
+/**
+ * Middleware to restrict a route to administrators listed in ADMIN_EMAILS.
+ * Must run after authMiddleware.
+ */
+export async function adminMiddleware(req: AuthRequest, res: Response, next: NextFunction) {
+    const adminEmails = (process.env.ADMIN_EMAILS || '').split(',').map(e => e.trim().toLowerCase()).filter(Boolean);
+
+    try {
+        const user = req.user?.id ? await UserModel.findById(req.user.id) : null;
+        if (!user || !adminEmails.includes(user.email.toLowerCase())) {
+            return res.status(403).json({
+                success: false,
+                error: 'Administrator access required'
+            });
+        }
+        next();
+    } catch (error: any) {
+        console.error('Admin check failed:', error.message);
+        return res.status(403).json({
+            success: false,
+            error: 'Administrator access required'
+        });
+    }
+}
@@ -0,0 +1,39 @@
+import { Response, NextFunction } from 'express';
+import { AuthRequest } from './auth.middleware';
+import { UsageService } from '../services/usage.service';
+import { runWithLLMContext } from '../llm';
+
+/**
+ * Middleware for routes that call the LLM. Must run after authMiddleware.
+ * Rejects the request once the user or one of their teams is over its daily token quota,
+ * and attributes every model call made while handling it to the user and route.
+ * Quota and usage always belong to the signed-in user; a `userId` in the path or body must be theirs.
+ */
+export async function llmUsageMiddleware(req: AuthRequest, res: Response, next: NextFunction) {
+    const userId = req.user?.id;
+    const route = `${req.method} ${req.baseUrl}${req.route?.path || req.path}`;
+
+    if (!userId) {
+        return res.status(401).json({ success: false, error: 'Unauthorized' });
+    }
+    const claimed = [req.params.userId, req.body?.userId].filter(id => id !== undefined);
+    if (claimed.some(id => String(id) !== userId)) {
+        return res.status(403).json({ success: false, error: 'userId does not match the signed-in user' });
+    }
+
+    try {
+        const quota = await UsageService.checkQuota(userId);
+        if (!quota.allowed) {
+            return res.status(429).json({
+                success: false,
+                error: quota.reason,
+                data: quota
+            });
+        }
+    } catch (error: any) {
+        // Usage accounting must never take the product down with it
+        console.error('Quota check failed:', error.message);
+    }
+
+    runWithLLMContext({ userId, route }, () => next());
+}
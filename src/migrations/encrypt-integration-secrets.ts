@@ -0,0 +1,83 @@
+import mongoose from 'mongoose';
+import { connectDB } from '../config/database';
+import { reencryptSecret } from '../config/encryption';
+import { UserModel } from '../models/User';
+import { WebhookModel } from '../models/Webhook';
+import { CalendarFeedModel } from '../models/CalendarFeed';
+
+/**
+ * Encrypt plaintext integration secrets, and re-wrap integration, webhook and calendar feed secrets encrypted
+ * under an older master key after TOKEN_ENCRYPTION_KEYS has been rotated. Safe to run repeatedly.
+ *
+ *   npm run migrate:encrypt-secrets [-- --dry-run]
+ */
+
+const SECRET_PATHS = [
+    'integrations.google.accessToken',
+    'integrations.google.refreshToken',
+    'integrations.microsoft.accessToken',
+    'integrations.microsoft.refreshToken',
+    'integrations.notion.apiKey',
+    'integrations.github.apiKey',
+    'integrations.github.webhookSecret',
+    'integrations.jira.apiKey',
+    'integrations.linear.apiKey',
+    'integrations.imap.password'
+];
+
+async function migrate() {
+    const dryRun = process.argv.includes('--dry-run');
+    await connectDB();
+
+    let scanned = 0;
+    let updated = 0;
+    const query = { $or: SECRET_PATHS.map(path => ({ [path]: { $exists: true, $ne: null } })) };
+
+    for await (const user of UserModel.find(query).select(SECRET_PATHS.join(' ')).lean().cursor()) {
+        scanned++;
+        const set: Record<string, string> = {};
+
+        for (const path of SECRET_PATHS) {
+            const value = path.split('.').reduce((obj: any, key) => obj?.[key], user);
+            const next = typeof value === 'string' ? reencryptSecret(value) : null;
+            if (next) set[path] = next;
+        }
+
+        if (Object.keys(set).length === 0) continue;
+        updated++;
+        if (!dryRun) {
+            await UserModel.updateOne({ _id: user._id }, { $set: set });
+        }
+    }
+
+    let webhooksUpdated = 0;
+    for await (const webhook of WebhookModel.find().select('secret').lean().cursor()) {
+        const next = reencryptSecret(webhook.secret);
+        if (!next) continue;
+        webhooksUpdated++;
+        if (!dryRun) {
+            await WebhookModel.updateOne({ _id: webhook._id }, { $set: { secret: next } });
+        }
+    }
+
+    let feedsUpdated = 0;
+    for await (const feed of CalendarFeedModel.find({ url: { $exists: true, $ne: null } }).select('url').lean().cursor()) {
+        const next = reencryptSecret(feed.url);
+        if (!next) continue;
+        feedsUpdated++;
+        if (!dryRun) {
+            await CalendarFeedModel.updateOne({ _id: feed._id }, { $set: { url: next } });
+        }
+    }
+
+    console.log(dryRun
+        ? `[dry run] Scanned ${scanned} users, ${updated} would be updated; ${webhooksUpdated} webhooks and ${feedsUpdated} calendar feeds would be updated`
+        : `Scanned ${scanned} users, ${updated} updated; ${webhooksUpdated} webhooks and ${feedsUpdated} calendar feeds updated`);
+    await mongoose.disconnect();
+}
+
+migrate().catch(async error => {
+    console.error('Migration failed:', error.message);
+    await mongoose.disconnect();
+    process.exit(1);
+});
@@ -0,0 +1,50 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+/**
+ * An iCalendar (.ics) calendar imported by the ICS connector: a subscribed URL, fetched on every sync,
+ * or an uploaded file, replaced by uploading it again
+ */
+export interface ICalendarFeed extends Document {
+    userId: string;
+    name: string;
+    /** Encrypted feed URL, see config/encryption; private calendar addresses carry their own access token */
+    url?: string;
+    /** Host of the subscribed URL, safe to show */
+    urlHost?: string;
+    /** Uploaded calendar */
+    content?: string;
+    lastFetchedAt?: Date;
+    lastError?: string;
+    /** Events in the feed, recurring ones counted once */
+    eventCount?: number;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const CalendarFeedSchema: Schema = new Schema({
+    userId: { type: String, required: true, index: true },
+    name: { type: String, required: true },
+    url: { type: String },
+    urlHost: { type: String },
+    content: { type: String },
+    lastFetchedAt: { type: Date },
+    lastError: { type: String },
+    eventCount: { type: Number },
+    createdAt: { type: Date, default: Date.now },
+    updatedAt: { type: Date, default: Date.now }
+});
+
+// Neither the URL (it may grant access to the calendar) nor the uploaded file is sent back
+CalendarFeedSchema.set('toJSON', {
+    transform: (doc: any, ret: any) => {
+        ret.id = ret._id.toString();
+        ret.kind = ret.url ? 'subscription' : 'upload';
+        delete ret._id;
+        delete ret.__v;
+        delete ret.url;
+        delete ret.content;
+        return ret;
+    }
+});
+
+export const CalendarFeedModel = mongoose.model<ICalendarFeed>('CalendarFeed', CalendarFeedSchema);
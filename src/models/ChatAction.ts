@@ -0,0 +1,36 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { ChatAction as ChatActionType } from '../types';
+
+export interface IChatAction extends Document, Omit<ChatActionType, 'id'> { }
+
+const ChatActionSchema: Schema = new Schema({
+    userId: { type: String, required: true, index: true },
+    conversationId: { type: String, index: true },
+    tool: {
+        type: String,
+        enum: [
+            'create_thread', 'update_thread_progress', 'set_thread_ignored', 'mark_item_read',
+            'assign_item_to_thread', 'update_item_status', 'create_calendar_event', 'search_work'
+        ],
+        required: true
+    },
+    arguments: { type: Schema.Types.Mixed, default: {} },
+    summary: { type: String, required: true },
+    status: { type: String, enum: ['pending', 'executing', 'executed', 'rejected', 'failed'], default: 'pending', index: true },
+    result: { type: Schema.Types.Mixed },
+    error: { type: String },
+    proposedAt: { type: Date, default: Date.now },
+    decidedAt: { type: Date },
+    executedAt: { type: Date }
+});
+
+ChatActionSchema.set('toJSON', {
+    transform: (doc: any, ret: any) => {
+        ret.id = ret._id.toString();
+        delete ret._id;
+        delete ret.__v;
+        return ret;
+    }
+});
+
+export const ChatActionModel = mongoose.model<IChatAction>('ChatAction', ChatActionSchema);
@@ -0,0 +1,44 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { ChatMessage as ChatMessageType } from '../types';
+
+export interface IChatMessage extends Document, Omit<ChatMessageType, 'id'> { }
+
+const CitationSchema = new Schema({
+    ref: { type: Number, required: true },
+    kind: { type: String, enum: ['item', 'thread'], required: true },
+    id: { type: String, required: true },
+    title: { type: String, required: true },
+    source: { type: String },
+    itemType: { type: String },
+    timestamp: { type: Date },
+    externalId: { type: String },
+    externalThreadId: { type: String },
+    url: { type: String }
+}, { _id: false });
+
+const ChatMessageSchema: Schema = new Schema({
+    conversationId: { type: String, required: true, index: true },
+    userId: { type: String, required: true, index: true },
+    role: { type: String, enum: ['user', 'assistant'], required: true },
+    content: { type: String, required: true },
+    context: {
+        threadIds: [{ type: String }],
+        insightIds: [{ type: String }],
+        citations: [CitationSchema]
+    },
+    actionIds: [{ type: String }],
+    createdAt: { type: Date, default: Date.now }
+});
+
+ChatMessageSchema.index({ conversationId: 1, createdAt: 1 });
+
+ChatMessageSchema.set('toJSON', {
+    transform: (doc: any, ret: any) => {
+        ret.id = ret._id.toString();
+        delete ret._id;
+        delete ret.__v;
+        return ret;
+    }
+});
+
+export const ChatMessageModel = mongoose.model<IChatMessage>('ChatMessage', ChatMessageSchema);
@@ -0,0 +1,26 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { Conversation as ConversationType } from '../types';
+
+export interface IConversation extends Document, Omit<ConversationType, 'id'> { }
+
+const ConversationSchema: Schema = new Schema({
+    userId: { type: String, required: true, index: true },
+    title: { type: String, required: true, default: 'New conversation' },
+    messageCount: { type: Number, default: 0 },
+    lastMessageAt: { type: Date },
+    createdAt: { type: Date, default: Date.now },
+    updatedAt: { type: Date, default: Date.now }
+});
+
+ConversationSchema.index({ userId: 1, updatedAt: -1 });
+
+ConversationSchema.set('toJSON', {
+    transform: (doc: any, ret: any) => {
+        ret.id = ret._id.toString();
+        delete ret._id;
+        delete ret.__v;
+        return ret;
+    }
+});
+
+export const ConversationModel = mongoose.model<IConversation>('Conversation', ConversationSchema);
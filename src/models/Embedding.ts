@@ -0,0 +1,26 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IEmbedding extends Document {
+    userId: string;
+    refKind: 'item' | 'thread';
+    refId: string;
+    embeddingModel: string;
+    contentHash: string;
+    vector: number[];
+    updatedAt: Date;
+}
+
+const EmbeddingSchema: Schema = new Schema({
+    userId: { type: String, required: true, index: true },
+    refKind: { type: String, enum: ['item', 'thread'], required: true },
+    refId: { type: String, required: true },
+    embeddingModel: { type: String, required: true },
+    contentHash: { type: String, required: true },
+    vector: [{ type: Number }],
+    updatedAt: { type: Date, default: Date.now }
+});
+
+// One cached vector per document and embedding model
+EmbeddingSchema.index({ refKind: 1, refId: 1, embeddingModel: 1 }, { unique: true });
+
+export const EmbeddingModel = mongoose.model<IEmbedding>('Embedding', EmbeddingSchema);
@@ -0,0 +1,50 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface ILLMCall extends Document {
+    userId?: string;
+    caller: string;
+    route?: string;
+    provider: string;
+    llmModel: string;
+    promptVersion?: string;
+    latencyMs: number;
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+    tokensEstimated: boolean;
+    status: 'success' | 'error' | 'aborted' | 'fallback';
+    error?: string;
+    createdAt: Date;
+}
+
+const LLMCallSchema: Schema = new Schema({
+    userId: { type: String, index: true },
+    caller: { type: String, required: true },
+    route: { type: String },
+    provider: { type: String, required: true },
+    llmModel: { type: String, required: true },
+    promptVersion: { type: String },
+    latencyMs: { type: Number, default: 0 },
+    promptTokens: { type: Number, default: 0 },
+    completionTokens: { type: Number, default: 0 },
+    totalTokens: { type: Number, default: 0 },
+    tokensEstimated: { type: Boolean, default: false },
+    status: { type: String, enum: ['success', 'error', 'aborted', 'fallback'], required: true },
+    error: { type: String },
+    createdAt: { type: Date, default: Date.now }
+});
+
+// Daily quota checks sum a user's tokens since midnight
+LLMCallSchema.index({ userId: 1, createdAt: -1 });
+LLMCallSchema.index({ createdAt: -1 });
+
+LLMCallSchema.set('toJSON', {
+    transform: (doc: any, ret: any) => {
+        ret.id = ret._id.toString();
+        delete ret._id;
+        delete ret.__v;
+        return ret;
+    }
+});
+
+export const LLMCallModel = mongoose.model<ILLMCall>('LLMCall', LLMCallSchema);
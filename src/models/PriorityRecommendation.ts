@@ -19,7 +19,8 @@ const PriorityRecommendationSchema: Schema = new Schema({
         factors: [PriorityFactorSchema]
     },
     generatedAt: { type: Date, default: Date.now },
-    isActive: { type: Boolean, default: true }
+    isActive: { type: Boolean, default: true },
+    promptVersion: { type: String }
 });
 
 PriorityRecommendationSchema.set('toJSON', {
@@ -0,0 +1,33 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+/**
+ * Incremental sync position for one resource of an integration (a Teams chat, a channel's delta link, ...)
+ */
+export interface ISyncCursor extends Document {
+    userId: string;
+    provider: string;
+    resource: string;
+    cursor: string;
+    updatedAt: Date;
+}
+
+const SyncCursorSchema: Schema = new Schema({
+    userId: { type: String, required: true },
+    provider: { type: String, required: true },
+    resource: { type: String, required: true },
+    cursor: { type: String, required: true },
+    updatedAt: { type: Date, default: Date.now }
+});
+
+SyncCursorSchema.index({ userId: 1, provider: 1, resource: 1 }, { unique: true });
+
+SyncCursorSchema.set('toJSON', {
+    transform: (doc: any, ret: any) => {
+        ret.id = ret._id.toString();
+        delete ret._id;
+        delete ret.__v;
+        return ret;
+    }
+});
+
+export const SyncCursorModel = mongoose.model<ISyncCursor>('SyncCursor', SyncCursorSchema);
@@ -0,0 +1,56 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type SyncJobTrigger = 'schedule' | 'manual';
+export type SyncJobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+/**
+ * One queued or finished sync of a user's integration, run by SyncSchedulerService
+ */
+export interface ISyncJob extends Document {
+    userId: string;
+    provider: string;
+    trigger: SyncJobTrigger;
+    status: SyncJobStatus;
+    /** Set while queued or running; at most one active job per user and provider */
+    active?: boolean;
+    counts?: Record<string, number>;
+    results?: any[];
+    error?: string;
+    needsReauth?: boolean;
+    createdAt: Date;
+    startedAt?: Date;
+    finishedAt?: Date;
+}
+
+const SyncJobSchema: Schema = new Schema({
+    userId: { type: String, required: true },
+    provider: { type: String, required: true },
+    trigger: { type: String, enum: ['schedule', 'manual'], required: true },
+    status: { type: String, enum: ['queued', 'running', 'succeeded', 'failed'], default: 'queued' },
+    active: { type: Boolean },
+    counts: { type: Schema.Types.Mixed },
+    results: { type: Schema.Types.Mixed },
+    error: { type: String },
+    needsReauth: { type: Boolean },
+    createdAt: { type: Date, default: Date.now },
+    startedAt: { type: Date },
+    finishedAt: { type: Date }
+});
+
+// Prevents overlapping syncs of the same integration, also across server processes
+SyncJobSchema.index({ userId: 1, provider: 1 }, { unique: true, partialFilterExpression: { active: true } });
+SyncJobSchema.index({ status: 1, createdAt: 1 });
+// Finished jobs only need to live long enough to be polled
+SyncJobSchema.index({ finishedAt: 1 }, { expireAfterSeconds: 7 * 24 * 60 * 60 });
+
+SyncJobSchema.set('toJSON', {
+    transform: (doc: any, ret: any) => {
+        ret.id = ret._id.toString();
+        delete ret._id;
+        delete ret.__v;
+        delete ret.active;
+        return ret;
+    }
+});
+
+export const SyncJobModel = mongoose.model<ISyncJob>('SyncJob', SyncJobSchema);
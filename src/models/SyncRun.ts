@@ -0,0 +1,75 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type SyncRunStatus = 'succeeded' | 'partial' | 'failed';
+
+export interface SyncRunCursor {
+    stream: string;
+    before?: string;
+    after?: string;
+}
+
+/**
+ * One run of a connector for a user. `partial` runs finished but skipped records or streams that failed;
+ * `failed` runs stopped early (expired credentials, the source's API being down, ...).
+ */
+export interface ISyncRun extends Document {
+    userId: string;
+    provider: string;
+    connector: string;
+    status: SyncRunStatus;
+    startedAt: Date;
+    finishedAt: Date;
+    fetched: number;
+    created: number;
+    updated: number;
+    removed: number;
+    /** Records that needed no change or were not imported, e.g. non-work mail */
+    skipped: number;
+    /** Records and streams that failed (`errors` is reserved by Mongoose) */
+    errorMessages: string[];
+    error?: string;
+    needsReauth?: boolean;
+    /** Cursor of each synced stream before and after the run */
+    cursors: SyncRunCursor[];
+}
+
+const SyncRunSchema: Schema = new Schema({
+    userId: { type: String, required: true },
+    provider: { type: String, required: true },
+    connector: { type: String, required: true },
+    status: { type: String, enum: ['succeeded', 'partial', 'failed'], required: true },
+    startedAt: { type: Date, required: true },
+    finishedAt: { type: Date, required: true },
+    fetched: { type: Number, default: 0 },
+    created: { type: Number, default: 0 },
+    updated: { type: Number, default: 0 },
+    removed: { type: Number, default: 0 },
+    skipped: { type: Number, default: 0 },
+    errorMessages: { type: [String], default: [] },
+    error: { type: String },
+    needsReauth: { type: Boolean },
+    cursors: {
+        type: [{
+            stream: { type: String, required: true },
+            before: { type: String },
+            after: { type: String },
+            _id: false
+        }],
+        default: []
+    }
+});
+
+SyncRunSchema.index({ userId: 1, connector: 1, startedAt: -1 });
+// History is kept for 30 days
+SyncRunSchema.index({ startedAt: 1 }, { expireAfterSeconds: 30 * 24 * 60 * 60 });
+
+SyncRunSchema.set('toJSON', {
+    transform: (doc: any, ret: any) => {
+        ret.id = ret._id.toString();
+        delete ret._id;
+        delete ret.__v;
+        return ret;
+    }
+});
+
+export const SyncRunModel = mongoose.model<ISyncRun>('SyncRun', SyncRunSchema);
@@ -26,20 +26,96 @@ const UserSchema: Schema = new Schema({
             connected: { type: Boolean, default: false },
             lastSync: { type: Date },
             email: { type: String },
-            accessToken: { type: String },
-            refreshToken: { type: String }
+            accessToken: { type: String }, // Encrypted, see config/encryption
+            refreshToken: { type: String },
+            expiresAt: { type: Date },
+            status: { type: String, enum: ['connected', 'needs-reauth'] },
+            statusReason: { type: String },
+            nextSyncAt: { type: Date }, // Next background sync, see SyncSchedulerService
+            syncFailures: { type: Number, default: 0 } // Consecutive failed syncs, drives the backoff
         },
         microsoft: {
             connected: { type: Boolean, default: false },
             lastSync: { type: Date },
             email: { type: String },
-            accessToken: { type: String },
-            refreshToken: { type: String }
+            accessToken: { type: String }, // Encrypted, see config/encryption
+            refreshToken: { type: String },
+            expiresAt: { type: Date },
+            status: { type: String, enum: ['connected', 'needs-reauth'] },
+            statusReason: { type: String },
+            nextSyncAt: { type: Date }, // Next background sync, see SyncSchedulerService
+            syncFailures: { type: Number, default: 0 } // Consecutive failed syncs, drives the backoff
         },
         notion: {
             connected: { type: Boolean, default: false },
-            apiKey: { type: String }, // Storing user provided key for simplicity
-            lastSync: { type: Date }
+            apiKey: { type: String }, // Encrypted user provided key
+            lastSync: { type: Date },
+            status: { type: String, enum: ['connected', 'needs-reauth'] },
+            statusReason: { type: String },
+            nextSyncAt: { type: Date }, // Next background sync, see SyncSchedulerService
+            syncFailures: { type: Number, default: 0 }, // Consecutive failed syncs, drives the backoff
+            workspaceName: { type: String },
+            databaseIds: { type: [String], default: undefined } // Databases whose rows are imported as tasks
+        },
+        github: {
+            connected: { type: Boolean, default: false },
+            apiKey: { type: String }, // Encrypted personal access token
+            lastSync: { type: Date },
+            status: { type: String, enum: ['connected', 'needs-reauth'] },
+            statusReason: { type: String },
+            nextSyncAt: { type: Date }, // Next background sync, see SyncSchedulerService
+            syncFailures: { type: Number, default: 0 }, // Consecutive failed syncs, drives the backoff
+            login: { type: String },
+            webhookSecret: { type: String } // Encrypted, signs GitHub webhook deliveries
+        },
+        jira: {
+            connected: { type: Boolean, default: false },
+            apiKey: { type: String }, // Encrypted API token
+            lastSync: { type: Date },
+            status: { type: String, enum: ['connected', 'needs-reauth'] },
+            statusReason: { type: String },
+            nextSyncAt: { type: Date }, // Next background sync, see SyncSchedulerService
+            syncFailures: { type: Number, default: 0 }, // Consecutive failed syncs, drives the backoff
+            siteUrl: { type: String },
+            email: { type: String }, // Atlassian account the API token belongs to
+            accountId: { type: String },
+            writeBack: { type: Boolean, default: false }, // Push status changes made in Monocle
+            threadBy: { type: String, enum: ['epic', 'sprint'], default: 'epic' },
+            statusMapping: { type: Schema.Types.Mixed } // Project -> workflow state -> Monocle status
+        },
+        linear: {
+            connected: { type: Boolean, default: false },
+            apiKey: { type: String }, // Encrypted personal API key
+            lastSync: { type: Date },
+            status: { type: String, enum: ['connected', 'needs-reauth'] },
+            statusReason: { type: String },
+            nextSyncAt: { type: Date }, // Next background sync, see SyncSchedulerService
+            syncFailures: { type: Number, default: 0 }, // Consecutive failed syncs, drives the backoff
+            organizationName: { type: String },
+            writeBack: { type: Boolean, default: false }, // Push status changes made in Monocle
+            threadBy: { type: String, enum: ['epic', 'sprint'], default: 'epic' },
+            statusMapping: { type: Schema.Types.Mixed } // Project -> workflow state -> Monocle status
+        },
+        imap: {
+            connected: { type: Boolean, default: false },
+            lastSync: { type: Date },
+            status: { type: String, enum: ['connected', 'needs-reauth'] },
+            statusReason: { type: String },
+            nextSyncAt: { type: Date }, // Next background sync, see SyncSchedulerService
+            syncFailures: { type: Number, default: 0 }, // Consecutive failed syncs, drives the backoff
+            host: { type: String },
+            port: { type: Number },
+            secure: { type: Boolean, default: true }, // TLS from the start; STARTTLS otherwise
+            username: { type: String },
+            password: { type: String } // Encrypted mailbox password
+        },
+        ics: {
+            connected: { type: Boolean, default: false }, // Set while the user has calendar feeds, see CalendarFeedService
+            lastSync: { type: Date },
+            status: { type: String, enum: ['connected', 'needs-reauth'] },
+            statusReason: { type: String },
+            nextSyncAt: { type: Date }, // Next background sync, see SyncSchedulerService
+            syncFailures: { type: Number, default: 0 } // Consecutive failed syncs, drives the backoff
         }
     },
     isVerified: { type: Boolean, default: false },
@@ -50,11 +126,23 @@ const UserSchema: Schema = new Schema({
 });
 
 // Use a standard MongoDB ID for all users.
+// Secrets never leave the server: tokens, API keys and password material are stripped from every serialization.
 UserSchema.set('toJSON', {
     transform: (doc: any, ret: any) => {
         ret.id = ret._id.toString();
         delete ret._id;
         delete ret.__v;
+        delete ret.password;
+        delete ret.verificationToken;
+        delete ret.resetPasswordToken;
+        for (const integration of Object.values(ret.integrations || {}) as any[]) {
+            if (!integration) continue;
+            delete integration.accessToken;
+            delete integration.refreshToken;
+            delete integration.apiKey;
+            delete integration.webhookSecret;
+            delete integration.password;
+        }
         return ret;
     }
 });
@@ -0,0 +1,74 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+/**
+ * Where a payload's item lands: the first rule whose condition matches wins. A rule without
+ * `path` always matches; items matching no rule go to the webhook's own thread.
+ */
+export interface WebhookRoutingRule {
+    /** Payload value the condition tests, e.g. `$.repository.name` */
+    path?: string;
+    /** Matches when the value equals this string */
+    equals?: string;
+    /** Matches when the value matches this regular expression (case-insensitive); patterns that can backtrack exponentially are refused */
+    matches?: string;
+    /** Existing thread to add matching items to */
+    threadId?: string;
+    /** Or a thread per title, created on first use; may be a template such as `Builds of {{$.repository.name}}` */
+    threadTitle?: string;
+}
+
+/**
+ * Endpoint that turns payloads posted by other tools into work items. Payloads are signed with
+ * the webhook's secret; `mapping` maps item fields to JSONPath-style expressions.
+ */
+export interface IWebhook extends Document {
+    userId: string;
+    /** Set for team webhooks: items and threads are shared with the team */
+    teamId?: string;
+    name: string;
+    /** Encrypted signing secret, see config/encryption */
+    secret: string;
+    /** Item field (or `metadata.<name>`, `assigneeEmail`, `idempotencyKey`) to expression */
+    mapping: Record<string, string>;
+    routing: WebhookRoutingRule[];
+    enabled: boolean;
+    lastDeliveryAt?: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const WebhookSchema: Schema = new Schema({
+    userId: { type: String, required: true, index: true },
+    teamId: { type: String, index: true },
+    name: { type: String, required: true },
+    secret: { type: String, required: true },
+    mapping: { type: Schema.Types.Mixed, required: true },
+    routing: {
+        type: [{
+            path: { type: String },
+            equals: { type: String },
+            matches: { type: String },
+            threadId: { type: String },
+            threadTitle: { type: String },
+            _id: false
+        }],
+        default: []
+    },
+    enabled: { type: Boolean, default: true },
+    lastDeliveryAt: { type: Date },
+    createdAt: { type: Date, default: Date.now },
+    updatedAt: { type: Date, default: Date.now }
+});
+
+// The signing secret never leaves the server after it is first shown
+WebhookSchema.set('toJSON', {
+    transform: (doc: any, ret: any) => {
+        ret.id = ret._id.toString();
+        delete ret._id;
+        delete ret.__v;
+        delete ret.secret;
+        return ret;
+    }
+});
+
+export const WebhookModel = mongoose.model<IWebhook>('Webhook', WebhookSchema);
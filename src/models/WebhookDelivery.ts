@@ -0,0 +1,44 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+/**
+ * One payload received by a webhook. The idempotency key is unique per webhook, so a redelivered
+ * payload returns the item created the first time instead of a duplicate.
+ */
+export interface IWebhookDelivery extends Document {
+    webhookId: string;
+    idempotencyKey?: string;
+    status: 'processing' | 'created' | 'rejected';
+    itemId?: string;
+    threadId?: string;
+    error?: string;
+    receivedAt: Date;
+}
+
+const WebhookDeliverySchema: Schema = new Schema({
+    webhookId: { type: String, required: true },
+    idempotencyKey: { type: String },
+    status: { type: String, enum: ['processing', 'created', 'rejected'], required: true },
+    itemId: { type: String },
+    threadId: { type: String },
+    error: { type: String },
+    receivedAt: { type: Date, default: Date.now }
+});
+
+WebhookDeliverySchema.index(
+    { webhookId: 1, idempotencyKey: 1 },
+    { unique: true, partialFilterExpression: { idempotencyKey: { $type: 'string' } } }
+);
+WebhookDeliverySchema.index({ webhookId: 1, receivedAt: -1 });
+// Keys and history are kept for 30 days; a redelivery after that creates a new item
+WebhookDeliverySchema.index({ receivedAt: 1 }, { expireAfterSeconds: 30 * 24 * 60 * 60 });
+
+WebhookDeliverySchema.set('toJSON', {
+    transform: (doc: any, ret: any) => {
+        ret.id = ret._id.toString();
+        delete ret._id;
+        delete ret.__v;
+        return ret;
+    }
+});
+
+export const WebhookDeliveryModel = mongoose.model<IWebhookDelivery>('WebhookDelivery', WebhookDeliverySchema);
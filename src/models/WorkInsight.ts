@@ -17,7 +17,8 @@ const WorkInsightSchema: Schema = new Schema({
     actionSuggestion: { type: String },
     detectedAt: { type: Date, default: Date.now },
     isActive: { type: Boolean, default: true },
-    isDismissed: { type: Boolean, default: false }
+    isDismissed: { type: Boolean, default: false },
+    promptVersion: { type: String }
 });
 
 WorkInsightSchema.set('toJSON', {
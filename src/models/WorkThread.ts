@@ -17,10 +17,13 @@ const WorkThreadSchema: Schema = new Schema({
     tags: [{ type: String }],
     teamId: { type: String, index: true },
     assigneeId: { type: String, index: true },
+    externalId: { type: String }, // Source conversation the thread mirrors, e.g. a Teams chat
     createdAt: { type: Date, default: Date.now },
     updatedAt: { type: Date, default: Date.now }
 });
 
+WorkThreadSchema.index({ userId: 1, externalId: 1 }, { sparse: true });
+
 WorkThreadSchema.set('toJSON', {
     transform: (doc: any, ret: any) => {
         ret.id = ret._id.toString();
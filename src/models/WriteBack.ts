@@ -0,0 +1,44 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type WriteBackOutcome = 'applied' | 'unchanged' | 'conflict' | 'skipped' | 'failed';
+
+/**
+ * A change made in Monocle that was pushed to the item's source system, and what came of it
+ */
+export interface IWriteBack extends Document {
+    userId: string;
+    itemId: string;
+    provider: string;
+    connector: string;
+    changes: Record<string, any>;
+    outcome: WriteBackOutcome;
+    detail?: string;
+    createdAt: Date;
+}
+
+const WriteBackSchema: Schema = new Schema({
+    userId: { type: String, required: true },
+    itemId: { type: String, required: true },
+    provider: { type: String, required: true },
+    connector: { type: String, required: true },
+    changes: { type: Schema.Types.Mixed, required: true },
+    outcome: { type: String, enum: ['applied', 'unchanged', 'conflict', 'skipped', 'failed'], required: true },
+    detail: { type: String },
+    createdAt: { type: Date, default: Date.now }
+});
+
+WriteBackSchema.index({ userId: 1, createdAt: -1 });
+WriteBackSchema.index({ itemId: 1, createdAt: -1 });
+// History is kept for 30 days
+WriteBackSchema.index({ createdAt: 1 }, { expireAfterSeconds: 30 * 24 * 60 * 60 });
+
+WriteBackSchema.set('toJSON', {
+    transform: (doc: any, ret: any) => {
+        ret.id = ret._id.toString();
+        delete ret._id;
+        delete ret.__v;
+        return ret;
+    }
+});
+
+export const WriteBackModel = mongoose.model<IWriteBack>('WriteBack', WriteBackSchema);
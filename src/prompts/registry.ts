@@ -0,0 +1,115 @@
+import fs from 'fs';
+import path from 'path';
+import { Schema } from '../llm';
+import { BUILT_IN_PROMPTS } from './templates';
+
+export type PromptName = 'work-insight' | 'priority-reasoning' | 'thread-summary' | 'email-classification' | 'chat-system';
+
+export interface PromptDefinition {
+    name: PromptName;
+    version: string;
+    template: string;
+    /** Expected JSON shape of the reply, for prompts that return structured output */
+    schema?: Schema;
+}
+
+export interface RenderedPrompt {
+    name: PromptName;
+    version: string;
+    /** `name@version`, stored with outputs to record which prompt produced them */
+    id: string;
+    text: string;
+    schema?: Schema;
+}
+
+let registry: Map<string, PromptDefinition[]> | null = null;
+
+/**
+ * Load built-in prompts plus any JSON prompt files in PROMPTS_DIR.
+ * Files let new versions ship without a code deploy: { "name", "version", "template" }.
+ */
+const loadRegistry = (): Map<string, PromptDefinition[]> => {
+    const map = new Map<string, PromptDefinition[]>();
+    const add = (definition: PromptDefinition) => {
+        const versions = map.get(definition.name) || [];
+        if (versions.some(v => v.version === definition.version)) {
+            throw new Error(`Duplicate prompt version ${definition.name}@${definition.version}`);
+        }
+        map.set(definition.name, [...versions, definition]);
+    };
+
+    BUILT_IN_PROMPTS.forEach(add);
+
+    const dir = process.env.PROMPTS_DIR;
+    if (dir && fs.existsSync(dir)) {
+        for (const file of fs.readdirSync(dir).filter(f => f.endsWith('.json'))) {
+            const loaded = JSON.parse(fs.readFileSync(path.join(dir, file), 'utf8'));
+            const builtIn = map.get(loaded.name)?.[0];
+            if (!builtIn) {
+                console.warn(`Ignoring prompt file ${file}: unknown prompt "${loaded.name}"`);
+                continue;
+            }
+            // File-based versions reuse the built-in schema so callers can still validate replies
+            add({ name: loaded.name, version: loaded.version, template: loaded.template, schema: builtIn.schema });
+        }
+    }
+
+    return map;
+};
+
+/**
+ * Active versions selected with PROMPT_VERSIONS, e.g. "work-insight=v2,email-classification=v1"
+ */
+const getActiveVersions = (): Record<string, string> => {
+    const versions: Record<string, string> = {};
+    for (const pair of (process.env.PROMPT_VERSIONS || '').split(',')) {
+        const [name, version] = pair.split('=').map(s => s.trim());
+        if (name && version) versions[name] = version;
+    }
+    return versions;
+};
+
+/**
+ * Get a prompt definition. Without an explicit version, the configured active version
+ * is used, or the most recently registered one.
+ */
+export const getPrompt = (name: PromptName, version?: string): PromptDefinition => {
+    if (!registry) registry = loadRegistry();
+    const versions = registry.get(name);
+    if (!versions || versions.length === 0) throw new Error(`Unknown prompt "${name}"`);
+
+    const wanted = version || getActiveVersions()[name];
+    if (!wanted) return versions[versions.length - 1];
+
+    const definition = versions.find(v => v.version === wanted);
+    if (!definition) throw new Error(`Unknown prompt version ${name}@${wanted}`);
+    return definition;
+};
+
+/**
+ * Render a prompt, substituting {{placeholders}} with the given values
+ */
+export const renderPrompt = (name: PromptName, vars: Record<string, string | number>, version?: string): RenderedPrompt => {
+    const definition = getPrompt(name, version);
+    const text = definition.template.replace(/\{\{(\w+)\}\}/g, (_, key) => (vars[key] !== undefined ? String(vars[key]) : ''));
+    return {
+        name: definition.name,
+        version: definition.version,
+        id: `${definition.name}@${definition.version}`,
+        text,
+        schema: definition.schema
+    };
+};
+
+/**
+ * List every registered prompt version, flagging the active one
+ */
+export const listPrompts = (): { name: string, version: string, active: boolean }[] => {
+    if (!registry) registry = loadRegistry();
+    const result: { name: string, version: string, active: boolean }[] = [];
+    for (const [name, versions] of registry) {
+        const active = getPrompt(name as PromptName).version;
+        versions.forEach(v => result.push({ name, version: v.version, active: v.version === active }));
+    }
+    return result;
+};
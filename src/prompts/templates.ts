@@ -0,0 +1,153 @@
+import { Schema } from '../llm';
+import { PromptDefinition } from './registry';
+
+const WORK_INSIGHT_SCHEMA: Schema = {
+    type: 'object',
+    required: ['type', 'title', 'description', 'severity'],
+    properties: {
+        type: { type: 'string', enum: ['attention-leak', 'overload', 'momentum-drift'] },
+        title: { type: 'string', minLength: 1 },
+        description: { type: 'string', minLength: 1 },
+        severity: { type: 'string', enum: ['info', 'warning', 'critical'] },
+        actionSuggestion: { type: 'string' }
+    }
+};
+
+const PRIORITY_REASONING_SCHEMA: Schema = {
+    type: 'object',
+    required: ['title', 'description', 'factors'],
+    properties: {
+        title: { type: 'string', minLength: 1 },
+        description: { type: 'string', minLength: 1 },
+        factors: {
+            type: 'array',
+            items: {
+                type: 'object',
+                required: ['label', 'weight', 'description'],
+                properties: {
+                    label: { type: 'string', minLength: 1 },
+                    weight: { type: 'string', enum: ['high', 'medium', 'low'] },
+                    description: { type: 'string', minLength: 1 }
+                }
+            }
+        }
+    }
+};
+
+const THREAD_SUMMARY_SCHEMA: Schema = {
+    type: 'object',
+    required: ['summary', 'nextSteps'],
+    properties: {
+        summary: { type: 'string', minLength: 1 },
+        nextSteps: { type: 'array', items: { type: 'string', minLength: 1 }, minItems: 1, maxItems: 5 }
+    }
+};
+
+const EMAIL_CLASSIFICATION_SCHEMA: Schema = {
+    type: 'object',
+    required: ['isWork', 'priority'],
+    properties: {
+        isWork: { type: 'boolean' },
+        priority: { type: 'string', enum: ['high', 'medium', 'low'] },
+        reason: { type: 'string' }
+    }
+};
+
+/**
+ * Built-in prompt versions. Add a new version instead of editing a released one,
+ * so stored outputs stay attributable to the text that produced them.
+ */
+export const BUILT_IN_PROMPTS: PromptDefinition[] = [
+    {
+        name: 'work-insight',
+        version: 'v1',
+        schema: WORK_INSIGHT_SCHEMA,
+        template: `Analyze these work threads and provide ONE actionable insight about work patterns or productivity:
+{{threads}}
+
+Respond in JSON format:
+{
+  "type": "attention-leak" | "overload" | "momentum-drift",
+  "title": "Brief title",
+  "description": "Detailed description",
+  "severity": "info" | "warning" | "critical",
+  "actionSuggestion": "Specific action to take"
+}`
+    },
+    {
+        name: 'priority-reasoning',
+        version: 'v1',
+        schema: PRIORITY_REASONING_SCHEMA,
+        template: `Analyze this work thread and explain why it should be prioritized:
+Thread: {{title}}
+Priority: {{priority}}
+Progress: {{progress}}%
+Deadline: {{deadline}}
+Last Activity: {{lastActivity}}
+
+Provide a JSON response with:
+{
+  "title": "Brief title for why to prioritize",
+  "description": "Detailed explanation",
+  "factors": [
+    {"label": "Factor name", "weight": "high|medium|low", "description": "Why this matters"}
+  ]
+}`
+    },
+    {
+        name: 'thread-summary',
+        version: 'v1',
+        schema: THREAD_SUMMARY_SCHEMA,
+        template: `Analyze this work thread and provide a concise summary and 3 prioritized next steps:
+{{thread}}
+
+Respond ONLY in JSON format:
+{
+  "summary": "Consolidated summary of progress and state",
+  "nextSteps": ["Step 1", "Step 2", "Step 3"]
+}`
+    },
+    {
+        name: 'email-classification',
+        version: 'v1',
+        schema: EMAIL_CLASSIFICATION_SCHEMA,
+        template: `Analyze this email and determine if it is "Work-related" or "Personal/Newsletter".
+If it is Work-related, assign a priority: "high", "medium", or "low".
+Work-related means: projects, client communication, team updates, meeting invites, urgent requests, technical issues.
+Non-work means: social media notifications, generic newsletters, advertisements, personal chat, receipts (unless business), spam.
+
+Email Subject: {{subject}}
+From: {{from}}
+Snippet: {{snippet}}
+
+Respond ONLY in JSON format:
+{
+  "isWork": boolean,
+  "priority": "high" | "medium" | "low",
+  "reason": "brief reason why"
+}`
+    },
+    {
+        name: 'chat-system',
+        version: 'v1',
+        template: `You are Monocle AI, a powerful work intelligence assistant. 
+            You help users manage their work threads, insights, and productivity.
+            
+            USER CONTEXT:
+            - Recent Threads: {{threads}}
+            - Active Insights: {{insights}}
+
+            RELEVANT WORK ITEMS:
+            {{relevantItems}}
+            
+            GUIDELINES:
+            1. Be concise, professional, and helpful.
+            2. Use the provided context to answer questions about their work.
+            3. If a user asks about their progress, refer to their threads.
+            4. If a user is overloaded (high cognitive load), suggest focusing on one high-priority thread.
+            5. {{actionGuideline}}
+            6. When you use a relevant work item, cite it with its marker, e.g. [1]. Never invent items or markers.
+            {{tools}}
+            Respond in Markdown format. Keep responses under 200 words unless detail is requested.`
+    }
+];
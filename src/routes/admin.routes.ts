@@ -0,0 +1,12 @@
+import { Router } from 'express';
+import { AdminController } from '../controllers/admin.controller';
+import { adminMiddleware } from '../middleware/auth.middleware';
+
+const router = Router();
+
+router.use(adminMiddleware as any);
+router.get('/llm-usage', AdminController.getLLMUsage);
+router.get('/llm-cache/stats', AdminController.getLLMCacheStats);
+router.delete('/llm-cache', AdminController.clearLLMCache);
+
+export default router;
@@ -1,13 +1,33 @@
-import { Router } from 'express';
+import express, { Router } from 'express';
 import { IntegrationController } from '../controllers/integration.controller';
 import { authMiddleware } from '../middleware/auth.middleware';
+import { llmUsageMiddleware } from '../middleware/usage.middleware';
+import { ICS_MAX_BYTES } from '../connectors/ics';
 
 const router = Router();
 
+// Public route, authenticated by the delivery signature
+router.post('/github/webhook/:userId', IntegrationController.receiveGitHubWebhook);
+
 router.use(authMiddleware as any);
-router.post('/google/sync', IntegrationController.syncGoogle);
+router.get('/status', IntegrationController.getStatus);
 router.post('/google/calendar/create', IntegrationController.createMeeting);
-router.post('/microsoft/sync', IntegrationController.syncMicrosoft);
 router.post('/microsoft/teams/create', IntegrationController.createTeamsMeeting);
+router.get('/notion/databases', IntegrationController.getNotionDatabases);
+router.put('/notion/databases', IntegrationController.setNotionDatabases);
+router.get('/jobs/:jobId', IntegrationController.getSyncJob);
+
+// Calendar feeds of the ICS integration; an .ics file can be uploaded as the request body
+const icsBody = express.text({ type: ['text/calendar', 'text/plain'], limit: ICS_MAX_BYTES });
+router.get('/ics/feeds', IntegrationController.listCalendarFeeds);
+router.post('/ics/feeds', icsBody, IntegrationController.addCalendarFeed);
+router.put('/ics/feeds/:feedId', icsBody, IntegrationController.updateCalendarFeed);
+router.delete('/ics/feeds/:feedId', IntegrationController.removeCalendarFeed);
+
+// Generic routes for every provider with registered connectors
+router.post('/:provider/connect', IntegrationController.connect);
+router.post('/:provider/disconnect', IntegrationController.disconnect);
+router.put('/:provider/settings', IntegrationController.updateSettings);
+router.post('/:provider/sync', llmUsageMiddleware as any, IntegrationController.sync);
 
 export default router;
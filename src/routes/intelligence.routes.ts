@@ -1,23 +1,41 @@
 import { Router } from 'express';
 import { IntelligenceController } from '../controllers/intelligence.controller';
 import { authMiddleware } from '../middleware/auth.middleware';
+import { llmUsageMiddleware } from '../middleware/usage.middleware';
 
 const router = Router();
 
 // Authenticate all intelligence routes
 // router.use(authMiddleware as any);
 
-router.post('/chat/:userId', IntelligenceController.chat);
-router.post('/insights/:userId/generate', IntelligenceController.generateInsights);
+router.post('/chat/:userId', llmUsageMiddleware as any, IntelligenceController.chat);
+router.post('/chat/:userId/stream', llmUsageMiddleware as any, IntelligenceController.chatStream);
+
+router.get('/conversations/user/:userId', IntelligenceController.getConversations);
+router.post('/conversations/user/:userId', IntelligenceController.createConversation);
+router.get('/conversations/:id', IntelligenceController.getConversation);
+router.put('/conversations/:id', IntelligenceController.renameConversation);
+router.delete('/conversations/:id', IntelligenceController.deleteConversation);
+router.post('/conversations/:id/messages', llmUsageMiddleware as any, IntelligenceController.sendConversationMessage);
+router.post('/conversations/:id/messages/stream', llmUsageMiddleware as any, IntelligenceController.streamConversationMessage);
+
+router.get('/actions/user/:userId', IntelligenceController.getChatActions);
+router.post('/actions/:id/confirm', IntelligenceController.confirmChatAction);
+router.post('/actions/:id/reject', IntelligenceController.rejectChatAction);
+router.post('/insights/:userId/generate', llmUsageMiddleware as any, IntelligenceController.generateInsights);
 router.get('/insights/:userId', IntelligenceController.getActiveInsights);
 router.put('/insights/:id/dismiss', IntelligenceController.dismissInsight);
 
-router.post('/recommendations/:userId/generate', IntelligenceController.generateRecommendations);
+router.post('/recommendations/:userId/generate', llmUsageMiddleware as any, IntelligenceController.generateRecommendations);
 router.get('/recommendations/:userId', IntelligenceController.getActiveRecommendations);
 
 router.post('/cognitive-load/:userId/calculate', IntelligenceController.calculateCognitiveLoad);
 router.get('/cognitive-load/:userId', IntelligenceController.getLatestCognitiveLoad);
 
+router.get('/usage/:userId', IntelligenceController.getUsage);
+router.get('/llm/structured-stats', IntelligenceController.getStructuredOutputStats);
+router.get('/llm/prompts', IntelligenceController.getPrompts);
+
 router.post('/record-activity', IntelligenceController.recordActivity);
 router.get('/daily-stats/:userId', IntelligenceController.getDailyStats);
 
@@ -0,0 +1,20 @@
+import { Router } from 'express';
+import { WebhookController } from '../controllers/webhook.controller';
+import { authMiddleware } from '../middleware/auth.middleware';
+
+const router = Router();
+
+// Public route, authenticated by the payload signature
+router.post('/inbound/:id', WebhookController.receive);
+
+// Protected routes
+router.use(authMiddleware as any);
+router.post('/', WebhookController.createWebhook);
+router.get('/', WebhookController.listWebhooks);
+router.get('/:id', WebhookController.getWebhook);
+router.put('/:id', WebhookController.updateWebhook);
+router.delete('/:id', WebhookController.deleteWebhook);
+router.post('/:id/rotate-secret', WebhookController.rotateSecret);
+router.get('/:id/deliveries', WebhookController.listDeliveries);
+
+export default router;
@@ -11,12 +11,18 @@ import workitemRoutes from './routes/workitem.routes';
 import intelligenceRoutes from './routes/intelligence.routes';
 import integrationRoutes from './routes/integration.routes';
 import teamRoutes from './routes/team.routes';
+import adminRoutes from './routes/admin.routes';
+import webhookRoutes from './routes/webhook.routes';
 import { authMiddleware } from './middleware/auth.middleware';
 
 import { connectDB } from './config/database';
+import { getSyncConfig } from './config/sync';
+import { SyncSchedulerService } from './services/sync-scheduler.service';
 
-// Connect to MongoDB
-connectDB();
+// Connect to MongoDB, then start syncing integrations in the background
+connectDB().then(() => {
+    if (getSyncConfig().enabled) SyncSchedulerService.start();
+});
 
 // Initialize Express app
 const app: Application = express();
@@ -27,7 +33,12 @@ app.use(cors({
     origin: true, // Allow any origin
     credentials: true
 }));
-app.use(express.json());
+app.use(express.json({
+    // Keep the raw body, inbound webhook signatures are computed over it
+    verify: (req, res, buf) => {
+        (req as any).rawBody = buf;
+    }
+}));
 app.use(express.urlencoded({ extended: true }));
 
 // Request logging middleware
@@ -51,8 +62,10 @@ app.use('/api/users', userRoutes);
 app.use('/api/threads', authMiddleware, threadRoutes);
 app.use('/api/items', authMiddleware, workitemRoutes);
 app.use('/api/intelligence', authMiddleware, intelligenceRoutes);
-app.use('/api/integrations', authMiddleware, integrationRoutes);
+app.use('/api/integrations', integrationRoutes);
 app.use('/api/teams', authMiddleware, teamRoutes);
+app.use('/api/admin', authMiddleware, adminRoutes);
+app.use('/api/webhooks', webhookRoutes);
 
 // 404 handler
 app.use((req: Request, res: Response) => {
@@ -0,0 +1,268 @@
+import mongoose from 'mongoose';
+import { ChatAction, ChatToolName } from '../types';
+import { ChatActionModel } from '../models/ChatAction';
+import { WorkThreadModel } from '../models/WorkThread';
+import { WorkItemModel } from '../models/WorkItem';
+import { WorkThreadService } from './thread.service';
+import { WorkItemService } from './workitem.service';
+import { IntegrationService } from './integration.service';
+import { RetrievalService } from './retrieval.service';
+
+interface ChatTool {
+    name: ChatToolName;
+    description: string;
+    parameters: Record<string, string>;
+    // Tools that change data are only proposed; they run after the user confirms them
+    mutating: boolean;
+    validate: (userId: string, args: Record<string, any>) => Promise<string | null>;
+    describe: (args: Record<string, any>) => string;
+    execute: (userId: string, args: Record<string, any>) => Promise<any>;
+}
+
+export interface ToolCall {
+    tool: string;
+    arguments: Record<string, any>;
+}
+
+const ownsThread = async (userId: string, threadId: any): Promise<boolean> =>
+    mongoose.isValidObjectId(threadId) && !!(await WorkThreadModel.exists({ _id: threadId, userId }));
+
+const ownsItem = async (userId: string, itemId: any): Promise<boolean> =>
+    mongoose.isValidObjectId(itemId) && !!(await WorkItemModel.exists({ _id: itemId, userId }));
+
+const TOOLS: ChatTool[] = [
+    {
+        name: 'search_work',
+        description: "Search the user's work items and threads",
+        parameters: { query: 'string (what to look for)' },
+        mutating: false,
+        validate: async (_userId, args) => (typeof args.query === 'string' && args.query.trim() ? null : 'query is required'),
+        describe: args => `Search for "${args.query}"`,
+        execute: async (userId, args) => {
+            const documents = await RetrievalService.search(userId, args.query, 5);
+            return documents.map(d => ({ kind: d.kind, id: d.id, title: d.title, source: d.source, text: d.text.slice(0, 200) }));
+        }
+    },
+    {
+        name: 'create_thread',
+        description: 'Create a new work thread',
+        parameters: { title: 'string', description: 'string (optional)', priority: '"high" | "medium" | "low" (optional)', deadline: 'ISO date (optional)' },
+        mutating: true,
+        validate: async (_userId, args) => {
+            if (typeof args.title !== 'string' || !args.title.trim()) return 'title is required';
+            if (args.priority && !['high', 'medium', 'low'].includes(args.priority)) return 'priority must be high, medium or low';
+            if (args.deadline && isNaN(new Date(args.deadline).getTime())) return 'deadline must be a valid date';
+            return null;
+        },
+        describe: args => `Create thread "${args.title}"${args.priority ? ` (${args.priority} priority)` : ''}`,
+        execute: async (userId, args) => WorkThreadService.createThread({
+            userId,
+            title: args.title.trim(),
+            description: args.description,
+            priority: args.priority || 'medium',
+            deadline: args.deadline ? new Date(args.deadline) : undefined,
+            itemIds: [],
+            progress: 0,
+            lastActivity: new Date()
+        })
+    },
+    {
+        name: 'update_thread_progress',
+        description: "Set a thread's progress percentage",
+        parameters: { threadId: 'string', progress: 'number 0-100' },
+        mutating: true,
+        validate: async (userId, args) => {
+            if (!(await ownsThread(userId, args.threadId))) return 'threadId does not match any of your threads';
+            if (typeof args.progress !== 'number' || args.progress < 0 || args.progress > 100) return 'progress must be a number from 0 to 100';
+            return null;
+        },
+        describe: args => `Set thread progress to ${args.progress}%`,
+        execute: async (_userId, args) => WorkThreadService.updateProgress(args.threadId, Math.round(args.progress))
+    },
+    {
+        name: 'set_thread_ignored',
+        description: 'Ignore or un-ignore a thread',
+        parameters: { threadId: 'string', isIgnored: 'boolean' },
+        mutating: true,
+        validate: async (userId, args) => {
+            if (!(await ownsThread(userId, args.threadId))) return 'threadId does not match any of your threads';
+            if (typeof args.isIgnored !== 'boolean') return 'isIgnored must be true or false';
+            return null;
+        },
+        describe: args => (args.isIgnored ? 'Ignore thread' : 'Stop ignoring thread'),
+        execute: async (_userId, args) => WorkThreadService.toggleIgnoreThread(args.threadId, args.isIgnored)
+    },
+    {
+        name: 'mark_item_read',
+        description: 'Mark a work item as read',
+        parameters: { itemId: 'string' },
+        mutating: true,
+        validate: async (userId, args) => ((await ownsItem(userId, args.itemId)) ? null : 'itemId does not match any of your items'),
+        describe: () => 'Mark item as read',
+        execute: async (_userId, args) => WorkItemService.markAsRead(args.itemId)
+    },
+    {
+        name: 'assign_item_to_thread',
+        description: 'Move a work item into a thread',
+        parameters: { itemId: 'string', threadId: 'string' },
+        mutating: true,
+        validate: async (userId, args) => {
+            if (!(await ownsItem(userId, args.itemId))) return 'itemId does not match any of your items';
+            if (!(await ownsThread(userId, args.threadId))) return 'threadId does not match any of your threads';
+            return null;
+        },
+        describe: () => 'Assign item to thread',
+        execute: async (_userId, args) => WorkItemService.assignToThread(args.itemId, args.threadId)
+    },
+    {
+        name: 'update_item_status',
+        description: "Change a work item's status",
+        parameters: { itemId: 'string', status: '"todo" | "in-progress" | "completed"' },
+        mutating: true,
+        validate: async (userId, args) => {
+            if (!(await ownsItem(userId, args.itemId))) return 'itemId does not match any of your items';
+            if (!['todo', 'in-progress', 'completed'].includes(args.status)) return 'status must be todo, in-progress or completed';
+            return null;
+        },
+        describe: args => `Mark item as ${args.status}`,
+        execute: async (_userId, args) => WorkItemService.updateItem(args.itemId, { status: args.status })
+    },
+    {
+        name: 'create_calendar_event',
+        description: 'Create a Google Calendar meeting',
+        parameters: { title: 'string', description: 'string (optional)', startTime: 'ISO date-time', endTime: 'ISO date-time', attendees: 'array of emails (optional)' },
+        mutating: true,
+        validate: async (_userId, args) => {
+            if (typeof args.title !== 'string' || !args.title.trim()) return 'title is required';
+            if (isNaN(new Date(args.startTime).getTime()) || isNaN(new Date(args.endTime).getTime())) return 'startTime and endTime must be valid dates';
+            if (new Date(args.endTime) <= new Date(args.startTime)) return 'endTime must be after startTime';
+            if (args.attendees !== undefined && !Array.isArray(args.attendees)) return 'attendees must be an array of emails';
+            return null;
+        },
+        describe: args => `Schedule "${args.title}" at ${new Date(args.startTime).toISOString()}`,
+        execute: async (userId, args) => ({
+            meetingLink: await IntegrationService.createCalendarEvent(userId, {
+                title: args.title,
+                description: args.description || '',
+                startTime: args.startTime,
+                endTime: args.endTime,
+                attendees: args.attendees || []
+            })
+        })
+    }
+];
+
+export class ChatActionService {
+    /**
+     * Describe the available tools for the system prompt
+     */
+    static describeTools(): string {
+        return TOOLS.map(t => {
+            const params = Object.entries(t.parameters).map(([name, type]) => `${name}: ${type}`).join(', ');
+            return `- ${t.name}(${params}): ${t.description}${t.mutating ? ' [requires user confirmation]' : ''}`;
+        }).join('\n');
+    }
+
+    /**
+     * Extract a tool call from a model reply, or null when the reply is a normal answer
+     */
+    static parseToolCall(text: string): ToolCall | null {
+        const fenced = text.match(/```(?:json|tool)?\s*(\{[\s\S]*?\})\s*```/);
+        const candidate = fenced ? fenced[1] : text.trim();
+        if (!candidate.startsWith('{') || !candidate.includes('"tool"')) return null;
+
+        try {
+            const parsed = JSON.parse(candidate);
+            if (typeof parsed.tool !== 'string') return null;
+            return { tool: parsed.tool, arguments: parsed.arguments && typeof parsed.arguments === 'object' ? parsed.arguments : {} };
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Handle a tool call from the model.
+     * Read-only tools run immediately; mutating tools are stored as pending actions for the user to confirm.
+     */
+    static async handleToolCall(userId: string, call: ToolCall, conversationId?: string): Promise<{ result?: any, action?: ChatAction, error?: string }> {
+        const tool = TOOLS.find(t => t.name === call.tool);
+        if (!tool) return { error: `Unknown tool "${call.tool}"` };
+
+        const validationError = await tool.validate(userId, call.arguments);
+        if (validationError) return { error: validationError };
+
+        if (!tool.mutating) {
+            return { result: await tool.execute(userId, call.arguments) };
+        }
+
+        const action = new ChatActionModel({
+            userId,
+            conversationId,
+            tool: tool.name,
+            arguments: call.arguments,
+            summary: tool.describe(call.arguments),
+            status: 'pending',
+            proposedAt: new Date()
+        });
+        await action.save();
+        return { action: action.toJSON() as unknown as ChatAction };
+    }
+
+    /**
+     * Get actions for a user, newest first
+     */
+    static async getUserActions(userId: string, status?: ChatAction['status']): Promise<ChatAction[]> {
+        const actions = await ChatActionModel.find({ userId, ...(status ? { status } : {}) }).sort({ proposedAt: -1 }).limit(100);
+        return actions.map(a => a.toJSON() as unknown as ChatAction);
+    }
+
+    /**
+     * Execute a pending action the user confirmed. The outcome is recorded on the action.
+     * The action is claimed atomically first, so confirming it twice at once runs the tool only once.
+     */
+    static async confirmAction(actionId: string, userId: string): Promise<ChatAction | null> {
+        if (!mongoose.isValidObjectId(actionId)) return null;
+        const action = await ChatActionModel.findOneAndUpdate(
+            { _id: actionId, userId, status: 'pending' },
+            { $set: { status: 'executing', decidedAt: new Date() } },
+            { new: true }
+        );
+        if (!action) return null;
+
+        const tool = TOOLS.find(t => t.name === action.tool)!;
+
+        // Re-validate: the referenced thread or item may have changed since the proposal
+        const validationError = await tool.validate(userId, action.arguments);
+        if (validationError) {
+            action.status = 'failed';
+            action.error = validationError;
+        } else {
+            try {
+                action.result = (await tool.execute(userId, action.arguments)) ?? null;
+                action.status = 'executed';
+                action.executedAt = new Date();
+            } catch (error: any) {
+                console.error(`Error executing chat action ${actionId}:`, error);
+                action.status = 'failed';
+                action.error = error.message;
+            }
+        }
+
+        await action.save();
+        console.log(`Chat action ${actionId} (${action.tool}) for user ${userId}: ${action.status}`);
+        return action.toJSON() as unknown as ChatAction;
+    }
+
+    /**
+     * Reject a pending action
+     */
+    static async rejectAction(actionId: string, userId: string): Promise<ChatAction | null> {
+        if (!mongoose.isValidObjectId(actionId)) return null;
+        const action = await ChatActionModel.findOneAndUpdate(
+            { _id: actionId, userId, status: 'pending' },
+            { status: 'rejected', decidedAt: new Date() },
+            { new: true }
+        );
+        return action ? (action.toJSON() as unknown as ChatAction) : null;
+    }
+}
@@ -0,0 +1,136 @@
+import mongoose from 'mongoose';
+import { CalendarFeedModel, ICalendarFeed } from '../models/CalendarFeed';
+import { UserModel } from '../models/User';
+import { WorkItemModel } from '../models/WorkItem';
+import { encryptSecret } from '../config/encryption';
+import { fetchIcsCalendar, getIcsWindow, ICS_FEED_UNREADABLE, IcsCalendar, normalizeIcsUrl, parseIcsCalendar } from '../connectors/ics';
+import { IntegrationService } from './integration.service';
+import { SyncSchedulerService } from './sync-scheduler.service';
+
+const MAX_FEEDS_PER_USER = 20;
+const MAX_NAME_LENGTH = 100;
+
+export interface CalendarFeedInput {
+    name?: string;
+    /** Subscription URL (http, https or webcal) */
+    url?: string;
+    /** Uploaded iCalendar file */
+    content?: string;
+}
+
+/**
+ * Calendars imported by the ICS connector. A feed is a subscribed URL or an uploaded file; adding or changing
+ * one checks that it parses and queues a sync of the `ics` integration, which is connected while there are feeds.
+ */
+export class CalendarFeedService {
+    static async listFeeds(userId: string): Promise<ICalendarFeed[]> {
+        return CalendarFeedModel.find({ userId }).sort({ createdAt: 1 });
+    }
+
+    static async addFeed(userId: string, input: CalendarFeedInput): Promise<{ feed: ICalendarFeed, jobId: string }> {
+        if (!input.url === !input.content) throw new Error('Provide either url or content');
+        if (await CalendarFeedModel.countDocuments({ userId }) >= MAX_FEEDS_PER_USER) {
+            throw new Error(`A user can have at most ${MAX_FEEDS_PER_USER} calendar feeds`);
+        }
+
+        const source = await this.readSource(input);
+        const feed = await CalendarFeedModel.create({
+            userId,
+            name: this.normalizeName(input.name) || source.calendar.name?.slice(0, MAX_NAME_LENGTH) || source.urlHost || 'Uploaded calendar',
+            url: source.url ? encryptSecret(source.url) : undefined,
+            urlHost: source.urlHost,
+            content: input.content,
+            eventCount: source.calendar.eventCount,
+            lastFetchedAt: source.url ? new Date() : undefined
+        });
+
+        await UserModel.updateOne({ _id: userId }, {
+            $set: { 'integrations.ics.connected': true, 'integrations.ics.status': 'connected' },
+            $unset: { 'integrations.ics.statusReason': '' }
+        });
+        return { feed, jobId: await this.queueSync(userId) };
+    }
+
+    /**
+     * Rename a feed, point a subscription at another URL or replace an uploaded file. A new URL or file
+     * is synced right away: its changed events are updated and the ones no longer in it removed.
+     */
+    static async updateFeed(userId: string, feedId: string, input: CalendarFeedInput): Promise<{ feed: ICalendarFeed, jobId?: string } | null> {
+        const feed = mongoose.isValidObjectId(feedId) ? await CalendarFeedModel.findOne({ _id: feedId, userId }) : null;
+        if (!feed) return null;
+        if (input.url && !feed.url) throw new Error('An uploaded calendar can only be replaced by another upload');
+        if (input.content && feed.url) throw new Error('A subscribed calendar can only be pointed at another url');
+
+        const name = this.normalizeName(input.name);
+        if (input.name !== undefined && !name) throw new Error('name must not be empty');
+        if (name) feed.name = name;
+
+        const changesEvents = !!(input.url || input.content);
+        if (changesEvents) {
+            const source = await this.readSource(input);
+            if (source.url) {
+                feed.url = encryptSecret(source.url);
+                feed.urlHost = source.urlHost;
+                feed.lastFetchedAt = new Date();
+            } else {
+                feed.content = input.content;
+            }
+            feed.eventCount = source.calendar.eventCount;
+            feed.lastError = undefined;
+        }
+        feed.updatedAt = new Date();
+        await feed.save();
+
+        return { feed, jobId: changesEvents ? await this.queueSync(userId) : undefined };
+    }
+
+    /**
+     * Delete a feed with its upcoming events; items of past events are kept like any imported history.
+     * Removing the last feed disconnects the integration.
+     */
+    static async removeFeed(userId: string, feedId: string): Promise<boolean> {
+        const feed = mongoose.isValidObjectId(feedId) ? await CalendarFeedModel.findOneAndDelete({ _id: feedId, userId }) : null;
+        if (!feed) return false;
+
+        const upcoming = await WorkItemModel.find({
+            userId,
+            type: 'calendar',
+            'metadata.icsFeedId': feedId,
+            timestamp: { $gte: getIcsWindow().start }
+        });
+        for (const item of upcoming) await IntegrationService.removeItem(item);
+
+        if (await CalendarFeedModel.countDocuments({ userId }) === 0) {
+            await IntegrationService.disconnect(userId, 'ics');
+        }
+        return true;
+    }
+
+    /**
+     * Fetch (for a subscription) and parse a feed, so one that can't be imported is rejected when it is added
+     */
+    private static async readSource(input: CalendarFeedInput): Promise<{ url?: string, urlHost?: string, calendar: IcsCalendar }> {
+        const window = getIcsWindow();
+        if (input.content !== undefined) {
+            return { calendar: parseIcsCalendar(input.content, window) };
+        }
+
+        const url = normalizeIcsUrl(input.url!);
+        try {
+            return { url, urlHost: new URL(url).host, calendar: parseIcsCalendar(await fetchIcsCalendar(url), window) };
+        } catch (error: any) {
+            // Details stay in the logs: they would tell the caller what the server can reach
+            console.error(`Calendar URL on ${new URL(url).host} could not be read:`, error.message);
+            throw new Error(ICS_FEED_UNREADABLE);
+        }
+    }
+
+    private static normalizeName(name?: string): string | undefined {
+        return name?.trim().slice(0, MAX_NAME_LENGTH) || undefined;
+    }
+
+    private static async queueSync(userId: string): Promise<string> {
+        const job = await SyncSchedulerService.enqueue(userId, 'ics', 'manual');
+        return (job._id as any).toString();
+    }
+}
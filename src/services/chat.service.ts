@@ -1,85 +1,230 @@
-import { model } from '../config/ollama';
+import { ChatMessage as LLMChatMessage, estimateTokens, getLLMProvider, trimToTokenBudget } from '../llm';
+import { ChatAction, ChatMessage, Citation } from '../types';
 import { WorkThreadService } from './thread.service';
 import { WorkItemService } from './workitem.service';
 import { InsightService } from './insight.service';
+import { ConversationService } from './conversation.service';
+import { RetrievalService, RetrievedDocument } from './retrieval.service';
+import { ChatActionService } from './action.service';
+import { renderPrompt } from '../prompts/registry';
+import { getGenerationOptions } from '../config/llm';
+
+type ChatHistory = { role: 'user' | 'model' | 'assistant', content: string }[];
+
+type ChatContext = NonNullable<ChatMessage['context']>;
+
+export type ChatStreamEvent =
+    | { type: 'citations', citations: Citation[] }
+    | { type: 'token', token: string };
+
+// Tokens kept free in the context window for the model's reply
+const RESPONSE_TOKEN_RESERVE = 1024;
+// Maximum model round-trips per user message when the model keeps calling tools
+const MAX_TOOL_ITERATIONS = 4;
+// Stored in place of an empty model reply, which a chat message can't hold
+const EMPTY_REPLY = "Sorry, I couldn't come up with an answer. Please try rephrasing your question.";
 
 export class ChatService {
     /**
      * Process a chat message from the user
      */
-    static async processChat(userId: string, message: string, history: { role: 'user' | 'model', content: string }[] = []) {
+    static async processChat(userId: string, message: string, history: ChatHistory = []): Promise<{ text: string, citations: Citation[], actions: ChatAction[] }> {
         try {
             console.log(`Processing chat for user: ${userId}`);
+            const { messages, context } = await this.buildMessages(userId, message, history, true);
+
+            console.log('Sending message to AI model...');
+            const { text, actions } = await this.runToolLoop(userId, messages);
+            console.log('AI response received successfully');
+            return { text, citations: context.citations || [], actions };
+        } catch (error: any) {
+            console.error('Error in ChatService:', error);
+            throw new Error(`Failed to process chat message: ${error.message}`);
+        }
+    }
 
-            // Fetch user context for the AI
-            let threads: any[] = [];
-            let insights: any[] = [];
+    /**
+     * Stream a chat response token by token, after announcing the citations it may reference.
+     * Aborting the signal (e.g. on client disconnect) stops the upstream model request.
+     */
+    static async *streamChat(userId: string, message: string, history: ChatHistory = [], signal?: AbortSignal): AsyncGenerator<ChatStreamEvent> {
+        console.log(`Streaming chat for user: ${userId}`);
+        const { messages, context } = await this.buildMessages(userId, message, history);
+        yield { type: 'citations', citations: context.citations || [] };
 
-            try {
-                threads = await WorkThreadService.getUserThreads(userId);
-                insights = await InsightService.getActiveInsights(userId);
-            } catch (ctxError) {
-                console.warn('Failed to fetch user context for chat, proceeding with empty context:', ctxError);
+        try {
+            for await (const token of getLLMProvider().chatStream(messages, { ...getGenerationOptions('chat'), signal })) {
+                yield { type: 'token', token };
             }
+        } catch (error: any) {
+            if (signal?.aborted) return;
+            console.error('Error in ChatService stream:', error);
+            throw new Error(`Failed to stream chat message: ${error.message}`);
+        }
+    }
 
-            const context = {
-                threads: threads.slice(0, 5).map(t => ({
-                    title: t.title,
-                    priority: t.priority,
-                    progress: t.progress,
-                    deadline: t.deadline
-                })),
-                insights: insights.slice(0, 5).map(i => ({
-                    title: i.title,
-                    description: i.description,
-                    severity: i.severity
-                }))
-            };
-
-            const systemPrompt = `You are Monocle AI, a powerful work intelligence assistant. 
-            You help users manage their work threads, insights, and productivity.
-            
-            USER CONTEXT:
-            - Recent Threads: ${JSON.stringify(context.threads)}
-            - Active Insights: ${JSON.stringify(context.insights)}
-            
-            GUIDELINES:
-            1. Be concise, professional, and helpful.
-            2. Use the provided context to answer questions about their work.
-            3. If a user asks about their progress, refer to their threads.
-            4. If a user is overloaded (high cognitive load), suggest focusing on one high-priority thread.
-            5. You can suggest creating new threads or marking items as complete.
-            
-            Respond in Markdown format. Keep responses under 200 words unless detail is requested.`;
-
-            const chatHistory = history.map(h => ({
-                role: h.role === 'user' ? 'user' : 'model',
-                parts: [{ text: h.content }]
-            }));
+    /**
+     * Continue a stored conversation: history is loaded server-side and both turns are persisted.
+     * The user's turn is only stored with the reply, so a failed request leaves the history as it was.
+     */
+    static async sendConversationMessage(userId: string, conversationId: string, message: string): Promise<{ userMessage: ChatMessage, reply: ChatMessage, actions: ChatAction[] }> {
+        try {
+            const history = await ConversationService.getMessages(conversationId);
+            const { messages, context } = await this.buildMessages(userId, message, history, true);
 
-            console.log('Sending message to AI model...');
-            const chat = model.startChat({
-                history: [
-                    {
-                        role: 'user',
-                        parts: [{ text: systemPrompt }]
-                    },
-                    {
-                        role: 'model',
-                        parts: [{ text: 'Understood. I am Monocle AI, ready to assist you with your work intelligence. How can I help you today?' }]
-                    },
-                    ...chatHistory
-                ],
+            const { text, actions } = await this.runToolLoop(userId, messages, conversationId);
+            const userMessage = await ConversationService.addMessage({ conversationId, userId, role: 'user', content: message });
+            const reply = await ConversationService.addMessage({
+                conversationId,
+                userId,
+                role: 'assistant',
+                content: text.trim() ? text : EMPTY_REPLY,
+                context,
+                actionIds: actions.map(a => a.id)
             });
-
-            const result = await chat.sendMessage(message);
-            const response = await result.response;
-            const text = response.text();
-            console.log('AI response received successfully');
-            return text;
+            return { userMessage, reply, actions };
         } catch (error: any) {
-            console.error('Error in ChatService:', error);
+            console.error('Error in ChatService conversation:', error);
             throw new Error(`Failed to process chat message: ${error.message}`);
         }
     }
+
+    /**
+     * Streaming variant of sendConversationMessage.
+     * Returns the stored assistant reply once the stream completes, or null if it was aborted, in which case neither turn is stored.
+     */
+    static async *streamConversationMessage(userId: string, conversationId: string, message: string, signal?: AbortSignal): AsyncGenerator<ChatStreamEvent, ChatMessage | null> {
+        const history = await ConversationService.getMessages(conversationId);
+        const { messages, context } = await this.buildMessages(userId, message, history);
+        yield { type: 'citations', citations: context.citations || [] };
+
+        let text = '';
+        try {
+            for await (const token of getLLMProvider().chatStream(messages, { ...getGenerationOptions('chat'), signal })) {
+                text += token;
+                yield { type: 'token', token };
+            }
+        } catch (error: any) {
+            if (signal?.aborted) return null;
+            console.error('Error in ChatService conversation stream:', error);
+            throw new Error(`Failed to stream chat message: ${error.message}`);
+        }
+
+        if (signal?.aborted) return null;
+        await ConversationService.addMessage({ conversationId, userId, role: 'user', content: message });
+        return ConversationService.addMessage({ conversationId, userId, role: 'assistant', content: text.trim() ? text : EMPTY_REPLY, context });
+    }
+
+    /**
+     * Call the model until it answers without a tool call.
+     * Read-only tool results are fed back to the model; data-changing tools become pending actions for the user to confirm.
+     */
+    private static async runToolLoop(userId: string, messages: LLMChatMessage[], conversationId?: string): Promise<{ text: string, actions: ChatAction[] }> {
+        const provider = getLLMProvider();
+        const actions: ChatAction[] = [];
+        const turn = [...messages];
+
+        for (let i = 0; i < MAX_TOOL_ITERATIONS; i++) {
+            const { text } = await provider.chat(turn, getGenerationOptions('chat'));
+            const call = ChatActionService.parseToolCall(text);
+            if (!call) return { text, actions };
+
+            console.log(`Chat tool call for user ${userId}: ${call.tool}`);
+            const outcome = await ChatActionService.handleToolCall(userId, call, conversationId);
+            let toolResult: string;
+            if (outcome.error) {
+                toolResult = `ERROR: ${outcome.error}`;
+            } else if (outcome.action) {
+                actions.push(outcome.action);
+                toolResult = `Proposed "${outcome.action.summary}". It is waiting for the user to confirm it in the UI; tell them what you proposed.`;
+            } else {
+                toolResult = JSON.stringify(outcome.result);
+            }
+
+            turn.push({ role: 'assistant', content: text });
+            turn.push({ role: 'user', content: `TOOL RESULT (${call.tool}): ${toolResult}` });
+        }
+
+        const fallback = actions.length > 0
+            ? `I've proposed ${actions.length} action(s) for you to confirm.`
+            : "Sorry, I couldn't complete that request.";
+        return { text: fallback, actions };
+    }
+
+    /**
+     * Build the role-separated prompt with the user's work context and the items relevant to the message.
+     * History is trimmed from the oldest end so the prompt fits the model's context window.
+     */
+    private static async buildMessages(userId: string, message: string, history: ChatHistory, withTools: boolean = false): Promise<{ messages: LLMChatMessage[], context: ChatContext }> {
+        // Fetch user context for the AI
+        let threads: any[] = [];
+        let insights: any[] = [];
+        let relevant: RetrievedDocument[] = [];
+
+        try {
+            threads = await WorkThreadService.getUserThreads(userId);
+            insights = await InsightService.getActiveInsights(userId);
+        } catch (ctxError) {
+            console.warn('Failed to fetch user context for chat, proceeding with empty context:', ctxError);
+        }
+
+        try {
+            relevant = await RetrievalService.search(userId, message);
+        } catch (searchError) {
+            console.warn('Failed to retrieve relevant items for chat, proceeding without them:', searchError);
+        }
+
+        const context = {
+            threads: threads.slice(0, 5).map(t => ({
+                id: t.id,
+                title: t.title,
+                priority: t.priority,
+                progress: t.progress,
+                deadline: t.deadline
+            })),
+            insights: insights.slice(0, 5).map(i => ({
+                title: i.title,
+                description: i.description,
+                severity: i.severity
+            }))
+        };
+
+        const systemPrompt = renderPrompt('chat-system', {
+            threads: JSON.stringify(context.threads),
+            insights: JSON.stringify(context.insights),
+            relevantItems: RetrievalService.formatForPrompt(relevant) || 'None found.',
+            actionGuideline: withTools
+                ? 'You can create threads, update them and mark items as read or complete with the tools below.'
+                : 'You can suggest creating new threads or marking items as complete.',
+            tools: withTools ? `
+            TOOLS:
+            ${ChatActionService.describeTools()}
+            To use a tool, reply with ONLY a JSON object and nothing else: {"tool": "<name>", "arguments": {...}}
+            Use the ids from the context above. The result comes back as a "TOOL RESULT" message.
+            ` : ''
+        }).text;
+
+        const contextTokens = getGenerationOptions('chat').contextTokens ?? getLLMProvider().contextWindow;
+        const budget = contextTokens - RESPONSE_TOKEN_RESERVE - estimateTokens(systemPrompt) - estimateTokens(message);
+        const trimmedHistory = trimToTokenBudget(history, Math.max(0, budget));
+        if (trimmedHistory.length < history.length) {
+            console.log(`Trimmed chat history from ${history.length} to ${trimmedHistory.length} messages to fit the context window`);
+        }
+
+        return {
+            messages: [
+                { role: 'system', content: systemPrompt },
+                ...trimmedHistory.map(h => ({
+                    role: h.role === 'user' ? 'user' as const : 'assistant' as const,
+                    content: h.content
+                })),
+                { role: 'user', content: message }
+            ],
+            context: {
+                threadIds: threads.slice(0, 5).map(t => t.id),
+                insightIds: insights.slice(0, 5).map(i => i.id),
+                citations: RetrievalService.toCitations(relevant)
+            }
+        };
+    }
 }
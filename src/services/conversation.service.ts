@@ -0,0 +1,98 @@
+import mongoose from 'mongoose';
+import { ChatMessage, Conversation } from '../types';
+import { ConversationModel } from '../models/Conversation';
+import { ChatMessageModel } from '../models/ChatMessage';
+
+const DEFAULT_TITLE = 'New conversation';
+
+export class ConversationService {
+    /**
+     * List a user's conversations, most recently active first
+     */
+    static async listConversations(userId: string): Promise<Conversation[]> {
+        const conversations = await ConversationModel.find({ userId }).sort({ updatedAt: -1 });
+        return conversations.map(c => c.toJSON() as unknown as Conversation);
+    }
+
+    /**
+     * Create a new conversation
+     */
+    static async createConversation(userId: string, title?: string): Promise<Conversation> {
+        const now = new Date();
+        const conversation = new ConversationModel({
+            userId,
+            title: title?.trim() || DEFAULT_TITLE,
+            messageCount: 0,
+            createdAt: now,
+            updatedAt: now
+        });
+
+        await conversation.save();
+        return conversation.toJSON() as unknown as Conversation;
+    }
+
+    /**
+     * Get a conversation owned by the user, or null
+     */
+    static async getConversation(conversationId: string, userId: string): Promise<Conversation | null> {
+        if (!mongoose.isValidObjectId(conversationId)) return null;
+        const conversation = await ConversationModel.findOne({ _id: conversationId, userId });
+        return conversation ? (conversation.toJSON() as unknown as Conversation) : null;
+    }
+
+    /**
+     * Rename a conversation
+     */
+    static async renameConversation(conversationId: string, userId: string, title: string): Promise<Conversation | null> {
+        if (!mongoose.isValidObjectId(conversationId)) return null;
+        const conversation = await ConversationModel.findOneAndUpdate(
+            { _id: conversationId, userId },
+            { title: title.trim() || DEFAULT_TITLE, updatedAt: new Date() },
+            { new: true }
+        );
+        return conversation ? (conversation.toJSON() as unknown as Conversation) : null;
+    }
+
+    /**
+     * Delete a conversation and all of its messages
+     */
+    static async deleteConversation(conversationId: string, userId: string): Promise<boolean> {
+        if (!mongoose.isValidObjectId(conversationId)) return false;
+        const conversation = await ConversationModel.findOneAndDelete({ _id: conversationId, userId });
+        if (!conversation) return false;
+
+        await ChatMessageModel.deleteMany({ conversationId });
+        return true;
+    }
+
+    /**
+     * Get the messages of a conversation in chronological order; messages saved in the same millisecond keep their insertion order
+     */
+    static async getMessages(conversationId: string): Promise<ChatMessage[]> {
+        const messages = await ChatMessageModel.find({ conversationId }).sort({ createdAt: 1, _id: 1 });
+        return messages.map(m => m.toJSON() as unknown as ChatMessage);
+    }
+
+    /**
+     * Append a message and bump the conversation's activity.
+     * The first user message names conversations that still have the default title.
+     */
+    static async addMessage(message: Omit<ChatMessage, 'id' | 'createdAt'>): Promise<ChatMessage> {
+        const now = new Date();
+        const newMessage = new ChatMessageModel({ ...message, createdAt: now });
+        await newMessage.save();
+
+        const conversation = await ConversationModel.findById(message.conversationId);
+        if (conversation) {
+            if (message.role === 'user' && conversation.messageCount === 0 && conversation.title === DEFAULT_TITLE) {
+                conversation.title = message.content.length > 60 ? `${message.content.slice(0, 57)}...` : message.content;
+            }
+            conversation.messageCount += 1;
+            conversation.lastMessageAt = now;
+            conversation.updatedAt = now;
+            await conversation.save();
+        }
+
+        return newMessage.toJSON() as unknown as ChatMessage;
+    }
+}
@@ -0,0 +1,214 @@
+import { google } from 'googleapis';
+import { OAuth2Client } from 'google-auth-library';
+import { UserModel } from '../models/User';
+import { encryptSecret } from '../config/encryption';
+
+export type OAuthProvider = 'google' | 'microsoft';
+
+// Integrations that can end up in the needs-reauth state (the others use a user provided key, token or password rather than OAuth)
+export type IntegrationProvider = OAuthProvider | 'notion' | 'github' | 'jira' | 'linear' | 'imap' | 'ics';
+
+/**
+ * Decrypted OAuth tokens for one integration. Refreshing updates the object in place.
+ */
+export interface OAuthCredentials {
+    accessToken?: string;
+    refreshToken?: string;
+    expiresAt?: Date;
+}
+
+export const PROVIDER_LABELS: Record<IntegrationProvider, string> = { google: 'Google', microsoft: 'Microsoft', notion: 'Notion', github: 'GitHub', jira: 'Jira', linear: 'Linear', imap: 'IMAP mail', ics: 'ICS calendars' };
+
+// Refresh a little before expiry so a token doesn't run out mid-sync
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+/**
+ * Thrown when an integration's tokens can't be used or refreshed and the user has to reconnect
+ */
+export class ReauthRequiredError extends Error {
+    constructor(readonly provider: IntegrationProvider, message: string) {
+        super(message);
+        this.name = 'ReauthRequiredError';
+    }
+}
+
+export class CredentialService {
+    /**
+     * Google OAuth client for a user. Expired access tokens are refreshed first,
+     * and any token Google rotates (here or during later API calls) is saved back to the user.
+     */
+    static async getGoogleClient(userId: string, credentials: OAuthCredentials, overrideAccessToken?: string): Promise<OAuth2Client> {
+        const accessToken = overrideAccessToken || credentials.accessToken;
+
+        if (!accessToken && !credentials.refreshToken) {
+            throw new ReauthRequiredError('google', 'Google integration not connected');
+        }
+
+        const client = new google.auth.OAuth2(
+            process.env.GOOGLE_CLIENT_ID,
+            process.env.GOOGLE_CLIENT_SECRET
+        );
+        client.setCredentials({
+            access_token: accessToken,
+            refresh_token: credentials.refreshToken,
+            // A token passed in by the client has an unknown expiry, so let the API tell us
+            expiry_date: overrideAccessToken ? undefined : credentials.expiresAt?.getTime()
+        });
+
+        client.on('tokens', tokens => {
+            this.saveTokens(userId, 'google', {
+                accessToken: tokens.access_token || undefined,
+                refreshToken: tokens.refresh_token || undefined,
+                expiresAt: tokens.expiry_date ? new Date(tokens.expiry_date) : undefined
+            }).catch(error => console.error('Failed to save refreshed Google tokens:', error.message));
+        });
+
+        if (!overrideAccessToken && this.isExpiring(credentials.expiresAt, accessToken)) {
+            if (!credentials.refreshToken) {
+                await this.markNeedsReauth(userId, 'google', 'Access token expired and no refresh token is stored');
+                throw new ReauthRequiredError('google', 'Google authentication expired. Please reconnect your account.');
+            }
+            try {
+                await client.getAccessToken();
+            } catch (error: any) {
+                await this.markNeedsReauth(userId, 'google', `Token refresh failed: ${this.describeError(error)}`);
+                throw new ReauthRequiredError('google', 'Google authentication expired. Please reconnect your account.');
+            }
+        }
+
+        return client;
+    }
+
+    /**
+     * Valid Microsoft Graph access token for a user, refreshed when it is about to expire
+     */
+    static async getMicrosoftAccessToken(userId: string, credentials: OAuthCredentials, overrideAccessToken?: string): Promise<string> {
+        if (overrideAccessToken) return overrideAccessToken;
+
+        if (!credentials.accessToken && !credentials.refreshToken) {
+            throw new ReauthRequiredError('microsoft', 'Microsoft integration not connected');
+        }
+
+        if (credentials.refreshToken && this.isExpiring(credentials.expiresAt, credentials.accessToken)) {
+            return this.refreshMicrosoftToken(userId, credentials);
+        }
+        return credentials.accessToken!;
+    }
+
+    /**
+     * Call Microsoft Graph as the user. A 401 triggers one token refresh and retry;
+     * if that fails the integration is marked as needing re-authentication.
+     */
+    static async microsoftFetch(userId: string, credentials: OAuthCredentials, url: string, init: RequestInit = {}, overrideAccessToken?: string): Promise<Response> {
+        const send = (token: string) => fetch(url, {
+            ...init,
+            headers: {
+                'Content-Type': 'application/json',
+                ...init.headers,
+                'Authorization': `Bearer ${token}`
+            }
+        });
+
+        const response = await send(await this.getMicrosoftAccessToken(userId, credentials, overrideAccessToken));
+        if (response.status !== 401) return response;
+
+        if (!credentials.refreshToken) {
+            await this.markNeedsReauth(userId, 'microsoft', 'Access token rejected and no refresh token is stored');
+            throw new ReauthRequiredError('microsoft', 'Microsoft authentication expired. Please reconnect your account.');
+        }
+
+        const retried = await send(await this.refreshMicrosoftToken(userId, credentials));
+        if (retried.status === 401) {
+            await this.markNeedsReauth(userId, 'microsoft', 'Refreshed access token was rejected');
+            throw new ReauthRequiredError('microsoft', 'Microsoft authentication expired. Please reconnect your account.');
+        }
+        return retried;
+    }
+
+    /**
+     * Turn provider auth failures raised mid-call into a needs-reauth state.
+     * Rethrows as ReauthRequiredError for auth failures and returns for anything else.
+     */
+    static async checkAuthError(userId: string, provider: IntegrationProvider, error: any): Promise<void> {
+        if (error instanceof ReauthRequiredError) throw error;
+
+        const description = this.describeError(error);
+        const status = error.response?.status ?? error.code;
+        const isAuthError = status === 401 || /invalid_grant|No refresh token|invalid_token/i.test(description);
+        if (!isAuthError) return;
+
+        await this.markNeedsReauth(userId, provider, description);
+        throw new ReauthRequiredError(provider, `${PROVIDER_LABELS[provider]} authentication expired. Please reconnect your account.`);
+    }
+
+    /**
+     * Save rotated tokens (encrypted) and clear any needs-reauth state
+     */
+    static async saveTokens(userId: string, provider: OAuthProvider, tokens: { accessToken?: string, refreshToken?: string, expiresAt?: Date }): Promise<void> {
+        const set: Record<string, any> = { [`integrations.${provider}.status`]: 'connected' };
+        if (tokens.accessToken) set[`integrations.${provider}.accessToken`] = encryptSecret(tokens.accessToken);
+        if (tokens.refreshToken) set[`integrations.${provider}.refreshToken`] = encryptSecret(tokens.refreshToken);
+        if (tokens.expiresAt) set[`integrations.${provider}.expiresAt`] = tokens.expiresAt;
+
+        await UserModel.updateOne({ _id: userId }, {
+            $set: set,
+            $unset: { [`integrations.${provider}.statusReason`]: '' }
+        });
+    }
+
+    static async markNeedsReauth(userId: string, provider: IntegrationProvider, reason: string): Promise<void> {
+        console.warn(`${provider} integration for user ${userId} needs re-authentication: ${reason}`);
+        await UserModel.updateOne({ _id: userId }, {
+            $set: {
+                [`integrations.${provider}.status`]: 'needs-reauth',
+                [`integrations.${provider}.statusReason`]: reason
+            }
+        });
+    }
+
+    private static async refreshMicrosoftToken(userId: string, credentials: OAuthCredentials): Promise<string> {
+        const tenant = process.env.MICROSOFT_TENANT_ID || 'common';
+
+        const response = await fetch(`https://login.microsoftonline.com/${tenant}/oauth2/v2.0/token`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+            body: new URLSearchParams({
+                client_id: process.env.MICROSOFT_CLIENT_ID || '',
+                ...(process.env.MICROSOFT_CLIENT_SECRET ? { client_secret: process.env.MICROSOFT_CLIENT_SECRET } : {}),
+                grant_type: 'refresh_token',
+                refresh_token: credentials.refreshToken!,
+                scope: process.env.MICROSOFT_SCOPES || 'offline_access User.Read Chat.Read Calendars.ReadWrite'
+            })
+        });
+
+        const data: any = await response.json().catch(() => ({}));
+        if (!response.ok || !data.access_token) {
+            const reason = data.error_description || data.error || `HTTP ${response.status}`;
+            await this.markNeedsReauth(userId, 'microsoft', `Token refresh failed: ${reason}`);
+            throw new ReauthRequiredError('microsoft', 'Microsoft authentication expired. Please reconnect your account.');
+        }
+
+        const tokens = {
+            accessToken: data.access_token as string,
+            // Microsoft rotates refresh tokens; keep the old one if a new one isn't issued
+            refreshToken: data.refresh_token || credentials.refreshToken,
+            expiresAt: new Date(Date.now() + (data.expires_in || 3600) * 1000)
+        };
+        await this.saveTokens(userId, 'microsoft', tokens);
+
+        // Keep the caller's credentials in step for the rest of this request
+        Object.assign(credentials, tokens);
+
+        return tokens.accessToken;
+    }
+
+    private static isExpiring(expiresAt: Date | undefined, accessToken: string | undefined): boolean {
+        if (!accessToken) return true;
+        return !!expiresAt && new Date(expiresAt).getTime() - Date.now() < REFRESH_MARGIN_MS;
+    }
+
+    private static describeError(error: any): string {
+        const data = error.response?.data;
+        return data?.error_description || (typeof data?.error === 'string' ? data.error : data?.error?.message) || error.message;
+    }
+}
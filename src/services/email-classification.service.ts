@@ -0,0 +1,27 @@
+import { generateStructured } from '../llm';
+import { renderPrompt } from '../prompts/registry';
+import { getGenerationOptions } from '../config/llm';
+
+export type EmailClassification = { isWork: boolean, priority: 'high' | 'medium' | 'low', reason?: string, promptVersion?: string };
+
+const EMAIL_CLASSIFICATION_TTL_MS = 24 * 60 * 60 * 1000;
+
+export class EmailClassificationService {
+    /**
+     * Classify if an email is work-related and assign priority
+     */
+    static async classifyAndPrioritizeEmail(subject: string, from: string, snippet: string, promptVersion?: string): Promise<EmailClassification | null> {
+        const prompt = renderPrompt('email-classification', { subject, from, snippet }, promptVersion);
+
+        const { data, source } = await generateStructured<EmailClassification>({
+            name: prompt.id,
+            prompt: prompt.text,
+            schema: prompt.schema!,
+            options: getGenerationOptions('email-classification'),
+            fallback: () => ({ isWork: true, priority: 'medium' }),
+            // Skipped (non-work) mail is re-listed on every sync, so keep classifications for a day
+            cache: { ttlMs: EMAIL_CLASSIFICATION_TTL_MS }
+        });
+        return { ...data, promptVersion: source === 'fallback' ? undefined : prompt.id };
+    }
+}
@@ -1,8 +1,12 @@
-import { model } from '../config/ollama';
-import { WorkInsight } from '../types';
+import { generateStructured } from '../llm';
+import { renderPrompt } from '../prompts/registry';
+import { getGenerationOptions } from '../config/llm';
+import { WorkInsight, WorkThread } from '../types';
 import { WorkThreadService } from './thread.service';
 import { WorkInsightModel } from '../models/WorkInsight';
 
+type AIInsight = Pick<WorkInsight, 'type' | 'title' | 'description' | 'severity' | 'actionSuggestion'>;
+
 export class InsightService {
     /**
      * Generate insights for a user using AI
@@ -61,35 +65,11 @@ export class InsightService {
             }
         }
 
-        // Use Ollama AI for additional insights
+        // Use the configured LLM for additional insights
         try {
-            const threadsContext = threads.map(t => ({
-                title: t.title,
-                priority: t.priority,
-                progress: t.progress,
-                deadline: t.deadline instanceof Date ? t.deadline.toISOString() : t.deadline,
-            }));
-
-            const prompt = `Analyze these work threads and provide ONE actionable insight about work patterns or productivity:
-${JSON.stringify(threadsContext, null, 2)}
-
-Respond in JSON format:
-{
-  "type": "attention-leak" | "overload" | "momentum-drift",
-  "title": "Brief title",
-  "description": "Detailed description",
-  "severity": "info" | "warning" | "critical",
-  "actionSuggestion": "Specific action to take"
-}`;
-
-            const result = await model.generateContent(prompt);
-            const response = await result.response;
-            const text = response.text();
-
-            // Parse JSON from response
-            const jsonMatch = text.match(/\{[\s\S]*\}/);
-            if (jsonMatch) {
-                const aiInsight = JSON.parse(jsonMatch[0]);
+            const { insight: aiInsight, promptVersion } = await this.generateAIInsight(threads);
+
+            if (aiInsight) {
                 const insight = await this.createInsight({
                     userId,
                     type: aiInsight.type,
@@ -99,7 +79,8 @@ Respond in JSON format:
                     actionSuggestion: aiInsight.actionSuggestion,
                     detectedAt: new Date(),
                     isActive: true,
-                    isDismissed: false
+                    isDismissed: false,
+                    promptVersion
                 });
                 insights.push(insight);
             }
@@ -110,6 +91,31 @@ Respond in JSON format:
         return insights;
     }
 
+    /**
+     * Ask the model for one pattern-level insight about the threads.
+     * The rule-based insights are the fallback, so an unusable reply yields null.
+     */
+    static async generateAIInsight(threads: WorkThread[], promptVersion?: string): Promise<{ insight: AIInsight | null, promptVersion?: string }> {
+        const threadsContext = threads.map(t => ({
+            title: t.title,
+            priority: t.priority,
+            progress: t.progress,
+            deadline: t.deadline instanceof Date ? t.deadline.toISOString() : t.deadline,
+        }));
+
+        const prompt = renderPrompt('work-insight', { threads: JSON.stringify(threadsContext, null, 2) }, promptVersion);
+        const { data } = await generateStructured<AIInsight | null>({
+            name: prompt.id,
+            prompt: prompt.text,
+            schema: prompt.schema!,
+            options: getGenerationOptions('work-insight'),
+            fallback: () => null,
+            cache: { tags: threads.map(t => `thread:${t.id}`) }
+        });
+
+        return { insight: data, promptVersion: data ? prompt.id : undefined };
+    }
+
     /**
      * Create a new insight
      */
@@ -168,38 +174,33 @@ Respond in JSON format:
         // To be better, we should fetch items from WorkItemService here
         // But to keep it simple and avoid circular deps if they exist
 
-        try {
-            const context = {
-                title: thread.title,
-                description: thread.description,
-                priority: thread.priority,
-                progress: thread.progress,
-            };
-
-            const prompt = `Analyze this work thread and provide a concise summary and 3 prioritized next steps:
-${JSON.stringify(context, null, 2)}
-
-Respond ONLY in JSON format:
-{
-  "summary": "Consolidated summary of progress and state",
-  "nextSteps": ["Step 1", "Step 2", "Step 3"]
-}`;
-
-            const result = await model.generateContent(prompt);
-            const response = await result.response;
-            const text = response.text();
-
-            const jsonMatch = text.match(/\{[\s\S]*\}/);
-            if (jsonMatch) {
-                return JSON.parse(jsonMatch[0]);
-            }
-            throw new Error('Could not parse AI response');
-        } catch (error) {
-            console.error('Error generating thread summary:', error);
-            return {
+        return this.summarizeThread(thread);
+    }
+
+    /**
+     * Summarize a thread with the model, falling back to a templated summary
+     */
+    static async summarizeThread(thread: WorkThread, promptVersion?: string): Promise<{ summary: string, nextSteps: string[] }> {
+        const context = {
+            title: thread.title,
+            description: thread.description,
+            priority: thread.priority,
+            progress: thread.progress,
+        };
+
+        const prompt = renderPrompt('thread-summary', { thread: JSON.stringify(context, null, 2) }, promptVersion);
+
+        const { data } = await generateStructured<{ summary: string, nextSteps: string[] }>({
+            name: prompt.id,
+            prompt: prompt.text,
+            schema: prompt.schema!,
+            options: getGenerationOptions('thread-summary'),
+            fallback: () => ({
                 summary: `This is a ${thread.priority} priority thread about ${thread.title}. Current progress is ${thread.progress}%.`,
                 nextSteps: ["Review pending items", "Update progress", "Set next deadline"]
-            };
-        }
+            }),
+            cache: { tags: [`thread:${thread.id}`] }
+        });
+        return data;
     }
 }
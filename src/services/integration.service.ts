@@ -1,13 +1,61 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
 import { google } from 'googleapis';
-import { OAuth2Client } from 'google-auth-library';
-import { UserModel } from '../models/User';
+import { IUser, UserModel } from '../models/User';
 import { WorkItemService } from './workitem.service';
-import { WorkItemModel } from '../models/WorkItem';
+import { CredentialService, IntegrationProvider, ReauthRequiredError } from './credential.service';
+import { decryptSecret, encryptSecret } from '../config/encryption';
+import { IWorkItem, WorkItemModel } from '../models/WorkItem';
 import { WorkThreadModel } from '../models/WorkThread';
-import { model } from '../config/ollama';
+import { SyncCursorModel } from '../models/SyncCursor';
+import { SyncRunCursor, SyncRunModel } from '../models/SyncRun';
+import { WriteBackModel, WriteBackOutcome } from '../models/WriteBack';
+import { CalendarFeedModel } from '../models/CalendarFeed';
+import { IWebhook } from '../models/Webhook';
+import {
+    Connector,
+    ConnectorContext,
+    ConnectorCredentials,
+    ConnectorSyncResult,
+    CursorExpiredError,
+    getConnector,
+    getConnectors,
+    getIntegrationProviders,
+    getItemConnector,
+    ItemChange,
+    SyncStream,
+    ThreadRoute,
+    WriteBackChanges
+} from '../connectors';
+import { ConnectorHealth, IntegrationHealth, WorkItem } from '../types';
+import { NOTION_PAGE_SIZE, normalizeNotionId, notionJson, notionRequest, richTextToPlain } from '../connectors/notion';
+import { githubRequest, toGitHubComment, toGitHubIssue, toGitHubPull } from '../connectors/github';
+import { jiraRequest, normalizeJiraSiteUrl } from '../connectors/jira';
+import { linearRequest } from '../connectors/linear';
+import { createImapClient, IMAP_MAILBOX, ImapSettings } from '../connectors/imap';
+import { IssueTrackerSettings, parseTrackerSettings } from '../connectors/issue-tracker';
+import { WebhookRequestError, WebhookService } from './webhook.service';
+
+const DEFAULT_STREAM: SyncStream = { id: 'default' };
+const MAX_REPORTED_ERRORS = 20;
+
+type ThreadUpdate = { itemIds: Set<string>, people: Set<string>, lastActivity?: Date, highPriority: boolean };
 
 export class IntegrationService {
-    private static async getOrCreateExternalThread(userId: string): Promise<string> {
+    /** Lookups in flight, so connectors syncing side by side don't each create the thread */
+    private static externalThreadLookups = new Map<string, Promise<string>>();
+
+    private static getOrCreateExternalThread(userId: string): Promise<string> {
+        let lookup = this.externalThreadLookups.get(userId);
+        if (!lookup) {
+            lookup = this.findOrCreateExternalThread(userId)
+                .finally(() => this.externalThreadLookups.delete(userId));
+            this.externalThreadLookups.set(userId, lookup);
+        }
+        return lookup;
+    }
+
+    private static async findOrCreateExternalThread(userId: string): Promise<string> {
         let thread = await WorkThreadModel.findOne({ userId, title: 'External Imports' });
         if (!thread) {
             thread = new WorkThreadModel({
@@ -24,393 +72,804 @@ export class IntegrationService {
         return (thread._id as any).toString();
     }
 
-    private static createOAuthClient(accessToken: string, refreshToken?: string): OAuth2Client {
-        const client = new google.auth.OAuth2(
-            process.env.GOOGLE_CLIENT_ID,
-            process.env.GOOGLE_CLIENT_SECRET
+    /**
+     * Thread that mirrors a conversation in a source system, created on first use
+     */
+    private static async getOrCreateSourceThread(userId: string, route: ThreadRoute): Promise<string> {
+        const thread = await WorkThreadModel.findOneAndUpdate(
+            { userId, externalId: route.externalId },
+            {
+                $setOnInsert: {
+                    userId,
+                    externalId: route.externalId,
+                    title: route.title,
+                    description: route.description,
+                    priority: 'medium',
+                    progress: 0,
+                    lastActivity: new Date(),
+                    itemIds: []
+                }
+            },
+            { upsert: true, new: true }
         );
-        client.setCredentials({
-            access_token: accessToken,
-            refresh_token: refreshToken
+        return (thread._id as any).toString();
+    }
+
+    /**
+     * Decrypt an integration's stored tokens, API key, password or calendar feed URLs. This is the only place integration secrets are decrypted.
+     */
+    private static async getCredentials(user: IUser, provider: IntegrationProvider): Promise<ConnectorCredentials> {
+        if (provider === 'imap') {
+            return { password: decryptSecret(user.integrations?.imap?.password) };
+        }
+        if (provider === 'ics') {
+            // Subscription URLs are kept (encrypted) on each feed, see CalendarFeedModel
+            const feeds = await CalendarFeedModel.find({ userId: (user._id as any).toString(), url: { $exists: true } }).select('url');
+            return { feedUrls: Object.fromEntries(feeds.map(feed => [(feed._id as any).toString(), decryptSecret(feed.url)!])) };
+        }
+        if (provider !== 'google' && provider !== 'microsoft') {
+            return { apiKey: decryptSecret(user.integrations?.[provider]?.apiKey) };
+        }
+
+        const integration = user.integrations?.[provider];
+        return {
+            accessToken: decryptSecret(integration?.accessToken),
+            refreshToken: decryptSecret(integration?.refreshToken),
+            expiresAt: integration?.expiresAt
+        };
+    }
+
+    /**
+     * Run every connector of a provider side by side, so a slow source (e.g. a large mailbox) doesn't hold up
+     * the others. Counts are keyed by each connector's `countKey` (e.g. `emailsSynced`), next to the per-connector results.
+     */
+    static async syncProvider(userId: string, provider: IntegrationProvider, overrideAccessToken?: string): Promise<{ counts: Record<string, number>, results: ConnectorSyncResult[] }> {
+        const connectors = getConnectors(provider);
+        const settled = await Promise.allSettled(connectors.map(connector => this.runConnector(userId, connector, overrideAccessToken)));
+
+        // Expired credentials fail the whole provider, like they did when connectors ran one after another
+        const rejected = settled.find((outcome): outcome is PromiseRejectedResult => outcome.status === 'rejected');
+        if (rejected) throw rejected.reason;
+
+        const counts: Record<string, number> = {};
+        const results = settled.map(outcome => (outcome as PromiseFulfilledResult<ConnectorSyncResult>).value);
+        results.forEach((result, index) => {
+            const { countKey } = connectors[index];
+            counts[countKey] = (counts[countKey] || 0) + result.created + result.updated + result.removed;
         });
-        return client;
+
+        return { counts, results };
     }
 
     /**
-     * Internal method to classify if an email is work-related and assign priority
+     * Sync one connector for a user: every stream is read page by page from its saved cursor,
+     * each record is turned into a change and applied, and the new cursor is saved.
+     * Failures are captured in the result, except expired credentials, which throw ReauthRequiredError.
+     * Every run is recorded in `syncruns`.
      */
-    private static async classifyAndPrioritizeEmail(subject: string, from: string, snippet: string): Promise<{ isWork: boolean, priority: 'high' | 'medium' | 'low', reason?: string } | null> {
+    static async runConnector(userId: string, connector: Connector, overrideAccessToken?: string): Promise<ConnectorSyncResult> {
+        const result: ConnectorSyncResult = { connector: connector.id, fetched: 0, created: 0, updated: 0, removed: 0, skipped: 0, errors: [] };
+
+        const user = await UserModel.findById(userId);
+        if (!user || !connector.isConnected(user, overrideAccessToken)) return result;
+
+        const context: ConnectorContext = {
+            userId,
+            user,
+            credentials: await this.getCredentials(user, connector.provider),
+            overrideAccessToken,
+            state: {}
+        };
+        const startedAt = new Date();
+        const cursors: SyncRunCursor[] = [];
+        let needsReauth = false;
+
         try {
-            const prompt = `Analyze this email and determine if it is "Work-related" or "Personal/Newsletter".
-If it is Work-related, assign a priority: "high", "medium", or "low".
-Work-related means: projects, client communication, team updates, meeting invites, urgent requests, technical issues.
-Non-work means: social media notifications, generic newsletters, advertisements, personal chat, receipts (unless business), spam.
-
-Email Subject: ${subject}
-From: ${from}
-Snippet: ${snippet}
-
-Respond ONLY in JSON format:
-{
-  "isWork": boolean,
-  "priority": "high" | "medium" | "low",
-  "reason": "brief reason why"
-}`;
-
-            const result = await model.generateContent(prompt);
-            const response = await result.response;
-            const text = response.text();
-
-            const jsonMatch = text.match(/\{[\s\S]*\}/);
-            if (jsonMatch) {
-                return JSON.parse(jsonMatch[0]);
+            const streams = connector.listStreams ? await connector.listStreams(context) : [DEFAULT_STREAM];
+
+            for (const stream of streams) {
+                const streamCursor: SyncRunCursor = { stream: stream.id };
+                cursors.push(streamCursor);
+                try {
+                    await this.syncStream(context, connector, stream, result, streamCursor);
+                } catch (error: any) {
+                    await CredentialService.checkAuthError(userId, connector.provider, error);
+                    console.error(`${connector.label} sync error (${stream.id}):`, error.message);
+                    this.captureError(result, `${stream.id}: ${error.message}`);
+                }
             }
-            return { isWork: true, priority: 'medium' }; // Fallback
-        } catch (error) {
-            console.error('Email classification error:', error);
-            return { isWork: true, priority: 'medium' }; // Fallback
+
+            await this.removeStaleCursors(userId, connector, streams);
+            await UserModel.updateOne(
+                { _id: userId },
+                { $set: { [`integrations.${connector.provider}.lastSync`]: new Date() } }
+            );
+        } catch (error: any) {
+            try {
+                await CredentialService.checkAuthError(userId, connector.provider, error);
+            } catch (authError: any) {
+                needsReauth = authError instanceof ReauthRequiredError;
+                result.error = authError.message;
+                throw authError;
+            }
+            console.error(`${connector.label} sync error:`, error.message);
+            result.error = error.message;
+        } finally {
+            await this.recordRun(userId, connector, result, startedAt, cursors, needsReauth);
+        }
+
+        if (result.created || result.updated || result.removed) {
+            console.log(`${connector.label} sync for user ${userId}: ${result.created} created, ${result.updated} updated, ${result.removed} removed`);
         }
+        return result;
     }
 
     /**
-     * Sync Gmail messages for a user
+     * Apply records pushed by a source (a webhook delivery) the way a sync applies a fetched page.
+     * Cursors are left alone, so the next sync still reads everything changed since its own position.
      */
-    static async syncGmail(userId: string, overrideAccessToken?: string): Promise<number> {
+    static async applyRecords(userId: string, connector: Connector, records: any[]): Promise<ConnectorSyncResult> {
+        const result: ConnectorSyncResult = { connector: connector.id, fetched: 0, created: 0, updated: 0, removed: 0, skipped: 0, errors: [] };
+
         const user = await UserModel.findById(userId);
-        if (!user) return 0;
+        if (!user || !connector.isConnected(user)) return result;
 
-        const integrations = (user as any).integrations;
-        const accessToken = overrideAccessToken || integrations?.google?.accessToken;
-        const refreshToken = integrations?.google?.refreshToken;
+        const context: ConnectorContext = { userId, user, credentials: await this.getCredentials(user, connector.provider), state: {} };
+        await this.applyPage(context, connector, DEFAULT_STREAM, records, result);
+        return result;
+    }
 
-        if (!accessToken) {
-            console.error('No Google access token found for user:', userId);
-            return 0;
+    /**
+     * Save a SyncRun for a connector run. A failure to record is logged, never thrown, so it can't fail the sync.
+     */
+    private static async recordRun(userId: string, connector: Connector, result: ConnectorSyncResult, startedAt: Date, cursors: SyncRunCursor[], needsReauth: boolean): Promise<void> {
+        try {
+            await SyncRunModel.create({
+                userId,
+                provider: connector.provider,
+                connector: connector.id,
+                status: result.error ? 'failed' : (result.errors.length > 0 ? 'partial' : 'succeeded'),
+                startedAt,
+                finishedAt: new Date(),
+                fetched: result.fetched,
+                created: result.created,
+                updated: result.updated,
+                removed: result.removed,
+                skipped: result.skipped,
+                errorMessages: result.errors,
+                error: result.error,
+                needsReauth: needsReauth || undefined,
+                cursors
+            });
+        } catch (error: any) {
+            console.error(`Failed to record ${connector.label} sync run:`, error.message);
         }
+    }
 
-        const auth = this.createOAuthClient(accessToken, refreshToken);
-        const gmail = google.gmail({ version: 'v1', auth });
+    /**
+     * Push a change made in Monocle to the source the item was imported from, if its connector supports it.
+     * `item` is the item before the change. The outcome is recorded in `writebacks`, and what the connector
+     * reports back (refreshed metadata, the source's values after a conflict) is saved on the item.
+     */
+    static async writeBack(item: IWorkItem, changes: Partial<WorkItem>): Promise<void> {
+        const connector = getItemConnector(item);
+        if (!connector?.writeBack) return;
+
+        const fields = connector.writeBackFields || [];
+        const pending: WriteBackChanges = {};
+        if (fields.includes('isRead') && changes.isRead !== undefined && changes.isRead !== item.isRead) pending.isRead = changes.isRead;
+        if (fields.includes('status') && changes.status !== undefined && changes.status !== item.status) pending.status = changes.status;
+        if (Object.keys(pending).length === 0) return;
+
+        const user = await UserModel.findById(item.userId);
+        if (!user || !connector.isConnected(user)) return;
+        // Integrations with a write-back setting (Jira, Linear) only push changes when it is turned on
+        if (user.get(`integrations.${connector.provider}.writeBack`) === false) return;
+
+        const itemId = (item._id as any).toString();
+        let outcome: WriteBackOutcome;
+        let detail: string | undefined;
+
+        if (user.integrations?.[connector.provider]?.status === 'needs-reauth') {
+            outcome = 'skipped';
+            detail = `${connector.label} needs to be reconnected`;
+        } else {
+            const context: ConnectorContext = {
+                userId: item.userId,
+                user,
+                credentials: await this.getCredentials(user, connector.provider),
+                state: {}
+            };
 
-        try {
-            // Fetch recent messages
-            const res = await gmail.users.messages.list({
-                userId: 'me',
-                maxResults: 15, // Check slightly more to account for filtering
-                q: 'is:unread'
-            });
+            try {
+                const result = await connector.writeBack(context, item, pending);
+                outcome = result.outcome;
+                detail = result.detail;
+                if (result.local) await WorkItemService.updateItem(itemId, result.local, { writeBack: false });
+            } catch (error: any) {
+                outcome = 'failed';
+                detail = error.message;
+                try {
+                    await CredentialService.checkAuthError(item.userId, connector.provider, error);
+                } catch (authError: any) {
+                    detail = authError.message;
+                }
+                console.error(`${connector.label} write-back of item ${itemId} failed:`, detail);
+            }
+        }
 
-            const messages = res.data.messages || [];
-            let count = 0;
+        await WriteBackModel.create({
+            userId: item.userId,
+            itemId,
+            provider: connector.provider,
+            connector: connector.id,
+            changes: pending,
+            outcome,
+            detail
+        });
+    }
 
-            for (const msg of messages) {
-                const details = await gmail.users.messages.get({
-                    userId: 'me',
-                    id: msg.id!
-                });
+    /**
+     * Read all pages of one stream and save its cursor once they are applied.
+     * An expired cursor is dropped and the stream starts over once.
+     */
+    private static async syncStream(context: ConnectorContext, connector: Connector, stream: SyncStream, result: ConnectorSyncResult, streamCursor: SyncRunCursor, restarted = false): Promise<void> {
+        const resource = `${connector.id}:${stream.id}`;
+        const stored = await this.getSyncCursor(context.userId, connector.provider, resource);
+        let cursor: string | undefined;
+        let pageToken: string | undefined;
+        let pageIndex = 0;
+
+        if (!restarted) {
+            streamCursor.before = stored;
+            streamCursor.after = stored;
+        }
 
-                const headers = details.data.payload?.headers;
-                const subject = headers?.find((h: any) => h.name === 'Subject')?.value || 'No Subject';
-                const from = headers?.find((h: any) => h.name === 'From')?.value || 'Unknown';
-                const date = new Date(parseInt(details.data.internalDate!));
-                const snippet = details.data.snippet || '';
+        try {
+            do {
+                const page = await connector.fetchPage(context, { stream, cursor: stored, pageToken, pageIndex });
+                await this.applyPage(context, connector, stream, page.records, result);
+                cursor = page.cursor ?? cursor;
+                pageToken = page.nextPageToken;
+                pageIndex++;
+            } while (pageToken);
+        } catch (error: any) {
+            if (!(error instanceof CursorExpiredError) || !stored || restarted) throw error;
 
-                // Check if already exists
-                const existing = await WorkItemModel.findOne({ userId, 'metadata.googleId': msg.id });
-                if (existing) {
-                    continue;
-                }
+            console.warn(`${connector.label} cursor for ${stream.id} expired for user ${context.userId}, starting over: ${error.message}`);
+            await SyncCursorModel.deleteOne({ userId: context.userId, provider: connector.provider, resource });
+            streamCursor.after = undefined;
+            return this.syncStream(context, connector, stream, result, streamCursor, true);
+        }
 
-                // AI CLASSIFICATION
-                const analysis = await this.classifyAndPrioritizeEmail(subject, from, snippet);
+        if (cursor && cursor !== stored) {
+            await this.saveSyncCursor(context.userId, connector.provider, resource, cursor);
+            streamCursor.after = cursor;
+        }
+    }
 
-                // Skip if not work-related
-                if (!analysis || !analysis.isWork) {
-                    console.log(`Skipping non-work email: ${subject}`);
+    /**
+     * Dedupe a page of records against the items already imported, apply the resulting changes
+     * and update the threads they landed in
+     */
+    private static async applyPage(context: ConnectorContext, connector: Connector, stream: SyncStream, records: any[], result: ConnectorSyncResult): Promise<void> {
+        result.fetched += records.length;
+        if (records.length === 0) return;
+
+        const externalIds = records.map(record => connector.getExternalId(record));
+        const items = await WorkItemModel.find({ userId: context.userId, [`metadata.${connector.idField}`]: { $in: externalIds } });
+        const existing = new Map(items.map(item => [item.get(`metadata.${connector.idField}`) as string, item]));
+        const threads = new Map<string, ThreadUpdate>();
+
+        for (const [index, record] of records.entries()) {
+            const externalId = externalIds[index];
+            try {
+                const change = await connector.toChange(context, record, existing.get(externalId), stream);
+                if (!change) {
+                    result.skipped++;
                     continue;
                 }
+                await this.applyChange(context.userId, change, existing.get(externalId), threads);
+                if (change.action === 'create') result.created++;
+                else if (change.action === 'update') result.updated++;
+                else result.removed++;
+            } catch (error: any) {
+                if (error instanceof ReauthRequiredError) throw error;
+                console.error(`${connector.label} failed to apply ${externalId}:`, error.message);
+                this.captureError(result, `${externalId}: ${error.message}`);
+            }
+        }
 
-                const externalThreadId = await this.getOrCreateExternalThread(userId);
+        for (const [threadId, update] of threads) {
+            await WorkThreadModel.findByIdAndUpdate(threadId, {
+                $addToSet: {
+                    itemIds: { $each: [...update.itemIds] },
+                    relatedPeople: { $each: [...update.people] }
+                },
+                ...(update.lastActivity ? { $max: { lastActivity: update.lastActivity } } : {}),
+                ...(update.highPriority ? { priority: 'high' } : {})
+            });
+        }
+    }
 
-                const newItem = await WorkItemService.createItem({
-                    userId,
-                    type: 'email',
-                    title: subject,
-                    source: `Gmail: ${from}`,
-                    timestamp: date,
-                    preview: snippet,
-                    isRead: false,
-                    priority: analysis.priority,
-                    threadId: externalThreadId,
-                    metadata: {
-                        googleId: msg.id,
-                        threadId: details.data.threadId,
-                        aiReason: analysis.reason
-                    }
-                });
+    private static async applyChange(userId: string, change: ItemChange, existing: IWorkItem | undefined, threads: Map<string, ThreadUpdate>): Promise<void> {
+        const track = (threadId: string, itemId: string, people: string[] = [], timestamp?: Date, highPriority = false) => {
+            const update = threads.get(threadId) || { itemIds: new Set<string>(), people: new Set<string>(), highPriority: false };
+            update.itemIds.add(itemId);
+            people.forEach(person => update.people.add(person));
+            if (timestamp) {
+                // Future items (upcoming meetings, due dates) count as activity now
+                const activity = new Date(Math.min(timestamp.getTime(), Date.now()));
+                if (!update.lastActivity || activity > update.lastActivity) update.lastActivity = activity;
+            }
+            update.highPriority = update.highPriority || highPriority;
+            threads.set(threadId, update);
+        };
 
-                // Update thread last activity and item list
-                await WorkThreadModel.findByIdAndUpdate(externalThreadId, {
-                    $addToSet: { itemIds: (newItem as any).id || (newItem as any)._id },
-                    lastActivity: new Date(),
-                    // Update thread priority if this email is high priority
-                    ...(analysis.priority === 'high' ? { priority: 'high' } : {})
-                });
+        if (change.action === 'remove') {
+            if (existing) await this.removeItem(existing);
+            return;
+        }
 
-                count++;
-            }
+        const threadId = change.thread
+            ? await this.getOrCreateSourceThread(userId, change.thread)
+            : (change.action === 'create' ? await this.getOrCreateExternalThread(userId) : existing?.threadId);
+
+        if (change.action === 'create') {
+            const newItem = await WorkItemService.createItem({ ...change.item, userId, threadId });
+            track(threadId!, (newItem as any).id || (newItem as any)._id, change.people, change.item.timestamp, change.item.priority === 'high');
+            return;
+        }
 
-            if (integrations?.google) {
-                integrations.google.lastSync = new Date();
-                await user.save();
+        const itemId = (existing!._id as any).toString();
+        const changes = { ...change.changes };
+        if (threadId && existing!.threadId !== threadId) {
+            if (existing!.threadId) {
+                await WorkThreadModel.findByIdAndUpdate(existing!.threadId, { $pull: { itemIds: itemId } });
             }
+            changes.threadId = threadId;
+        }
+        await WorkItemService.updateItem(itemId, changes, { writeBack: false });
+        if (threadId) track(threadId, itemId, change.people);
+    }
 
-            return count;
-        } catch (error: any) {
-            console.error('Gmail sync error:', error.message);
-            return 0;
+    /**
+     * Delete an item removed at the source and detach it from its thread
+     */
+    static async removeItem(item: IWorkItem): Promise<void> {
+        const itemId = (item._id as any).toString();
+        await WorkItemService.deleteItem(itemId);
+        if (item.threadId) {
+            await WorkThreadModel.findByIdAndUpdate(item.threadId, { $pull: { itemIds: itemId } });
         }
     }
 
     /**
-     * Sync Calendar events for a user
+     * Drop cursors of streams the connector no longer lists (a deselected database, yesterday's calendar window)
      */
-    static async syncCalendar(userId: string, overrideAccessToken?: string): Promise<number> {
-        const user = await UserModel.findById(userId);
-        if (!user) return 0;
+    private static async removeStaleCursors(userId: string, connector: Connector, streams: SyncStream[]): Promise<void> {
+        const prefix = `${connector.id}:`.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        await SyncCursorModel.deleteMany({
+            userId,
+            provider: connector.provider,
+            resource: { $regex: `^${prefix}`, $nin: streams.map(stream => `${connector.id}:${stream.id}`) }
+        });
+    }
 
-        const integrations = (user as any).integrations;
-        const accessToken = overrideAccessToken || integrations?.google?.accessToken;
-        const refreshToken = integrations?.google?.refreshToken;
+    private static captureError(result: ConnectorSyncResult, message: string): void {
+        if (result.errors.length < MAX_REPORTED_ERRORS) result.errors.push(message);
+    }
 
-        if (!accessToken) return 0;
+    /**
+     * Connect an integration that uses an API key (IMAP: a password). Google and Microsoft are connected by signing in with them.
+     */
+    static async connect(userId: string, provider: IntegrationProvider, body: { apiKey?: string, databaseIds?: string[], email?: string, siteUrl?: string, settings?: any, mailbox?: Partial<ImapSettings> & { password?: string } }): Promise<any> {
+        if (provider === 'google' || provider === 'microsoft') {
+            throw new Error(`${provider} is connected by signing in with the account`);
+        }
+        if (provider === 'ics') {
+            throw new Error('ICS calendars are added with POST /api/integrations/ics/feeds');
+        }
+        if (provider === 'imap') {
+            const { host, port, secure, username, password } = body.mailbox || {};
+            if (!host || !username || !password) throw new Error('Missing required fields: host, username, password');
+            const useTls = secure !== false;
+            return this.connectImap(userId, { host, port: port || (useTls ? 993 : 143), secure: useTls, username }, password);
+        }
+        if (!body.apiKey) {
+            throw new Error('Missing required field: apiKey');
+        }
 
-        const auth = this.createOAuthClient(accessToken, refreshToken);
-        const calendar = google.calendar({ version: 'v3', auth });
+        switch (provider) {
+            case 'github':
+                return this.connectGitHub(userId, body.apiKey);
+            case 'jira':
+                if (!body.email || !body.siteUrl) throw new Error('Missing required fields: email, siteUrl');
+                return this.connectJira(userId, body.apiKey, body.email, body.siteUrl, parseTrackerSettings(body.settings || {}));
+            case 'linear':
+                return this.connectLinear(userId, body.apiKey, parseTrackerSettings(body.settings || {}));
+            default:
+                return this.connectNotion(userId, body.apiKey, body.databaseIds);
+        }
+    }
 
-        try {
-            const res = await calendar.events.list({
-                calendarId: 'primary',
-                timeMin: new Date().toISOString(),
-                maxResults: 10,
-                singleEvents: true,
-                orderBy: 'startTime'
-            });
+    /**
+     * Connect Notion with an internal integration key. The key is checked against the API before it is stored (encrypted).
+     */
+    static async connectNotion(userId: string, apiKey: string, databaseIds?: string[]): Promise<{ workspaceName?: string, databaseIds: string[] }> {
+        const response = await notionRequest(apiKey, 'GET', '/users/me');
+        if (response.status === 401) {
+            throw new Error('Notion rejected the API key');
+        }
+        if (!response.ok) {
+            throw new Error(`Notion API error: ${response.status} ${await response.text()}`);
+        }
 
-            const events = res.data.items || [];
-            let count = 0;
+        const bot: any = await response.json();
+        const workspaceName: string | undefined = bot.bot?.workspace_name || undefined;
+        const selected = (databaseIds || []).map(id => normalizeNotionId(id));
+
+        await UserModel.updateOne({ _id: userId }, {
+            $set: {
+                'integrations.notion.connected': true,
+                'integrations.notion.apiKey': encryptSecret(apiKey),
+                'integrations.notion.status': 'connected',
+                'integrations.notion.workspaceName': workspaceName,
+                'integrations.notion.databaseIds': selected
+            },
+            $unset: { 'integrations.notion.statusReason': '' }
+        });
+        // A new key may see a different workspace, so start over with a full sync
+        await SyncCursorModel.deleteMany({ userId, provider: 'notion' });
 
-            for (const event of events) {
-                // Check if already exists
-                const existing = await WorkItemModel.findOne({ userId, 'metadata.googleId': event.id });
-                if (existing) {
-                    continue;
-                }
+        return { workspaceName, databaseIds: selected };
+    }
 
-                const externalThreadId = await this.getOrCreateExternalThread(userId);
+    /**
+     * Connect GitHub with a personal access token, checked against the API before it is stored (encrypted).
+     * Returns the webhook URL and secret to configure on repositories; reconnecting keeps the secret.
+     */
+    static async connectGitHub(userId: string, token: string): Promise<{ login: string, webhookUrl: string, webhookSecret: string }> {
+        const response = await githubRequest(token, 'GET', '/user');
+        if (response.status === 401) {
+            throw new Error('GitHub rejected the token');
+        }
+        if (!response.ok) {
+            throw new Error(`GitHub API error: ${response.status} ${await response.text()}`);
+        }
 
-                const newItem = await WorkItemService.createItem({
-                    userId,
-                    type: 'calendar',
-                    title: event.summary || 'Meeting',
-                    source: 'Google Calendar',
-                    timestamp: new Date(event.start?.dateTime || event.start?.date || ''),
-                    preview: event.description || '',
-                    isRead: false,
-                    priority: 'medium', // Default for calendar events
-                    threadId: externalThreadId,
-                    metadata: {
-                        googleId: event.id,
-                        status: event.status,
-                        location: event.location
-                    }
-                });
+        const account: any = await response.json();
+        const user = await UserModel.findById(userId);
+        const webhookSecret = decryptSecret(user?.integrations?.github?.webhookSecret) || crypto.randomBytes(32).toString('hex');
+
+        await UserModel.updateOne({ _id: userId }, {
+            $set: {
+                'integrations.github.connected': true,
+                'integrations.github.apiKey': encryptSecret(token),
+                'integrations.github.status': 'connected',
+                'integrations.github.login': account.login,
+                'integrations.github.webhookSecret': encryptSecret(webhookSecret)
+            },
+            $unset: { 'integrations.github.statusReason': '' }
+        });
+        // A new token may belong to another account, so start over with a full sync
+        await SyncCursorModel.deleteMany({ userId, provider: 'github' });
 
-                // Update thread last activity and item list
-                await WorkThreadModel.findByIdAndUpdate(externalThreadId, {
-                    $addToSet: { itemIds: (newItem as any).id || (newItem as any)._id },
-                    lastActivity: new Date()
-                });
+        return { login: account.login, webhookUrl: `/api/integrations/github/webhook/${userId}`, webhookSecret };
+    }
 
-                count++;
-            }
+    /**
+     * Connect Jira Cloud with an Atlassian account email and API token, checked against the site before the token is stored (encrypted)
+     */
+    static async connectJira(userId: string, apiToken: string, email: string, siteUrl: string, settings: IssueTrackerSettings): Promise<{ siteUrl: string, accountId: string, displayName?: string } & IssueTrackerSettings> {
+        let site: string;
+        try {
+            site = normalizeJiraSiteUrl(siteUrl);
+        } catch {
+            throw new Error(`Invalid Jira site URL: ${siteUrl}`);
+        }
 
-            return count;
-        } catch (error: any) {
-            console.error('Calendar sync error:', error.message);
-            return 0;
+        const response = await jiraRequest(site, email, apiToken, 'GET', '/rest/api/3/myself');
+        if (response.status === 401 || response.status === 403) {
+            throw new Error('Jira rejected the email and API token');
+        }
+        if (!response.ok) {
+            throw new Error(`Jira API error: ${response.status} ${await response.text()}`);
         }
+
+        const account: any = await response.json();
+        await UserModel.updateOne({ _id: userId }, {
+            $set: {
+                'integrations.jira.connected': true,
+                'integrations.jira.apiKey': encryptSecret(apiToken),
+                'integrations.jira.status': 'connected',
+                'integrations.jira.siteUrl': site,
+                'integrations.jira.email': email,
+                'integrations.jira.accountId': account.accountId,
+                ...this.toSettingsUpdate('jira', settings)
+            },
+            $unset: { 'integrations.jira.statusReason': '' }
+        });
+        // Another site or account has other issues, so start over with a full sync
+        await SyncCursorModel.deleteMany({ userId, provider: 'jira' });
+
+        return { siteUrl: site, accountId: account.accountId, displayName: account.displayName, ...settings };
     }
 
     /**
-     * Sync Google Tasks for a user
+     * Connect Linear with a personal API key, checked against the API before it is stored (encrypted)
      */
-    static async syncTasks(userId: string, overrideAccessToken?: string): Promise<number> {
-        const user = await UserModel.findById(userId);
-        if (!user) return 0;
-
-        const integrations = (user as any).integrations;
-        const accessToken = overrideAccessToken || integrations?.google?.accessToken;
-        const refreshToken = integrations?.google?.refreshToken;
+    static async connectLinear(userId: string, apiKey: string, settings: IssueTrackerSettings): Promise<{ organizationName?: string } & IssueTrackerSettings> {
+        const response = await linearRequest(apiKey, '{ viewer { id } organization { name } }');
+        const body: any = await response.json().catch(() => ({}));
+        if (response.status === 401 || body.errors?.some((error: any) => error.extensions?.code === 'AUTHENTICATION_ERROR')) {
+            throw new Error('Linear rejected the API key');
+        }
+        if (!response.ok || body.errors?.length) {
+            throw new Error(`Linear API error: ${response.status} ${body.errors?.[0]?.message || ''}`.trim());
+        }
 
-        if (!accessToken) return 0;
+        const organizationName: string | undefined = body.data?.organization?.name;
+        await UserModel.updateOne({ _id: userId }, {
+            $set: {
+                'integrations.linear.connected': true,
+                'integrations.linear.apiKey': encryptSecret(apiKey),
+                'integrations.linear.status': 'connected',
+                'integrations.linear.organizationName': organizationName,
+                ...this.toSettingsUpdate('linear', settings)
+            },
+            $unset: { 'integrations.linear.statusReason': '' }
+        });
+        // A new key may see another workspace, so start over with a full sync
+        await SyncCursorModel.deleteMany({ userId, provider: 'linear' });
 
-        const auth = this.createOAuthClient(accessToken, refreshToken);
-        const tasks = google.tasks({ version: 'v1', auth });
+        return { organizationName, ...settings };
+    }
 
+    /**
+     * Connect an IMAP mailbox. The login and inbox are checked before the password is stored (encrypted).
+     */
+    static async connectImap(userId: string, settings: ImapSettings, password: string): Promise<ImapSettings & { messages: number, condstore: boolean }> {
+        const client = createImapClient(settings, password);
+        let mailbox;
         try {
-            // Get all task lists
-            const taskListsRes = await tasks.tasklists.list();
-            const taskLists = taskListsRes.data.items || [];
-            let count = 0;
-
-            for (const list of taskLists) {
-                const tasksRes = await tasks.tasks.list({
-                    tasklist: list.id!,
-                    showCompleted: false,
-                    maxResults: 20
-                });
-
-                const taskItems = tasksRes.data.items || [];
-                for (const task of taskItems) {
-                    // Check if already exists
-                    const existing = await WorkItemModel.findOne({ userId, 'metadata.googleId': task.id });
-                    if (existing) {
-                        continue;
-                    }
-
-                    const externalThreadId = await this.getOrCreateExternalThread(userId);
-
-                    const newItem = await WorkItemService.createItem({
-                        userId,
-                        type: 'task',
-                        title: task.title || 'Untitled Task',
-                        source: `Google Tasks: ${list.title}`,
-                        timestamp: task.due ? new Date(task.due) : new Date(),
-                        preview: task.notes || '',
-                        isRead: false,
-                        priority: 'medium',
-                        threadId: externalThreadId,
-                        metadata: {
-                            googleId: task.id,
-                            listId: list.id,
-                            status: task.status
-                        }
-                    });
-
-                    // Update thread last activity and item list
-                    await WorkThreadModel.findByIdAndUpdate(externalThreadId, {
-                        $addToSet: { itemIds: (newItem as any).id || (newItem as any)._id },
-                        lastActivity: new Date()
-                    });
-
-                    count++;
-                }
-            }
-
-            return count;
+            await client.connect();
+            mailbox = await client.mailboxOpen(IMAP_MAILBOX, { readOnly: true });
         } catch (error: any) {
-            console.error('Tasks sync error:', error.message);
-            return 0;
+            if (error.authenticationFailed) throw new Error('The mail server rejected the username and password');
+            throw new Error(`Could not open the mailbox on ${settings.host}: ${error.responseText || error.message}`);
+        } finally {
+            await client.logout().catch(() => client.close());
         }
+
+        await UserModel.updateOne({ _id: userId }, {
+            $set: {
+                'integrations.imap.connected': true,
+                'integrations.imap.status': 'connected',
+                'integrations.imap.host': settings.host,
+                'integrations.imap.port': settings.port,
+                'integrations.imap.secure': settings.secure,
+                'integrations.imap.username': settings.username,
+                'integrations.imap.password': encryptSecret(password)
+            },
+            $unset: { 'integrations.imap.statusReason': '' }
+        });
+        // Another mailbox has other UIDs, so start over with a backfill
+        await SyncCursorModel.deleteMany({ userId, provider: 'imap' });
+
+        return { ...settings, messages: mailbox.exists, condstore: mailbox.highestModseq !== undefined };
     }
+
     /**
-     * Sync Microsoft Teams messages for a user
+     * Change an issue tracker's write-back, thread grouping or status mapping. A new grouping or mapping is applied
+     * to every open issue on the next sync.
      */
-    static async syncTeams(userId: string, overrideAccessToken?: string): Promise<number> {
-        const user = await UserModel.findById(userId);
-        if (!user) return 0;
+    static async updateTrackerSettings(userId: string, provider: IntegrationProvider, input: any): Promise<IssueTrackerSettings> {
+        if (provider !== 'jira' && provider !== 'linear') {
+            throw new Error(`${provider} has no issue tracker settings`);
+        }
+        const settings = parseTrackerSettings(input || {});
 
-        const integrations = (user as any).integrations;
-        const accessToken = overrideAccessToken || integrations?.microsoft?.accessToken;
+        await UserModel.updateOne({ _id: userId }, { $set: this.toSettingsUpdate(provider, settings) });
 
-        if (!accessToken) {
-            console.error('No Microsoft access token found for user:', userId);
-            return 0;
+        if (settings.threadBy !== undefined || settings.statusMapping !== undefined) {
+            // Forget what was synced, so the next sync re-reads and re-maps every open issue
+            for (const connector of getConnectors(provider)) {
+                await WorkItemModel.updateMany(
+                    { userId, [`metadata.${connector.idField}`]: { $exists: true } },
+                    { $unset: { 'metadata.updated': '', 'metadata.updatedAt': '' } }
+                );
+            }
+            await SyncCursorModel.deleteMany({ userId, provider });
         }
 
-        try {
-            // Fetch recent chats from Microsoft Graph
-            const response = await fetch('https://graph.microsoft.com/v1.0/me/chats?$expand=lastMessagePreview&$top=10&$orderby=lastUpdatedDateTime desc', {
-                headers: {
-                    'Authorization': `Bearer ${accessToken}`,
-                    'Content-Type': 'application/json'
-                }
-            });
+        const user = await UserModel.findById(userId);
+        const saved = user?.integrations?.[provider];
+        return { writeBack: saved?.writeBack, threadBy: saved?.threadBy, statusMapping: saved?.statusMapping };
+    }
 
-            if (!response.ok) {
-                if (response.status === 401) {
-                    console.error('Microsoft token expired');
-                    // In a real app, we would use refresh token here
-                    return 0;
+    private static toSettingsUpdate(provider: 'jira' | 'linear', settings: IssueTrackerSettings): Record<string, any> {
+        return Object.fromEntries(Object.entries(settings).map(([name, value]) => [`integrations.${provider}.${name}`, value]));
+    }
+
+    /**
+     * Disconnect an integration: stored tokens or keys (ICS: the calendar feeds) and sync cursors are deleted,
+     * imported items are kept
+     */
+    static async disconnect(userId: string, provider: IntegrationProvider): Promise<void> {
+        await UserModel.updateOne({ _id: userId }, {
+            $set: { [`integrations.${provider}.connected`]: false },
+            $unset: Object.fromEntries([
+                'accessToken', 'refreshToken', 'expiresAt', 'apiKey', 'status', 'statusReason', 'workspaceName', 'databaseIds',
+                'login', 'webhookSecret', 'siteUrl', 'accountId', 'organizationName', 'password', 'nextSyncAt', 'syncFailures'
+            ].map(field => [`integrations.${provider}.${field}`, '']))
+        });
+        await SyncCursorModel.deleteMany({ userId, provider });
+        if (provider === 'ics') await CalendarFeedModel.deleteMany({ userId });
+    }
+
+    /**
+     * Health of each integration: connection state, when its connectors last synced successfully
+     * and the latest error, from the recorded sync runs
+     */
+    static async getStatus(userId: string): Promise<IntegrationHealth[]> {
+        const user = await UserModel.findById(userId);
+        if (!user) throw new Error('User not found');
+
+        const latest = await SyncRunModel.aggregate([
+            { $match: { userId } },
+            { $sort: { startedAt: -1 } },
+            {
+                $group: {
+                    _id: '$connector',
+                    lastRun: { $first: '$$ROOT' },
+                    lastSuccessAt: { $max: { $cond: [{ $eq: ['$status', 'succeeded'] }, '$finishedAt', null] } }
                 }
-                const errorText = await response.text();
-                throw new Error(`Microsoft Graph API error: ${response.status} ${errorText}`);
             }
+        ]);
+        const runs = new Map(latest.map(entry => [entry._id as string, entry]));
+
+        return getIntegrationProviders().map(provider => {
+            const integration = user.integrations?.[provider];
+            const connectors: ConnectorHealth[] = getConnectors(provider).map(connector => {
+                const { lastRun, lastSuccessAt } = runs.get(connector.id) || {};
+                return {
+                    connector: connector.id,
+                    label: connector.label,
+                    lastRunAt: lastRun?.finishedAt,
+                    lastRunStatus: lastRun?.status,
+                    lastSuccessAt: lastSuccessAt || undefined,
+                    lastError: lastRun?.error || lastRun?.errorMessages?.[0]
+                };
+            });
 
-            const data: any = await response.json();
-            const chats = data.value || [];
-            let count = 0;
-
-            for (const chat of chats) {
-                const lastMessage = chat.lastMessagePreview;
-                if (!lastMessage || !lastMessage.body || !lastMessage.body.content) continue;
-
-                const msgId = lastMessage.id;
-                const existing = await WorkItemModel.findOne({ userId, 'metadata.microsoftId': msgId });
-                if (existing) continue;
-
-                // Determine title (chat name or sender)
-                let title = chat.topic;
-                if (!title && chat.chatType === 'oneOnOne') {
-                    // Start of discussion with specific person
-                    title = lastMessage.from?.user?.displayName || 'Teams Chat';
-                } else if (!title) {
-                    title = 'Group Chat';
-                }
+            const successes = connectors.map(c => c.lastSuccessAt).filter((at): at is Date => !!at);
+            const failing = connectors
+                .filter(c => c.lastError)
+                .sort((a, b) => b.lastRunAt!.getTime() - a.lastRunAt!.getTime())[0];
 
-                const externalThreadId = await this.getOrCreateExternalThread(userId);
+            return {
+                provider,
+                connected: !!integration?.connected,
+                needsReauth: integration?.status === 'needs-reauth',
+                statusReason: integration?.statusReason,
+                lastSuccessAt: successes.length > 0 ? new Date(Math.max(...successes.map(at => at.getTime()))) : undefined,
+                lastError: failing ? { connector: failing.connector, message: failing.lastError!, at: failing.lastRunAt! } : undefined,
+                nextSyncAt: integration?.connected ? integration.nextSyncAt : undefined,
+                syncFailures: integration?.syncFailures || 0,
+                connectors
+            };
+        });
+    }
 
-                const newItem = await WorkItemService.createItem({
-                    userId,
-                    type: 'message',
-                    title: title,
-                    source: 'Microsoft Teams',
-                    timestamp: new Date(lastMessage.createdDateTime || new Date()),
-                    preview: lastMessage.body.content,
-                    isRead: false, // Assume unread if we are just fetching it now
-                    priority: 'medium',
-                    threadId: externalThreadId,
-                    metadata: {
-                        microsoftId: msgId,
-                        chatId: chat.id,
-                        webUrl: chat.webUrl
-                    }
-                });
+    /**
+     * List the databases shared with the Notion integration, flagging the ones selected for task import
+     */
+    static async listNotionDatabases(userId: string): Promise<{ id: string, title: string, url?: string, selected: boolean }[]> {
+        const user = await UserModel.findById(userId);
+        const apiKey = user?.integrations?.notion?.connected ? (await this.getCredentials(user, 'notion')).apiKey : undefined;
+        if (!user || !apiKey) throw new Error('Notion is not connected');
+
+        const selected = new Set(user.integrations?.notion?.databaseIds || []);
+        const databases: { id: string, title: string, url?: string, selected: boolean }[] = [];
+        let cursor: string | undefined;
+
+        do {
+            const page = await notionJson(userId, apiKey, 'POST', '/search', {
+                filter: { property: 'object', value: 'database' },
+                page_size: NOTION_PAGE_SIZE,
+                start_cursor: cursor
+            });
 
-                // Update thread last activity and item list
-                await WorkThreadModel.findByIdAndUpdate(externalThreadId, {
-                    $addToSet: { itemIds: (newItem as any).id || (newItem as any)._id },
-                    lastActivity: new Date()
+            for (const database of page.results || []) {
+                const id = normalizeNotionId(database.id);
+                databases.push({
+                    id,
+                    title: richTextToPlain(database.title) || 'Untitled database',
+                    url: database.url,
+                    selected: selected.has(id)
                 });
-
-                count++;
             }
+            cursor = page.has_more ? page.next_cursor : undefined;
+        } while (cursor);
 
-            // Update last sync time
-            if (user.integrations?.microsoft) {
-                // We need to use updateOne because we might rely on the 'any' cast above for runtime, but cleaner for TS
-                await UserModel.updateOne(
-                    { _id: userId },
-                    { $set: { 'integrations.microsoft.lastSync': new Date() } }
-                );
-            }
+        return databases;
+    }
 
-            return count;
-        } catch (error: any) {
-            console.error('Microsoft Teams sync error:', error.message);
-            return 0;
+    /**
+     * Choose which Notion databases have their rows imported as tasks
+     */
+    static async setNotionDatabases(userId: string, databaseIds: string[]): Promise<string[]> {
+        const selected = databaseIds.map(id => normalizeNotionId(id));
+        await UserModel.updateOne({ _id: userId }, { $set: { 'integrations.notion.databaseIds': selected } });
+        return selected;
+    }
+
+    /**
+     * Signature header for a payload delivered to an inbound webhook, keyed with its decrypted secret (see WebhookService.sign)
+     */
+    static signWebhookPayload(webhook: IWebhook, body: string | Buffer, timestamp: number): string {
+        return WebhookService.sign(decryptSecret(webhook.secret)!, body, timestamp);
+    }
+
+    /**
+     * Apply a GitHub webhook delivery (`issues`, `pull_request`, `issue_comment`, `pull_request_review_comment`)
+     * through the GitHub connectors. The `X-Hub-Signature-256` header must be the HMAC-SHA256 of the raw body
+     * keyed with the user's webhook secret. Comments are only imported for pull requests already imported.
+     */
+    static async receiveGitHubWebhook(userId: string, event: string | undefined, rawBody: Buffer | undefined, signature: string | undefined, payload: any): Promise<{ event?: string, handled: boolean, result?: ConnectorSyncResult }> {
+        const user = mongoose.isValidObjectId(userId) ? await UserModel.findById(userId) : null;
+        const github = user?.integrations?.github;
+        if (!github?.connected || !github.webhookSecret || !github.login) {
+            throw new WebhookRequestError(404, 'GitHub is not connected');
         }
+
+        const expected = Buffer.from(`sha256=${crypto.createHmac('sha256', decryptSecret(github.webhookSecret)!).update(rawBody || '').digest('hex')}`);
+        const actual = Buffer.from(signature || '');
+        const valid = !!rawBody && actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+        if (!valid) throw new WebhookRequestError(401, 'Invalid X-Hub-Signature-256 signature');
+
+        const deleted = payload?.action === 'deleted';
+        let connectorId: string;
+        let record: any;
+
+        if (event === 'issues' && payload.issue) {
+            connectorId = 'github-issues';
+            record = { ...toGitHubIssue(payload.issue, github.login), deleted };
+        } else if (event === 'pull_request' && payload.pull_request) {
+            connectorId = 'github-issues';
+            record = toGitHubPull(payload.pull_request, github.login);
+        } else if ((event === 'issue_comment' && payload.issue?.pull_request) || (event === 'pull_request_review_comment' && payload.pull_request)) {
+            const pull = payload.pull_request || payload.issue;
+            const repo: string = payload.repository?.full_name;
+            const tracked = await WorkItemModel.exists({ userId, 'metadata.githubId': `${repo}#${pull.number}` });
+            if (!tracked) return { event, handled: false };
+
+            connectorId = 'github-comments';
+            const kind = event === 'issue_comment' ? 'issue-comment' : 'review-comment';
+            record = { ...toGitHubComment(payload.comment, kind, repo, pull.number, pull.title), deleted };
+        } else {
+            // ping and events the connectors don't import
+            return { event, handled: false };
+        }
+
+        const result = await this.applyRecords(userId, getConnector(connectorId)!, [record]);
+        return { event, handled: true, result };
     }
+
+    private static async getSyncCursor(userId: string, provider: string, resource: string): Promise<string | undefined> {
+        const cursor = await SyncCursorModel.findOne({ userId, provider, resource });
+        return cursor?.cursor;
+    }
+
+    private static async saveSyncCursor(userId: string, provider: string, resource: string, cursor: string): Promise<void> {
+        await SyncCursorModel.updateOne(
+            { userId, provider, resource },
+            { $set: { cursor, updatedAt: new Date() } },
+            { upsert: true }
+        );
+    }
+
     /**
      * Create a Google Calendar event
      */
@@ -418,10 +877,7 @@ Respond ONLY in JSON format:
         const user = await UserModel.findById(userId);
         if (!user) throw new Error('User not found');
 
-        const accessToken = user.integrations?.google?.accessToken;
-        if (!accessToken) throw new Error('Google integration not connected');
-
-        const auth = this.createOAuthClient(accessToken, user.integrations?.google?.refreshToken);
+        const auth = await CredentialService.getGoogleClient(userId, await this.getCredentials(user, 'google'));
         const calendar = google.calendar({ version: 'v3', auth });
 
         const event = {
@@ -452,6 +908,7 @@ Respond ONLY in JSON format:
 
             return res.data.htmlLink || '';
         } catch (error: any) {
+            await CredentialService.checkAuthError(userId, 'google', error);
             console.error('Create Calendar Event error:', error.message);
             throw new Error(`Failed to create meeting: ${error.message}`);
         }
@@ -464,9 +921,6 @@ Respond ONLY in JSON format:
         const user = await UserModel.findById(userId);
         if (!user) throw new Error('User not found');
 
-        const accessToken = user.integrations?.microsoft?.accessToken;
-        if (!accessToken) throw new Error('Microsoft integration not connected');
-
         const event = {
             subject: eventDetails.title,
             body: {
@@ -490,21 +944,14 @@ Respond ONLY in JSON format:
         };
 
         try {
-            const response = await fetch('https://graph.microsoft.com/v1.0/me/events', {
+            const response = await CredentialService.microsoftFetch(userId, await this.getCredentials(user, 'microsoft'), 'https://graph.microsoft.com/v1.0/me/events', {
                 method: 'POST',
-                headers: {
-                    'Authorization': `Bearer ${accessToken}`,
-                    'Content-Type': 'application/json'
-                },
                 body: JSON.stringify(event)
             });
 
             if (!response.ok) {
                 const errorText = await response.text();
                 console.error('Microsoft Graph API Error Response:', errorText);
-                if (response.status === 401) {
-                    throw new Error('Microsoft authentication expired. Please reconnect your account.');
-                }
                 throw new Error(`Microsoft Graph API error: ${response.status} ${errorText}`);
             }
 
@@ -515,6 +962,7 @@ Respond ONLY in JSON format:
                 joinUrl: data.onlineMeeting?.joinUrl || ''
             };
         } catch (error: any) {
+            await CredentialService.checkAuthError(userId, 'microsoft', error);
             console.error('Create Teams Meeting error:', error.message);
             throw new Error(`Failed to create Teams meeting: ${error.message}`);
         }
@@ -1,4 +1,6 @@
-import { model } from '../config/ollama';
+import { generateStructured } from '../llm';
+import { renderPrompt } from '../prompts/registry';
+import { getGenerationOptions } from '../config/llm';
 import { PriorityRecommendation, WorkThread } from '../types';
 import { WorkThreadService } from './thread.service';
 import { PriorityRecommendationModel } from '../models/PriorityRecommendation';
@@ -15,56 +17,18 @@ export class PriorityService {
             const score = this.calculatePriorityScore(thread);
 
             if (score >= 50) {
-                try {
-                    // Use Ollama AI to generate reasoning
-                    const prompt = `Analyze this work thread and explain why it should be prioritized:
-Thread: ${thread.title}
-Priority: ${thread.priority}
-Progress: ${thread.progress}%
-Deadline: ${thread.deadline instanceof Date ? thread.deadline.toISOString() : (thread.deadline || 'None')}
-Last Activity: ${thread.lastActivity instanceof Date ? thread.lastActivity.toISOString() : thread.lastActivity}
-
-Provide a JSON response with:
-{
-  "title": "Brief title for why to prioritize",
-  "description": "Detailed explanation",
-  "factors": [
-    {"label": "Factor name", "weight": "high|medium|low", "description": "Why this matters"}
-  ]
-}`;
-
-                    const result = await model.generateContent(prompt);
-                    const response = await result.response;
-                    const text = response.text();
-
-                    const jsonMatch = text.match(/\{[\s\S]*\}/);
-                    if (jsonMatch) {
-                        const aiReasoning = JSON.parse(jsonMatch[0]);
-
-                        const recommendation = await this.createRecommendation({
-                            userId,
-                            threadId: thread.id,
-                            score,
-                            reasoning: aiReasoning,
-                            generatedAt: new Date(),
-                            isActive: true,
-                        });
-                        recommendations.push(recommendation);
-                    }
-                } catch (error) {
-                    console.error('Error generating AI recommendation:', error);
-
-                    // Fallback to rule-based reasoning
-                    const recommendation = await this.createRecommendation({
-                        userId,
-                        threadId: thread.id,
-                        score,
-                        reasoning: this.generateFallbackReasoning(thread),
-                        generatedAt: new Date(),
-                        isActive: true,
-                    });
-                    recommendations.push(recommendation);
-                }
+                const { reasoning, promptVersion } = await this.generateReasoning(thread);
+
+                const recommendation = await this.createRecommendation({
+                    userId,
+                    threadId: thread.id,
+                    score,
+                    reasoning,
+                    generatedAt: new Date(),
+                    isActive: true,
+                    promptVersion
+                });
+                recommendations.push(recommendation);
             }
         }
 
@@ -72,6 +36,31 @@ Provide a JSON response with:
         return recommendations.sort((a, b) => b.score - a.score);
     }
 
+    /**
+     * Use the configured LLM to explain why a thread should be prioritized.
+     * Falls back to rule-based reasoning when the model never returns valid JSON.
+     */
+    static async generateReasoning(thread: WorkThread, promptVersion?: string): Promise<{ reasoning: PriorityRecommendation['reasoning'], promptVersion?: string }> {
+        const prompt = renderPrompt('priority-reasoning', {
+            title: thread.title,
+            priority: thread.priority,
+            progress: thread.progress,
+            deadline: thread.deadline instanceof Date ? thread.deadline.toISOString() : (thread.deadline || 'None'),
+            lastActivity: thread.lastActivity instanceof Date ? thread.lastActivity.toISOString() : String(thread.lastActivity)
+        }, promptVersion);
+
+        const { data, source } = await generateStructured<PriorityRecommendation['reasoning']>({
+            name: prompt.id,
+            prompt: prompt.text,
+            schema: prompt.schema!,
+            options: getGenerationOptions('priority-reasoning'),
+            fallback: () => this.generateFallbackReasoning(thread),
+            cache: { tags: [`thread:${thread.id}`] }
+        });
+
+        return { reasoning: data, promptVersion: source === 'fallback' ? undefined : prompt.id };
+    }
+
     /**
      * Calculate priority score based on multiple factors
      */
@@ -0,0 +1,220 @@
+import crypto from 'crypto';
+import { Citation } from '../types';
+import { WorkItemModel } from '../models/WorkItem';
+import { WorkThreadModel } from '../models/WorkThread';
+import { EmbeddingModel } from '../models/Embedding';
+import { getLLMProvider } from '../llm';
+
+export interface RetrievedDocument {
+    kind: 'item' | 'thread';
+    id: string;
+    title: string;
+    source: string;
+    text: string;
+    score: number;
+    itemType?: Citation['itemType'];
+    timestamp?: Date;
+    metadata?: Record<string, any>;
+}
+
+// How many of the user's most recent items are considered per query
+const MAX_CANDIDATE_ITEMS = 300;
+// Characters of each document's text placed into the prompt
+const SNIPPET_LENGTH = 400;
+// Minimum cosine similarity for a purely semantic match to count
+const MIN_SEMANTIC_SCORE = 0.35;
+const LEXICAL_WEIGHT = 0.6;
+const SEMANTIC_WEIGHT = 0.4;
+
+const STOPWORDS = new Set([
+    'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'did', 'do', 'does', 'for', 'from', 'has', 'have', 'how', 'i',
+    'in', 'is', 'it', 'me', 'my', 'of', 'on', 'or', 'say', 'said', 'that', 'the', 'this', 'to', 'was', 'what', 'when',
+    'where', 'which', 'who', 'why', 'will', 'with', 'about', 'any', 'can', 'you', 'your', 'we', 'our', 'there'
+]);
+
+const tokenize = (text: string): string[] =>
+    (text.toLowerCase().match(/[a-z0-9]+/g) || []).filter(t => t.length > 1 && !STOPWORDS.has(t));
+
+const cosine = (a: number[], b: number[]): number => {
+    let dot = 0, normA = 0, normB = 0;
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    return normA && normB ? dot / (Math.sqrt(normA) * Math.sqrt(normB)) : 0;
+};
+
+export class RetrievalService {
+    /**
+     * Search the user's work items and threads for content relevant to the query.
+     * Uses BM25 lexical scoring, blended with embedding similarity when the provider supports it.
+     */
+    static async search(userId: string, query: string, limit: number = 6): Promise<RetrievedDocument[]> {
+        const documents = await this.loadDocuments(userId);
+        if (documents.length === 0 || !query.trim()) return [];
+
+        const lexical = this.scoreLexical(query, documents);
+        const semantic = await this.scoreSemantic(userId, query, documents);
+        const maxLexical = Math.max(...lexical, 0);
+
+        return documents
+            .map((doc, i) => {
+                const lexicalScore = maxLexical > 0 ? lexical[i] / maxLexical : 0;
+                if (!semantic) return { ...doc, score: lexicalScore };
+
+                const semanticScore = semantic[i] >= MIN_SEMANTIC_SCORE ? semantic[i] : 0;
+                return { ...doc, score: LEXICAL_WEIGHT * lexicalScore + SEMANTIC_WEIGHT * semanticScore };
+            })
+            .filter(doc => doc.score > 0)
+            .sort((a, b) => b.score - a.score)
+            .slice(0, limit);
+    }
+
+    /**
+     * Format retrieved documents as numbered prompt context, matching toCitations numbering
+     */
+    static formatForPrompt(documents: RetrievedDocument[]): string {
+        return documents.map((doc, i) => {
+            const when = doc.timestamp ? ` (${new Date(doc.timestamp).toISOString().split('T')[0]})` : '';
+            const kind = doc.kind === 'thread' ? 'Thread' : doc.itemType || 'item';
+            const snippet = doc.text.length > SNIPPET_LENGTH ? `${doc.text.slice(0, SNIPPET_LENGTH)}...` : doc.text;
+            return `[${i + 1}] ${kind} "${doc.title}" (id: ${doc.id}) from ${doc.source}${when}: ${snippet}`;
+        }).join('\n');
+    }
+
+    /**
+     * Build citations the UI can use to link back to the original source
+     */
+    static toCitations(documents: RetrievedDocument[]): Citation[] {
+        return documents.map((doc, i) => {
+            const metadata = doc.metadata || {};
+            return {
+                ref: i + 1,
+                kind: doc.kind,
+                id: doc.id,
+                title: doc.title,
+                source: doc.source,
+                itemType: doc.itemType,
+                timestamp: doc.timestamp,
+                externalId: metadata.googleId || metadata.microsoftId,
+                externalThreadId: metadata.threadId || metadata.chatId,
+                url: metadata.webUrl || metadata.url
+            };
+        });
+    }
+
+    private static async loadDocuments(userId: string): Promise<Omit<RetrievedDocument, 'score'>[]> {
+        const [items, threads] = await Promise.all([
+            WorkItemModel.find({ userId }).sort({ timestamp: -1 }).limit(MAX_CANDIDATE_ITEMS),
+            WorkThreadModel.find({ userId })
+        ]);
+
+        return [
+            ...items.map(item => {
+                const json = item.toJSON() as any;
+                return {
+                    kind: 'item' as const,
+                    id: json.id,
+                    title: json.title,
+                    source: json.source,
+                    text: [json.title, json.preview].filter(Boolean).join(' - '),
+                    itemType: json.type,
+                    timestamp: json.timestamp,
+                    metadata: json.metadata instanceof Map ? Object.fromEntries(json.metadata) : json.metadata
+                };
+            }),
+            ...threads.map(thread => {
+                const json = thread.toJSON() as any;
+                return {
+                    kind: 'thread' as const,
+                    id: json.id,
+                    title: json.title,
+                    source: 'Monocle',
+                    text: [
+                        json.title,
+                        json.description,
+                        json.relatedPeople?.length ? `People: ${json.relatedPeople.join(', ')}` : '',
+                        json.tags?.length ? `Tags: ${json.tags.join(', ')}` : ''
+                    ].filter(Boolean).join(' - '),
+                    timestamp: json.lastActivity
+                };
+            })
+        ];
+    }
+
+    /**
+     * Okapi BM25 over title, preview and source
+     */
+    private static scoreLexical(query: string, documents: Omit<RetrievedDocument, 'score'>[]): number[] {
+        const k1 = 1.2;
+        const b = 0.75;
+        const queryTerms = [...new Set(tokenize(query))];
+        if (queryTerms.length === 0) return documents.map(() => 0);
+
+        const docTerms = documents.map(doc => tokenize(`${doc.text} ${doc.source}`));
+        const avgLength = docTerms.reduce((sum, terms) => sum + terms.length, 0) / docTerms.length || 1;
+
+        const documentFrequency = new Map<string, number>();
+        for (const terms of docTerms) {
+            for (const term of new Set(terms)) {
+                documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+            }
+        }
+
+        return docTerms.map(terms => {
+            let score = 0;
+            for (const term of queryTerms) {
+                const frequency = terms.filter(t => t === term).length;
+                if (frequency === 0) continue;
+                const df = documentFrequency.get(term) || 0;
+                const idf = Math.log(1 + (docTerms.length - df + 0.5) / (df + 0.5));
+                score += idf * (frequency * (k1 + 1)) / (frequency + k1 * (1 - b + b * terms.length / avgLength));
+            }
+            return score;
+        });
+    }
+
+    /**
+     * Cosine similarity between the query and each document, or null when embeddings are unavailable.
+     * Document vectors are cached per content hash so only new or changed documents are embedded.
+     */
+    private static async scoreSemantic(userId: string, query: string, documents: Omit<RetrievedDocument, 'score'>[]): Promise<number[] | null> {
+        const provider = getLLMProvider();
+        if (!provider.embed || !provider.embeddingModel) return null;
+        const embeddingModel = `${provider.name}:${provider.embeddingModel}`;
+
+        try {
+            const hashes = documents.map(doc => crypto.createHash('sha256').update(doc.text).digest('hex'));
+            const cached = await EmbeddingModel.find({
+                userId,
+                embeddingModel,
+                refId: { $in: documents.map(doc => doc.id) }
+            });
+            const cache = new Map(cached.map(e => [`${e.refKind}:${e.refId}`, e]));
+
+            const vectors: (number[] | null)[] = documents.map((doc, i) => {
+                const entry = cache.get(`${doc.kind}:${doc.id}`);
+                return entry && entry.contentHash === hashes[i] ? entry.vector : null;
+            });
+
+            const missing = documents.map((_, i) => i).filter(i => !vectors[i]);
+            const [queryVector, ...fresh] = await provider.embed([query, ...missing.map(i => documents[i].text)]);
+
+            await Promise.all(missing.map((docIndex, j) => {
+                vectors[docIndex] = fresh[j];
+                const doc = documents[docIndex];
+                return EmbeddingModel.updateOne(
+                    { refKind: doc.kind, refId: doc.id, embeddingModel },
+                    { userId, contentHash: hashes[docIndex], vector: fresh[j], updatedAt: new Date() },
+                    { upsert: true }
+                );
+            }));
+
+            return vectors.map(vector => (vector ? cosine(queryVector, vector) : 0));
+        } catch (error: any) {
+            console.warn('Embedding search failed, using lexical results only:', error.message);
+            return null;
+        }
+    }
+}
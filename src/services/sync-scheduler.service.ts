@@ -0,0 +1,269 @@
+import mongoose from 'mongoose';
+import { UserModel } from '../models/User';
+import { ISyncJob, SyncJobModel, SyncJobTrigger } from '../models/SyncJob';
+import { IntegrationService } from './integration.service';
+import { IntegrationProvider, ReauthRequiredError } from './credential.service';
+import { UsageService } from './usage.service';
+import { getIntegrationProviders } from '../connectors';
+import { getSyncConfig } from '../config/sync';
+import { runWithLLMContext } from '../llm/context';
+
+const DUPLICATE_KEY = 11000;
+// Integrations picked up per provider and tick, the rest wait for the next tick
+const SCHEDULE_BATCH_SIZE = 100;
+
+const jobIdOf = (job: ISyncJob): string => (job._id as any).toString();
+
+/**
+ * Background sync of every connected integration. Syncs are persisted as SyncJob documents and
+ * run from a queue, so a manual "sync now" and the schedule share one code path: at most one job
+ * per user and provider is queued or running, failed syncs back off exponentially, and every
+ * next run is jittered so users don't all sync at the same moment.
+ */
+export class SyncSchedulerService {
+    private static timer?: NodeJS.Timeout;
+    private static ticking = false;
+    /** Jobs running in this process */
+    private static running = new Set<string>();
+    /** Jobs claimed or being claimed, bounded by the configured concurrency */
+    private static slots = 0;
+    /** Access tokens passed with a manual sync; kept in memory only, never written to the job */
+    private static overrideTokens = new Map<string, string>();
+
+    static start(): void {
+        if (this.timer) return;
+        const { tickMs, intervalMs, concurrency } = getSyncConfig();
+
+        this.timer = setInterval(() => this.tick(), tickMs);
+        this.timer.unref();
+        console.log(`Sync scheduler started: every ${Math.round(intervalMs / 60000)} min, ${concurrency} concurrent job(s)`);
+        this.tick();
+    }
+
+    static stop(): void {
+        if (this.timer) clearInterval(this.timer);
+        this.timer = undefined;
+    }
+
+    /**
+     * Queue a sync of one integration. If a job for it is already queued or running, that job is returned instead.
+     */
+    static async enqueue(userId: string, provider: IntegrationProvider, trigger: SyncJobTrigger, overrideAccessToken?: string): Promise<ISyncJob> {
+        let job: ISyncJob;
+        try {
+            job = await SyncJobModel.create({ userId, provider, trigger, status: 'queued', active: true });
+        } catch (error: any) {
+            if (error.code !== DUPLICATE_KEY) throw error;
+            const existing = await SyncJobModel.findOne({ userId, provider, active: true });
+            if (!existing) throw error;
+            return existing;
+        }
+
+        if (overrideAccessToken) this.overrideTokens.set(jobIdOf(job), overrideAccessToken);
+        // Start right away when there is a free slot instead of waiting for the next tick
+        this.processQueue().catch(error => console.error('Sync scheduler error:', error.message));
+        return job;
+    }
+
+    /**
+     * A user's sync job, for polling its status
+     */
+    static async getJob(userId: string, jobId: string): Promise<ISyncJob | null> {
+        if (!mongoose.isValidObjectId(jobId)) return null;
+        return SyncJobModel.findOne({ _id: jobId, userId });
+    }
+
+    /**
+     * One scheduler pass: fail lost jobs, queue integrations that are due and start queued jobs
+     */
+    static async tick(): Promise<void> {
+        if (this.ticking || mongoose.connection.readyState !== 1) return;
+        this.ticking = true;
+
+        try {
+            await this.failLostJobs();
+            for (const provider of getIntegrationProviders()) {
+                await this.scheduleDue(provider);
+            }
+            await this.processQueue();
+        } catch (error: any) {
+            console.error('Sync scheduler error:', error.message);
+        } finally {
+            this.ticking = false;
+        }
+    }
+
+    /**
+     * Queue scheduled jobs for the connected integrations of a provider whose next sync is due.
+     * Integrations seen for the first time get a random start within one interval to spread the load.
+     */
+    private static async scheduleDue(provider: IntegrationProvider): Promise<void> {
+        const { intervalMs } = getSyncConfig();
+        const field = `integrations.${provider}`;
+        const now = new Date();
+        const connected = {
+            [`${field}.connected`]: true,
+            [`${field}.status`]: { $ne: 'needs-reauth' }
+        };
+
+        const unscheduled = await UserModel.find({ ...connected, [`${field}.nextSyncAt`]: { $exists: false } })
+            .select('_id')
+            .limit(SCHEDULE_BATCH_SIZE);
+        for (const user of unscheduled) {
+            await UserModel.updateOne(
+                { _id: user._id },
+                { $set: { [`${field}.nextSyncAt`]: new Date(now.getTime() + Math.random() * intervalMs) } }
+            );
+        }
+
+        const due = await UserModel.find({ ...connected, [`${field}.nextSyncAt`]: { $lte: now } })
+            .select('_id')
+            .limit(SCHEDULE_BATCH_SIZE);
+        for (const user of due) {
+            const userId = (user._id as any).toString();
+            // Push the next run out now; it is set again from the outcome when the job finishes
+            await UserModel.updateOne(
+                { _id: user._id },
+                { $set: { [`${field}.nextSyncAt`]: new Date(now.getTime() + this.withJitter(intervalMs)) } }
+            );
+            await this.enqueue(userId, provider, 'schedule');
+        }
+    }
+
+    /**
+     * Claim queued jobs, oldest first, until every slot is busy. The claim is atomic, so several
+     * server processes can share the queue.
+     */
+    private static async processQueue(): Promise<void> {
+        const { concurrency } = getSyncConfig();
+
+        while (this.slots < concurrency) {
+            this.slots++;
+            let job: ISyncJob | null;
+            try {
+                job = await SyncJobModel.findOneAndUpdate(
+                    { status: 'queued' },
+                    { $set: { status: 'running', startedAt: new Date() } },
+                    { sort: { createdAt: 1 }, new: true }
+                );
+            } catch (error) {
+                this.slots--;
+                throw error;
+            }
+
+            if (!job) {
+                this.slots--;
+                return;
+            }
+
+            const jobId = jobIdOf(job);
+            this.running.add(jobId);
+            this.runJob(job).finally(() => {
+                this.running.delete(jobId);
+                this.slots--;
+                this.processQueue().catch(error => console.error('Sync scheduler error:', error.message));
+            });
+        }
+    }
+
+    private static async runJob(job: ISyncJob): Promise<void> {
+        const jobId = jobIdOf(job);
+        const provider = job.provider as IntegrationProvider;
+        const overrideAccessToken = this.overrideTokens.get(jobId);
+        this.overrideTokens.delete(jobId);
+
+        const update: Partial<ISyncJob> = {};
+        let failed = false;
+
+        try {
+            // Imports classify mail with the model, so a user over their AI quota waits for the next run
+            const quota = await UsageService.checkQuota(job.userId);
+            if (!quota.allowed) {
+                update.status = 'failed';
+                update.error = quota.reason;
+            } else {
+                const { counts, results } = await runWithLLMContext(
+                    { userId: job.userId, route: `sync-job:${provider}` },
+                    () => IntegrationService.syncProvider(job.userId, provider, overrideAccessToken)
+                );
+                const errors = results.filter(result => result.error).map(result => `${result.connector}: ${result.error}`);
+
+                failed = errors.length > 0;
+                update.status = failed ? 'failed' : 'succeeded';
+                update.counts = counts;
+                update.results = results;
+                if (failed) update.error = errors.join('; ');
+            }
+        } catch (error: any) {
+            failed = true;
+            update.status = 'failed';
+            update.error = error.message;
+            if (error instanceof ReauthRequiredError) update.needsReauth = true;
+            console.error(`Sync job ${jobId} (${provider}) failed:`, error.message);
+        }
+
+        try {
+            await SyncJobModel.updateOne(
+                { _id: job._id },
+                { $set: { ...update, finishedAt: new Date() }, $unset: { active: '' } }
+            );
+            await this.scheduleNext(job.userId, provider, failed);
+        } catch (error: any) {
+            console.error(`Failed to record sync job ${jobId}:`, error.message);
+        }
+    }
+
+    /**
+     * Set when the integration syncs next: one interval after a success, an exponentially
+     * growing delay (capped) after consecutive failures
+     */
+    private static async scheduleNext(userId: string, provider: IntegrationProvider, failed: boolean): Promise<void> {
+        const { intervalMs, maxBackoffMs } = getSyncConfig();
+        const field = `integrations.${provider}`;
+
+        if (!failed) {
+            await UserModel.updateOne(
+                { _id: userId },
+                { $set: { [`${field}.nextSyncAt`]: new Date(Date.now() + this.withJitter(intervalMs)), [`${field}.syncFailures`]: 0 } }
+            );
+            return;
+        }
+
+        const user = await UserModel.findOneAndUpdate(
+            { _id: userId },
+            { $inc: { [`${field}.syncFailures`]: 1 } },
+            { new: true }
+        ).select(field);
+        const failures = user?.integrations?.[provider]?.syncFailures || 1;
+        const delay = Math.min(intervalMs * 2 ** failures, maxBackoffMs);
+
+        await UserModel.updateOne(
+            { _id: userId },
+            { $set: { [`${field}.nextSyncAt`]: new Date(Date.now() + this.withJitter(delay)) } }
+        );
+    }
+
+    /**
+     * Fail running jobs that outlived the job timeout without belonging to this process,
+     * e.g. because the server restarted mid-sync, so their integration can be queued again
+     */
+    private static async failLostJobs(): Promise<void> {
+        const { jobTimeoutMs } = getSyncConfig();
+        const lost = await SyncJobModel.find({
+            status: 'running',
+            startedAt: { $lt: new Date(Date.now() - jobTimeoutMs) }
+        });
+
+        for (const job of lost) {
+            if (this.running.has(jobIdOf(job))) continue;
+            await SyncJobModel.updateOne(
+                { _id: job._id, status: 'running' },
+                { $set: { status: 'failed', error: 'Sync job timed out', finishedAt: new Date() }, $unset: { active: '' } }
+            );
+        }
+    }
+
+    private static withJitter(delayMs: number): number {
+        return delayMs + Math.random() * delayMs * getSyncConfig().jitterRatio;
+    }
+}
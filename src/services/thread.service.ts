@@ -1,5 +1,6 @@
 import { WorkThread } from '../types';
 import { WorkThreadModel } from '../models/WorkThread';
+import { invalidateLLMCache } from '../llm';
 
 export class WorkThreadService {
     /**
@@ -93,6 +94,7 @@ export class WorkThreadService {
             ...updates,
             updatedAt: new Date()
         });
+        invalidateLLMCache(`thread:${threadId}`);
     }
 
     /**
@@ -103,6 +105,7 @@ export class WorkThreadService {
             progress,
             updatedAt: new Date(),
         });
+        invalidateLLMCache(`thread:${threadId}`);
     }
 
     /**
@@ -113,6 +116,7 @@ export class WorkThreadService {
             isIgnored,
             updatedAt: new Date(),
         });
+        invalidateLLMCache(`thread:${threadId}`);
     }
 
     /**
@@ -120,6 +124,7 @@ export class WorkThreadService {
      */
     static async deleteThread(threadId: string): Promise<void> {
         await WorkThreadModel.findByIdAndDelete(threadId);
+        invalidateLLMCache(`thread:${threadId}`);
     }
 
     /**
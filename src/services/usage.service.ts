@@ -0,0 +1,132 @@
+import { LLMQuotaStatus, LLMUsageSummary } from '../types';
+import { LLMCallModel } from '../models/LLMCall';
+import { TeamModel } from '../models/Team';
+import { getLLMConfig } from '../config/llm';
+
+export type UsageGrouping = 'user' | 'team' | 'provider' | 'model' | 'caller' | 'day';
+
+const GROUP_FIELDS: Record<Exclude<UsageGrouping, 'team'>, any> = {
+    user: { $ifNull: ['$userId', 'unattributed'] },
+    provider: '$provider',
+    model: '$llmModel',
+    caller: '$caller',
+    day: { $dateToString: { format: '%Y-%m-%d', date: '$createdAt' } }
+};
+
+export class UsageService {
+    /**
+     * Check a user's token usage today against the per-user and per-team daily quotas
+     */
+    static async checkQuota(userId: string): Promise<LLMQuotaStatus> {
+        const { userDailyTokens, teamDailyTokens } = getLLMConfig().quotas;
+        const since = this.startOfToday();
+
+        const status: LLMQuotaStatus = {
+            allowed: true,
+            user: { usedTokens: await this.sumTokens([userId], since), limit: userDailyTokens },
+            teams: []
+        };
+
+        if (userDailyTokens && status.user.usedTokens >= userDailyTokens) {
+            status.allowed = false;
+            status.reason = `Daily AI quota of ${userDailyTokens} tokens reached`;
+        }
+
+        const teams = await TeamModel.find({ 'members.userId': userId });
+        for (const team of teams) {
+            const usedTokens = await this.sumTokens(team.members.map(m => m.userId), since);
+            status.teams.push({ teamId: (team._id as any).toString(), name: team.name, usedTokens, limit: teamDailyTokens });
+
+            if (status.allowed && teamDailyTokens && usedTokens >= teamDailyTokens) {
+                status.allowed = false;
+                status.reason = `Team "${team.name}" reached its daily AI quota of ${teamDailyTokens} tokens`;
+            }
+        }
+
+        return status;
+    }
+
+    /**
+     * Aggregate the call ledger between two dates
+     */
+    static async getUsage(from: Date, to: Date, groupBy: UsageGrouping = 'user'): Promise<LLMUsageSummary[]> {
+        if (groupBy === 'team') return this.getTeamUsage(from, to);
+
+        const rows = await LLMCallModel.aggregate([
+            { $match: { createdAt: { $gte: from, $lt: to } } },
+            {
+                $group: {
+                    _id: GROUP_FIELDS[groupBy],
+                    // Fallback rows mark a structured call that ended on the rule-based result, not a model request
+                    calls: { $sum: { $cond: [{ $eq: ['$status', 'fallback'] }, 0, 1] } },
+                    errors: { $sum: { $cond: [{ $eq: ['$status', 'error'] }, 1, 0] } },
+                    fallbacks: { $sum: { $cond: [{ $eq: ['$status', 'fallback'] }, 1, 0] } },
+                    promptTokens: { $sum: '$promptTokens' },
+                    completionTokens: { $sum: '$completionTokens' },
+                    totalTokens: { $sum: '$totalTokens' },
+                    estimatedTokenCalls: { $sum: { $cond: ['$tokensEstimated', 1, 0] } },
+                    latencyMs: { $sum: { $cond: [{ $eq: ['$status', 'fallback'] }, 0, '$latencyMs'] } }
+                }
+            },
+            { $sort: { totalTokens: -1 } }
+        ]);
+
+        return rows.map(row => ({
+            key: String(row._id),
+            calls: row.calls,
+            errors: row.errors,
+            fallbacks: row.fallbacks,
+            promptTokens: row.promptTokens,
+            completionTokens: row.completionTokens,
+            totalTokens: row.totalTokens,
+            estimatedTokenCalls: row.estimatedTokenCalls,
+            avgLatencyMs: row.calls ? Math.round(row.latencyMs / row.calls) : 0
+        }));
+    }
+
+    /**
+     * Team usage is the sum over the team's current members
+     */
+    private static async getTeamUsage(from: Date, to: Date): Promise<LLMUsageSummary[]> {
+        const byUser = new Map((await this.getUsage(from, to, 'user')).map(u => [u.key, u]));
+        const teams = await TeamModel.find();
+
+        return teams.map(team => {
+            const summary: LLMUsageSummary = {
+                key: (team._id as any).toString(), label: team.name, calls: 0, errors: 0, fallbacks: 0, promptTokens: 0,
+                completionTokens: 0, totalTokens: 0, estimatedTokenCalls: 0, avgLatencyMs: 0
+            };
+            let latencyMs = 0;
+
+            for (const member of team.members) {
+                const usage = byUser.get(member.userId);
+                if (!usage) continue;
+                summary.calls += usage.calls;
+                summary.errors += usage.errors;
+                summary.fallbacks += usage.fallbacks;
+                summary.promptTokens += usage.promptTokens;
+                summary.completionTokens += usage.completionTokens;
+                summary.totalTokens += usage.totalTokens;
+                summary.estimatedTokenCalls += usage.estimatedTokenCalls;
+                latencyMs += usage.avgLatencyMs * usage.calls;
+            }
+
+            summary.avgLatencyMs = summary.calls ? Math.round(latencyMs / summary.calls) : 0;
+            return summary;
+        }).sort((a, b) => b.totalTokens - a.totalTokens);
+    }
+
+    private static async sumTokens(userIds: string[], since: Date): Promise<number> {
+        const [row] = await LLMCallModel.aggregate([
+            { $match: { userId: { $in: userIds }, createdAt: { $gte: since } } },
+            { $group: { _id: null, totalTokens: { $sum: '$totalTokens' } } }
+        ]);
+        return row?.totalTokens || 0;
+    }
+
+    private static startOfToday(): Date {
+        const today = new Date();
+        today.setHours(0, 0, 0, 0);
+        return today;
+    }
+}
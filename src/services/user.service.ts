@@ -8,6 +8,7 @@ import { WorkThreadModel } from '../models/WorkThread';
 import { WorkItemModel } from '../models/WorkItem';
 import { MailService } from './mail.service';
 import { WorkItemService } from './workitem.service';
+import { encryptOptionalSecret, encryptSecret } from '../config/encryption';
 
 // Initialized inside methods to ensure env vars are loaded
 let googleClient: OAuth2Client | null = null;
@@ -223,8 +224,11 @@ export class UserService {
                 connected: true,
                 lastSync: new Date(),
                 email: email,
-                accessToken: tokens.access_token || undefined,
-                refreshToken: tokens.refresh_token || undefined
+                accessToken: encryptOptionalSecret(tokens.access_token),
+                refreshToken: encryptOptionalSecret(tokens.refresh_token),
+                expiresAt: tokens.expiry_date ? new Date(tokens.expiry_date) : undefined,
+                status: 'connected' as const,
+                statusReason: undefined
             };
 
             if (!user) {
@@ -262,7 +266,7 @@ export class UserService {
                         ...user.integrations.google,
                         ...googleIntegration,
                         // Preserve refresh token if new one is not provided (Google only sends it on first consent)
-                        refreshToken: tokens.refresh_token || user.integrations.google?.refreshToken
+                        refreshToken: googleIntegration.refreshToken || user.integrations.google?.refreshToken
                     };
                 }
                 await user.save();
@@ -281,7 +285,7 @@ export class UserService {
     /**
      * Microsoft Login
      */
-    static async microsoftLogin(accessToken: string): Promise<{ user: User, token: string }> {
+    static async microsoftLogin(accessToken: string, refreshToken?: string, expiresOn?: string | Date): Promise<{ user: User, token: string }> {
         try {
             // Fetch user info from Microsoft Graph API
             const response = await fetch('https://graph.microsoft.com/v1.0/me', {
@@ -304,6 +308,13 @@ export class UserService {
 
             let user = await UserModel.findOne({ email });
 
+            const microsoftTokens = {
+                accessToken: encryptSecret(accessToken),
+                expiresAt: expiresOn ? new Date(expiresOn) : undefined,
+                status: 'connected' as const,
+                statusReason: undefined
+            };
+
             if (!user) {
                 user = new UserModel({
                     name: displayName || 'Microsoft User',
@@ -322,7 +333,8 @@ export class UserService {
                             connected: true,
                             lastSync: new Date(),
                             email: email,
-                            accessToken: accessToken
+                            ...microsoftTokens,
+                            refreshToken: encryptOptionalSecret(refreshToken)
                         }
                     }
                 });
@@ -338,7 +350,8 @@ export class UserService {
                             connected: true,
                             lastSync: new Date(),
                             email: email,
-                            accessToken: accessToken
+                            ...microsoftTokens,
+                            refreshToken: encryptOptionalSecret(refreshToken)
                         }
                     };
                 } else {
@@ -347,7 +360,9 @@ export class UserService {
                         connected: true,
                         lastSync: new Date(),
                         email: email,
-                        accessToken: accessToken
+                        ...microsoftTokens,
+                        // Keep the stored refresh token when the client doesn't send a new one
+                        refreshToken: encryptOptionalSecret(refreshToken) || user.integrations?.microsoft?.refreshToken
                     };
                 }
 
@@ -0,0 +1,490 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { IWebhook, WebhookModel, WebhookRoutingRule } from '../models/Webhook';
+import { IWebhookDelivery, WebhookDeliveryModel } from '../models/WebhookDelivery';
+import { WorkThreadModel } from '../models/WorkThread';
+import { TeamModel } from '../models/Team';
+import { UserModel } from '../models/User';
+import { WorkItemService } from './workitem.service';
+import { IntegrationService } from './integration.service';
+import { encryptSecret } from '../config/encryption';
+import { evaluateMapping, readJsonPath, validateMapping } from '../utils/json-path';
+import { WorkItem } from '../types';
+
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+const DUPLICATE_KEY = 11000;
+const MAX_ROUTING_RULES = 50;
+const MAX_PREVIEW_LENGTH = 2000;
+const MAX_IDEMPOTENCY_KEY_LENGTH = 200;
+const MAX_PATTERN_LENGTH = 200;
+
+const ITEM_FIELDS = ['title', 'type', 'source', 'preview', 'priority', 'status', 'timestamp', 'assigneeEmail', 'idempotencyKey'];
+const ITEM_TYPES: WorkItem['type'][] = ['email', 'message', 'document', 'calendar', 'task'];
+const PRIORITIES: NonNullable<WorkItem['priority']>[] = ['high', 'medium', 'low'];
+const STATUSES: NonNullable<WorkItem['status']>[] = ['todo', 'in-progress', 'completed'];
+
+/**
+ * A request the webhook endpoints reject, with the HTTP status to answer with
+ */
+export class WebhookRequestError extends Error {
+    constructor(public status: number, message: string) {
+        super(message);
+        this.name = 'WebhookRequestError';
+    }
+}
+
+export interface WebhookInput {
+    name?: string;
+    teamId?: string;
+    mapping?: Record<string, string>;
+    routing?: WebhookRoutingRule[];
+    enabled?: boolean;
+}
+
+export interface WebhookReceipt {
+    itemId: string;
+    threadId: string;
+    /** The idempotency key was seen before; no new item was created */
+    duplicate: boolean;
+}
+
+export class WebhookService {
+    /**
+     * Create a webhook. The signing secret is only returned here and by `rotateSecret`.
+     */
+    static async createWebhook(userId: string, input: WebhookInput): Promise<{ webhook: IWebhook, secret: string }> {
+        if (!input.name?.trim()) throw new WebhookRequestError(400, 'Missing required field: name');
+        if (!input.mapping) throw new WebhookRequestError(400, 'Missing required field: mapping');
+        if (input.teamId) await this.assertTeamAdmin(userId, input.teamId);
+
+        this.validateMappingInput(input.mapping);
+        await this.validateRouting(userId, input.teamId, input.routing || []);
+
+        const secret = this.generateSecret();
+        const webhook = await WebhookModel.create({
+            userId,
+            teamId: input.teamId,
+            name: input.name.trim(),
+            secret: encryptSecret(secret),
+            mapping: input.mapping,
+            routing: input.routing || [],
+            enabled: input.enabled ?? true
+        });
+        return { webhook, secret };
+    }
+
+    /**
+     * Webhooks the user owns or administers through a team
+     */
+    static async listWebhooks(userId: string): Promise<IWebhook[]> {
+        const teams = await TeamModel.find({ members: { $elemMatch: { userId, role: 'admin' } } });
+        const teamIds = teams.map(team => (team._id as any).toString());
+        return WebhookModel.find({ $or: [{ userId }, { teamId: { $in: teamIds } }] }).sort({ createdAt: -1 });
+    }
+
+    /**
+     * A webhook the user may manage, or null
+     */
+    static async getWebhook(userId: string, webhookId: string): Promise<IWebhook | null> {
+        if (!mongoose.isValidObjectId(webhookId)) return null;
+        const webhook = await WebhookModel.findById(webhookId);
+        if (!webhook || !(await this.canManage(userId, webhook))) return null;
+        return webhook;
+    }
+
+    static async updateWebhook(userId: string, webhookId: string, input: WebhookInput): Promise<IWebhook | null> {
+        const webhook = await this.getWebhook(userId, webhookId);
+        if (!webhook) return null;
+
+        if (input.name !== undefined) {
+            if (!input.name.trim()) throw new WebhookRequestError(400, 'name cannot be empty');
+            webhook.name = input.name.trim();
+        }
+        if (input.mapping !== undefined) {
+            this.validateMappingInput(input.mapping);
+            webhook.mapping = input.mapping;
+            webhook.markModified('mapping');
+        }
+        if (input.routing !== undefined) {
+            await this.validateRouting(webhook.userId, webhook.teamId, input.routing);
+            webhook.routing = input.routing;
+        }
+        if (input.enabled !== undefined) webhook.enabled = !!input.enabled;
+
+        webhook.updatedAt = new Date();
+        await webhook.save();
+        return webhook;
+    }
+
+    /**
+     * Replace the signing secret; payloads signed with the old one are rejected from now on
+     */
+    static async rotateSecret(userId: string, webhookId: string): Promise<string | null> {
+        const webhook = await this.getWebhook(userId, webhookId);
+        if (!webhook) return null;
+
+        const secret = this.generateSecret();
+        webhook.secret = encryptSecret(secret);
+        webhook.updatedAt = new Date();
+        await webhook.save();
+        return secret;
+    }
+
+    /**
+     * Delete a webhook and its delivery log; items it created are kept
+     */
+    static async deleteWebhook(userId: string, webhookId: string): Promise<boolean> {
+        const webhook = await this.getWebhook(userId, webhookId);
+        if (!webhook) return false;
+
+        await WebhookModel.deleteOne({ _id: webhook._id });
+        await WebhookDeliveryModel.deleteMany({ webhookId });
+        return true;
+    }
+
+    static async listDeliveries(userId: string, webhookId: string, limit = 50): Promise<IWebhookDelivery[] | null> {
+        const webhook = await this.getWebhook(userId, webhookId);
+        if (!webhook) return null;
+        return WebhookDeliveryModel.find({ webhookId }).sort({ receivedAt: -1 }).limit(Math.min(limit, 200));
+    }
+
+    /**
+     * Turn a posted payload into a work item: check the signature, dedupe by idempotency key,
+     * map the payload to item fields and add the item to the thread picked by the routing rules
+     */
+    static async receive(webhookId: string, rawBody: Buffer | undefined, payload: any, headers: { signature?: string, idempotencyKey?: string }): Promise<WebhookReceipt> {
+        const webhook = mongoose.isValidObjectId(webhookId) ? await WebhookModel.findById(webhookId) : null;
+        if (!webhook || !webhook.enabled) throw new WebhookRequestError(404, 'Webhook not found');
+
+        this.verifySignature(webhook, rawBody, headers.signature);
+
+        if (!payload || typeof payload !== 'object') {
+            throw new WebhookRequestError(400, 'Payload must be a JSON object or array');
+        }
+
+        const key = this.getIdempotencyKey(webhook, payload, headers.idempotencyKey);
+        let delivery: IWebhookDelivery;
+        try {
+            delivery = await WebhookDeliveryModel.create({ webhookId, idempotencyKey: key, status: 'processing' });
+        } catch (error: any) {
+            if (error.code !== DUPLICATE_KEY) throw error;
+
+            const previous = await WebhookDeliveryModel.findOne({ webhookId, idempotencyKey: key });
+            if (previous?.status !== 'created') {
+                throw new WebhookRequestError(409, 'A delivery with this idempotency key is still being processed');
+            }
+            return { itemId: previous.itemId!, threadId: previous.threadId!, duplicate: true };
+        }
+
+        try {
+            const item = await this.mapItem(webhook, payload, key);
+            const threadId = await this.route(webhook, payload);
+            const created = await WorkItemService.createItem({
+                ...item,
+                userId: webhook.userId,
+                teamId: webhook.teamId,
+                threadId
+            });
+
+            await WorkThreadModel.findByIdAndUpdate(threadId, {
+                $addToSet: { itemIds: created.id },
+                // Items dated in the future (due dates) count as activity now
+                $max: { lastActivity: new Date(Math.min(item.timestamp.getTime(), Date.now())) }
+            });
+            await WebhookDeliveryModel.updateOne({ _id: delivery._id }, { $set: { status: 'created', itemId: created.id, threadId } });
+            await WebhookModel.updateOne({ _id: webhook._id }, { $set: { lastDeliveryAt: new Date() } });
+
+            return { itemId: created.id, threadId, duplicate: false };
+        } catch (error: any) {
+            // Drop the key, so the sender can retry a rejected payload with it
+            await WebhookDeliveryModel.updateOne(
+                { _id: delivery._id },
+                { $set: { status: 'rejected', error: error.message }, $unset: { idempotencyKey: '' } }
+            );
+            throw error;
+        }
+    }
+
+    /**
+     * Signature header for a payload: `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<raw body>">`
+     */
+    static sign(secret: string, body: string | Buffer, timestamp = Math.floor(Date.now() / 1000)): string {
+        const signature = crypto.createHmac('sha256', secret).update(`${timestamp}.`).update(body).digest('hex');
+        return `t=${timestamp},v1=${signature}`;
+    }
+
+    /**
+     * The secret is decrypted by IntegrationService, which signs the body for comparison
+     */
+    private static verifySignature(webhook: IWebhook, rawBody: Buffer | undefined, header?: string): void {
+        if (!header || !rawBody) throw new WebhookRequestError(401, 'Missing X-Monocle-Signature header');
+
+        const parts = header.split(',').map(part => part.trim().split('='));
+        const timestamp = parseInt(parts.find(([name]) => name === 't')?.[1] || '');
+        const signatures = parts.filter(([name]) => name === 'v1').map(([, value]) => value);
+        if (!timestamp || signatures.length === 0) throw new WebhookRequestError(401, 'Malformed X-Monocle-Signature header');
+
+        // Old signatures are refused, so a captured request can't be replayed later
+        if (Math.abs(Date.now() / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS) {
+            throw new WebhookRequestError(401, 'Signature timestamp is too old or in the future');
+        }
+
+        const expected = Buffer.from(IntegrationService.signWebhookPayload(webhook, rawBody, timestamp).split('v1=')[1], 'hex');
+        const valid = signatures.some(signature => {
+            const actual = Buffer.from(signature, 'hex');
+            return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+        });
+        if (!valid) throw new WebhookRequestError(401, 'Invalid signature');
+    }
+
+    /**
+     * The `Idempotency-Key` header, or else the mapped `idempotencyKey`
+     */
+    private static getIdempotencyKey(webhook: IWebhook, payload: any, header?: string): string | undefined {
+        const expression = webhook.mapping.idempotencyKey;
+        const value = header || (expression ? evaluateMapping(payload, expression) : undefined);
+        if (value === null || value === undefined || value === '') return undefined;
+
+        const key = String(value).trim();
+        if (key.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+            throw new WebhookRequestError(400, `Idempotency key is longer than ${MAX_IDEMPOTENCY_KEY_LENGTH} characters`);
+        }
+        return key || undefined;
+    }
+
+    /**
+     * Build the item's fields from the payload. Unmapped fields get defaults: a medium priority
+     * `task` named after the webhook as its source.
+     */
+    private static async mapItem(webhook: IWebhook, payload: any, idempotencyKey?: string): Promise<Omit<WorkItem, 'id' | 'userId'> & { timestamp: Date }> {
+        const read = (field: string) => webhook.mapping[field] !== undefined ? evaluateMapping(payload, webhook.mapping[field]) : undefined;
+        const text = (value: any) => value === null || value === undefined
+            ? undefined
+            : (typeof value === 'object' ? JSON.stringify(value) : String(value)).trim() || undefined;
+        const oneOf = <T extends string>(field: string, allowed: readonly T[], fallback: T): T => {
+            const value = text(read(field));
+            if (value === undefined) return fallback;
+            if (!allowed.includes(value.toLowerCase() as T)) {
+                throw new WebhookRequestError(422, `Mapped ${field} "${value}" is not one of: ${allowed.join(', ')}`);
+            }
+            return value.toLowerCase() as T;
+        };
+
+        const title = text(read('title'));
+        if (!title) throw new WebhookRequestError(422, 'Mapped title is empty');
+
+        const metadata: Record<string, any> = { webhookId: (webhook._id as any).toString(), idempotencyKey };
+        for (const [field, expression] of Object.entries(webhook.mapping)) {
+            if (field.startsWith('metadata.')) metadata[field.slice('metadata.'.length)] = evaluateMapping(payload, expression);
+        }
+
+        return {
+            title,
+            type: oneOf('type', ITEM_TYPES, 'task'),
+            source: text(read('source')) || webhook.name,
+            preview: text(read('preview'))?.slice(0, MAX_PREVIEW_LENGTH),
+            priority: oneOf('priority', PRIORITIES, 'medium'),
+            status: oneOf('status', STATUSES, 'todo'),
+            timestamp: this.toDate(read('timestamp')),
+            isRead: false,
+            assigneeId: await this.resolveAssignee(webhook, text(read('assigneeEmail'))),
+            metadata
+        };
+    }
+
+    /**
+     * Dates may be ISO strings or Unix timestamps in seconds or milliseconds
+     */
+    private static toDate(value: any): Date {
+        if (value === null || value === undefined || value === '') return new Date();
+
+        const numeric = typeof value === 'number' ? value : (/^\d+$/.test(String(value)) ? Number(value) : NaN);
+        const date = Number.isNaN(numeric) ? new Date(value) : new Date(numeric < 1e12 ? numeric * 1000 : numeric);
+        if (Number.isNaN(date.getTime())) throw new WebhookRequestError(422, `Mapped timestamp "${value}" is not a date`);
+        return date;
+    }
+
+    /**
+     * Items can only be assigned inside the webhook's scope: a team member, or the owner of a personal webhook
+     */
+    private static async resolveAssignee(webhook: IWebhook, email?: string): Promise<string | undefined> {
+        if (!email) return undefined;
+
+        const user = await UserModel.findOne({ email: email.toLowerCase() });
+        const userId = user ? (user._id as any).toString() : undefined;
+        if (!userId) return undefined;
+
+        if (webhook.teamId) {
+            const team = await TeamModel.findById(webhook.teamId);
+            return team?.members.some(member => member.userId === userId) ? userId : undefined;
+        }
+        return userId === webhook.userId ? userId : undefined;
+    }
+
+    /**
+     * Pick the item's thread: the first matching routing rule, or the webhook's own thread
+     */
+    private static async route(webhook: IWebhook, payload: any): Promise<string> {
+        const webhookId = (webhook._id as any).toString();
+
+        for (const rule of webhook.routing) {
+            if (!this.ruleMatches(rule, payload)) continue;
+
+            if (rule.threadId) {
+                const thread = await WorkThreadModel.findOne({ _id: rule.threadId, ...this.threadScope(webhook.userId, webhook.teamId) });
+                // A deleted thread no longer catches items; the next rules get a chance
+                if (thread) return (thread._id as any).toString();
+                continue;
+            }
+
+            const title = rule.threadTitle ? String(evaluateMapping(payload, rule.threadTitle) ?? '').trim() : '';
+            if (title) return this.getOrCreateThread(webhook, `webhook:${webhookId}:${title.toLowerCase()}`, title);
+        }
+
+        return this.getOrCreateThread(webhook, `webhook:${webhookId}`, webhook.name);
+    }
+
+    private static ruleMatches(rule: WebhookRoutingRule, payload: any): boolean {
+        if (!rule.path) return true;
+
+        const value = readJsonPath(payload, rule.path);
+        if (value === null || value === undefined) return false;
+        const text = (typeof value === 'object' ? JSON.stringify(value) : String(value)).slice(0, 1000);
+
+        if (rule.equals !== undefined && rule.equals !== null) return text === rule.equals;
+        // Rules saved before patterns were checked may hold an unsafe one, which never matches
+        if (rule.matches) return !this.findUnsafePattern(rule.matches) && new RegExp(rule.matches, 'i').test(text);
+        return text !== '' && value !== false;
+    }
+
+    /**
+     * Why a routing pattern could backtrack exponentially on the payloads it is tested against, if it could:
+     * a repeated group holding a quantifier or alternation (`(a+)+`, `(a|ab)*`), a backreference or a long pattern
+     */
+    private static findUnsafePattern(pattern: string): string | undefined {
+        if (pattern.length > MAX_PATTERN_LENGTH) return `must be at most ${MAX_PATTERN_LENGTH} characters`;
+
+        // Per open group: whether it holds a quantifier or alternation
+        const groups: boolean[] = [];
+        let afterRiskyGroup = false;
+        for (let i = 0; i < pattern.length; i++) {
+            const char = pattern[i];
+            let closedRiskyGroup = false;
+            if (char === '\\') {
+                if (/[1-9k]/.test(pattern[i + 1] || '')) return 'must not use backreferences';
+                i++;
+            } else if (char === '[') {
+                // Skip the character class, whose ] may come first or be escaped
+                i += pattern[i + 1] === '^' ? 2 : 1;
+                if (pattern[i] === ']') i++;
+                while (i < pattern.length && pattern[i] !== ']') i += pattern[i] === '\\' ? 2 : 1;
+            } else if (char === '(') {
+                groups.push(false);
+            } else if (char === ')') {
+                closedRiskyGroup = groups.pop() ?? false;
+                if (closedRiskyGroup && groups.length) groups[groups.length - 1] = true;
+            } else if (char === '|' || char === '*' || char === '+' || (char === '{' && /^\{\d+(,\d*)?\}/.test(pattern.slice(i)))) {
+                if (char !== '|' && afterRiskyGroup) return 'must not repeat a group that contains a quantifier or alternation';
+                if (groups.length) groups[groups.length - 1] = true;
+            }
+            afterRiskyGroup = closedRiskyGroup;
+        }
+        return undefined;
+    }
+
+    private static async getOrCreateThread(webhook: IWebhook, externalId: string, title: string): Promise<string> {
+        const thread = await WorkThreadModel.findOneAndUpdate(
+            { userId: webhook.userId, externalId },
+            {
+                $setOnInsert: {
+                    userId: webhook.userId,
+                    teamId: webhook.teamId,
+                    externalId,
+                    title,
+                    description: `Items posted to the ${webhook.name} webhook.`,
+                    priority: 'medium',
+                    progress: 0,
+                    lastActivity: new Date(),
+                    itemIds: []
+                }
+            },
+            { upsert: true, new: true }
+        );
+        return (thread._id as any).toString();
+    }
+
+    private static validateMappingInput(mapping: Record<string, string>): void {
+        if (typeof mapping !== 'object' || Array.isArray(mapping)) {
+            throw new WebhookRequestError(400, 'mapping must be an object of field to expression');
+        }
+        if (!mapping.title) throw new WebhookRequestError(400, 'mapping.title is required');
+
+        for (const [field, expression] of Object.entries(mapping)) {
+            if (!ITEM_FIELDS.includes(field) && !/^metadata\.[\w-]+$/.test(field)) {
+                throw new WebhookRequestError(400, `Unknown mapping field "${field}"; use one of ${ITEM_FIELDS.join(', ')} or metadata.<name>`);
+            }
+            if (typeof expression !== 'string') throw new WebhookRequestError(400, `mapping.${field} must be a string`);
+            try {
+                validateMapping(expression);
+            } catch (error: any) {
+                throw new WebhookRequestError(400, `mapping.${field}: ${error.message}`);
+            }
+        }
+    }
+
+    private static async validateRouting(userId: string, teamId: string | undefined, routing: WebhookRoutingRule[]): Promise<void> {
+        if (!Array.isArray(routing)) throw new WebhookRequestError(400, 'routing must be an array of rules');
+        if (routing.length > MAX_ROUTING_RULES) throw new WebhookRequestError(400, `At most ${MAX_ROUTING_RULES} routing rules are allowed`);
+
+        for (const [index, rule] of routing.entries()) {
+            const label = `routing[${index}]`;
+            if (!rule.threadId && !rule.threadTitle) throw new WebhookRequestError(400, `${label} needs a threadId or threadTitle`);
+
+            try {
+                if (rule.path) validateMapping(rule.path);
+                if (rule.threadTitle) validateMapping(rule.threadTitle);
+                if (rule.matches) {
+                    new RegExp(rule.matches, 'i');
+                    const unsafe = this.findUnsafePattern(rule.matches);
+                    if (unsafe) throw new Error(`matches ${unsafe}`);
+                }
+            } catch (error: any) {
+                throw new WebhookRequestError(400, `${label}: ${error.message}`);
+            }
+
+            if (rule.threadId) {
+                const thread = mongoose.isValidObjectId(rule.threadId)
+                    ? await WorkThreadModel.findOne({ _id: rule.threadId, ...this.threadScope(userId, teamId) })
+                    : null;
+                if (!thread) throw new WebhookRequestError(400, `${label}: thread ${rule.threadId} not found`);
+            }
+        }
+    }
+
+    /**
+     * Threads a webhook may add items to: the owner's, or for team webhooks also the team's
+     */
+    private static threadScope(userId: string, teamId?: string): Record<string, any> {
+        return teamId ? { $or: [{ userId }, { teamId }] } : { userId };
+    }
+
+    private static async canManage(userId: string, webhook: IWebhook): Promise<boolean> {
+        if (webhook.userId === userId) return true;
+        if (!webhook.teamId) return false;
+
+        const team = await TeamModel.findById(webhook.teamId);
+        return !!team?.members.some(member => member.userId === userId && member.role === 'admin');
+    }
+
+    private static async assertTeamAdmin(userId: string, teamId: string): Promise<void> {
+        const team = mongoose.isValidObjectId(teamId) ? await TeamModel.findById(teamId) : null;
+        if (!team) throw new WebhookRequestError(404, 'Team not found');
+        if (!team.members.some(member => member.userId === userId && member.role === 'admin')) {
+            throw new WebhookRequestError(403, 'Only team admins can add team webhooks');
+        }
+    }
+
+    private static generateSecret(): string {
+        return `whsec_${crypto.randomBytes(32).toString('base64url')}`;
+    }
+}
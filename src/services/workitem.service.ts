@@ -1,7 +1,9 @@
 import { WorkItem } from '../types';
-import { WorkItemModel } from '../models/WorkItem';
+import { IWorkItem, WorkItemModel } from '../models/WorkItem';
 import { MailService } from './mail.service';
 import { UserService } from './user.service';
+import { IntegrationService } from './integration.service';
+import { invalidateLLMCache } from '../llm';
 
 export class WorkItemService {
     /**
@@ -110,7 +112,9 @@ export class WorkItemService {
      */
     static async markAsRead(itemId: string): Promise<void> {
         try {
-            await WorkItemModel.findByIdAndUpdate(itemId, { isRead: true });
+            const previous = await WorkItemModel.findByIdAndUpdate(itemId, { isRead: true });
+            this.invalidateCachedResults(itemId, previous?.threadId);
+            if (previous) this.writeBack(previous, { isRead: true });
         } catch (error: any) {
             console.error(`Error marking item ${itemId} as read:`, error);
             throw error;
@@ -118,11 +122,14 @@ export class WorkItemService {
     }
 
     /**
-     * Update item
+     * Update item. Read state and status changes are written back to the item's source,
+     * except for updates that come from the source (`writeBack: false`).
      */
-    static async updateItem(itemId: string, updates: Partial<WorkItem>): Promise<void> {
+    static async updateItem(itemId: string, updates: Partial<WorkItem>, options: { writeBack?: boolean } = {}): Promise<void> {
         try {
-            await WorkItemModel.findByIdAndUpdate(itemId, updates);
+            const previous = await WorkItemModel.findByIdAndUpdate(itemId, updates);
+            this.invalidateCachedResults(itemId, previous?.threadId, updates.threadId);
+            if (previous && options.writeBack !== false) this.writeBack(previous, updates);
         } catch (error: any) {
             console.error(`Error updating work item ${itemId}:`, error);
             throw error;
@@ -134,7 +141,8 @@ export class WorkItemService {
      */
     static async deleteItem(itemId: string): Promise<void> {
         try {
-            await WorkItemModel.findByIdAndDelete(itemId);
+            const previous = await WorkItemModel.findByIdAndDelete(itemId);
+            this.invalidateCachedResults(itemId, previous?.threadId);
         } catch (error: any) {
             console.error(`Error deleting work item ${itemId}:`, error);
             throw error;
@@ -146,7 +154,8 @@ export class WorkItemService {
      */
     static async assignToThread(itemId: string, threadId: string): Promise<void> {
         try {
-            await WorkItemModel.findByIdAndUpdate(itemId, { threadId });
+            const previous = await WorkItemModel.findByIdAndUpdate(itemId, { threadId });
+            this.invalidateCachedResults(itemId, previous?.threadId, threadId);
         } catch (error: any) {
             console.error(`Error assigning item ${itemId} to thread ${threadId}:`, error);
             throw error;
@@ -162,4 +171,21 @@ export class WorkItemService {
             throw error;
         }
     }
+
+    /**
+     * Push a change to the item's source system in the background, like the assignment email
+     */
+    private static writeBack(previous: IWorkItem, changes: Partial<WorkItem>): void {
+        IntegrationService.writeBack(previous, changes).catch(err =>
+            console.error(`Failed to write back changes of item ${previous._id}:`, err)
+        );
+    }
+
+    /**
+     * Drop cached model output for an item and the threads it belongs (or belonged) to
+     */
+    private static invalidateCachedResults(itemId: string, ...threadIds: (string | undefined)[]): void {
+        const tags = [`item:${itemId}`, ...threadIds.filter(Boolean).map(id => `thread:${id}`)];
+        invalidateLLMCache(...tags);
+    }
 }
@@ -1,10 +1,10 @@
-import { model } from './config/ollama';
+import { getLLMProvider } from './llm';
 
 async function testOllama() {
-    console.log("Starting Ollama Integration Test 2...");
+    console.log("Starting LLM Integration Test 2...");
     try {
-        const result = await model.generateContent("Test");
-        console.log("Response:", result.response.text());
+        const result = await getLLMProvider().generate("Test");
+        console.log(`Response (${result.provider}/${result.model}):`, result.text);
         console.log("GENERATE TEST PASSED");
     } catch (error: any) {
         console.error("GENERATE TEST FAILED:", error.message);
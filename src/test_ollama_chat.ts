@@ -1,33 +1,22 @@
-import { model } from './config/ollama';
+import { ChatMessage, getLLMProvider } from './llm';
 
 async function testOllamaChat() {
-    console.log("Starting Ollama CHAT Integration Test...");
+    console.log("Starting LLM CHAT Integration Test...");
 
-    const systemPrompt = "You are a helpful assistant.";
-    const history = [
-        {
-            role: 'user',
-            parts: [{ text: systemPrompt }]
-        },
-        {
-            role: 'model',
-            parts: [{ text: 'Understood.' }]
-        }
+    const messages: ChatMessage[] = [
+        { role: 'system', content: "You are a helpful assistant." },
+        { role: 'assistant', content: 'Understood.' },
+        { role: 'user', content: 'hello' }
     ];
 
     try {
-        console.log("Initializing Chat...");
-        const chat = model.startChat({
-            history: history
-        });
-
-        console.log("Sending Message 'hello'...");
-        const result = await chat.sendMessage("hello");
-        const responseText = result.response.text();
+        const provider = getLLMProvider();
+        console.log(`Sending Message 'hello' to ${provider.name}/${provider.model}...`);
+        const result = await provider.chat(messages);
 
         console.log("--------------------------------");
-        console.log("Ollama Chat Response:");
-        console.log(responseText);
+        console.log("Chat Response:");
+        console.log(result.text);
         console.log("--------------------------------");
         console.log("Test PASSED");
     } catch (error: any) {
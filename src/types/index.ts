@@ -20,11 +20,82 @@ export interface User {
             email?: string;
             accessToken?: string;
             refreshToken?: string;
+            expiresAt?: Date;
+            status?: IntegrationStatus;
+            statusReason?: string;
+            nextSyncAt?: Date;
+            syncFailures?: number;
         };
         notion?: {
             connected: boolean;
             apiKey?: string;
             lastSync?: Date;
+            status?: IntegrationStatus;
+            statusReason?: string;
+            nextSyncAt?: Date;
+            syncFailures?: number;
+            workspaceName?: string;
+            databaseIds?: string[];
+        };
+        github?: {
+            connected: boolean;
+            apiKey?: string;
+            lastSync?: Date;
+            status?: IntegrationStatus;
+            statusReason?: string;
+            nextSyncAt?: Date;
+            syncFailures?: number;
+            login?: string;
+            webhookSecret?: string;
+        };
+        jira?: {
+            connected: boolean;
+            apiKey?: string;
+            lastSync?: Date;
+            status?: IntegrationStatus;
+            statusReason?: string;
+            nextSyncAt?: Date;
+            syncFailures?: number;
+            siteUrl?: string;
+            email?: string;
+            accountId?: string;
+            writeBack?: boolean;
+            threadBy?: 'epic' | 'sprint';
+            statusMapping?: Record<string, Record<string, 'todo' | 'in-progress' | 'completed'>>;
+        };
+        linear?: {
+            connected: boolean;
+            apiKey?: string;
+            lastSync?: Date;
+            status?: IntegrationStatus;
+            statusReason?: string;
+            nextSyncAt?: Date;
+            syncFailures?: number;
+            organizationName?: string;
+            writeBack?: boolean;
+            threadBy?: 'epic' | 'sprint';
+            statusMapping?: Record<string, Record<string, 'todo' | 'in-progress' | 'completed'>>;
+        };
+        imap?: {
+            connected: boolean;
+            lastSync?: Date;
+            status?: IntegrationStatus;
+            statusReason?: string;
+            nextSyncAt?: Date;
+            syncFailures?: number;
+            host?: string;
+            port?: number;
+            secure?: boolean;
+            username?: string;
+            password?: string;
+        };
+        ics?: {
+            connected: boolean;
+            lastSync?: Date;
+            status?: IntegrationStatus;
+            statusReason?: string;
+            nextSyncAt?: Date;
+            syncFailures?: number;
         };
         microsoft?: {
             connected: boolean;
@@ -32,10 +103,18 @@ export interface User {
             email?: string;
             accessToken?: string;
             refreshToken?: string;
+            expiresAt?: Date;
+            status?: IntegrationStatus;
+            statusReason?: string;
+            nextSyncAt?: Date;
+            syncFailures?: number;
         };
     };
 }
 
+// `needs-reauth` means the stored tokens were rejected and the user has to connect the account again
+export type IntegrationStatus = 'connected' | 'needs-reauth';
+
 export interface UserPreferences {
     workHoursStart: number; // Hour of day (0-23)
     workHoursEnd: number;
@@ -78,6 +157,7 @@ export interface WorkThread {
     updatedAt: Date;
     teamId?: string;
     assigneeId?: string;
+    externalId?: string;
 }
 
 export interface Team {
@@ -118,6 +198,7 @@ export interface PriorityRecommendation {
     };
     generatedAt: Date;
     isActive: boolean;
+    promptVersion?: string; // name@version of the prompt that produced the reasoning, unset for rule-based
 }
 
 export interface PriorityFactor {
@@ -138,6 +219,73 @@ export interface WorkInsight {
     detectedAt: Date;
     isActive: boolean;
     isDismissed?: boolean;
+    promptVersion?: string; // name@version of the prompt that produced the insight, unset for rule-based
+}
+
+export interface Conversation {
+    id: string;
+    userId: string;
+    title: string;
+    messageCount: number;
+    lastMessageAt?: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface Citation {
+    ref: number; // The [n] marker used in the reply
+    kind: 'item' | 'thread';
+    id: string;
+    title: string;
+    source: string;
+    itemType?: WorkItem['type'];
+    timestamp?: Date;
+    // Provider ids the UI uses to link back to the original email/message
+    externalId?: string;
+    externalThreadId?: string;
+    url?: string;
+}
+
+export interface ChatMessage {
+    id: string;
+    conversationId: string;
+    userId: string;
+    role: 'user' | 'assistant';
+    content: string;
+    // Work context the assistant was given when producing this reply
+    context?: {
+        threadIds: string[];
+        insightIds: string[];
+        citations?: Citation[];
+    };
+    // Actions the assistant proposed in this reply
+    actionIds?: string[];
+    createdAt: Date;
+}
+
+export type ChatToolName =
+    | 'create_thread'
+    | 'update_thread_progress'
+    | 'set_thread_ignored'
+    | 'mark_item_read'
+    | 'assign_item_to_thread'
+    | 'update_item_status'
+    | 'create_calendar_event'
+    | 'search_work';
+
+export interface ChatAction {
+    id: string;
+    userId: string;
+    conversationId?: string;
+    tool: ChatToolName;
+    arguments: Record<string, any>;
+    summary: string; // Human readable description shown in the confirmation UI
+    status: 'pending' | 'executing' | 'executed' | 'rejected' | 'failed';
+    result?: any;
+    error?: string;
+    proposedAt: Date;
+    decidedAt?: Date;
+    executedAt?: Date;
 }
 
 export interface CognitiveLoadState {
@@ -171,3 +319,44 @@ export interface Activity {
     timestamp: Date;
     metadata: Record<string, any>;
 }
+
+export interface LLMUsageSummary {
+    key: string; // user, team, provider, model, caller or day depending on grouping
+    label?: string;
+    calls: number;
+    errors: number;
+    fallbacks: number;
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+    estimatedTokenCalls: number;
+    avgLatencyMs: number;
+}
+
+export interface LLMQuotaStatus {
+    allowed: boolean;
+    reason?: string;
+    user: { usedTokens: number; limit: number };
+    teams: { teamId: string; name: string; usedTokens: number; limit: number }[];
+}
+
+export interface ConnectorHealth {
+    connector: string;
+    label: string;
+    lastRunAt?: Date;
+    lastRunStatus?: 'succeeded' | 'partial' | 'failed';
+    lastSuccessAt?: Date;
+    lastError?: string; // Error of the latest run, if it had one
+}
+
+export interface IntegrationHealth {
+    provider: string;
+    connected: boolean;
+    needsReauth: boolean;
+    statusReason?: string;
+    lastSuccessAt?: Date; // Latest run of any connector that finished without errors
+    lastError?: { connector: string; message: string; at: Date };
+    nextSyncAt?: Date;
+    syncFailures: number;
+    connectors: ConnectorHealth[];
+}
@@ -0,0 +1,73 @@
+/**
+ * JSONPath-style field access for mapping external payloads: `$.build.status`, `$.commits[0].id`,
+ * `$['display name']`. Only child names and array indexes are supported (no wildcards or filters).
+ */
+
+type PathStep = string | number;
+
+const STEP = /\.([A-Za-z_$][\w$-]*)|\[(-?\d+)\]|\['((?:[^'\\]|\\.)*)'\]|\["((?:[^"\\]|\\.)*)"\]/y;
+const TEMPLATE_PLACEHOLDER = /\{\{\s*(\$[^}]*?)\s*\}\}/g;
+
+/**
+ * Split a path into its steps. Throws when it is not a valid path.
+ */
+export const parseJsonPath = (path: string): PathStep[] => {
+    const trimmed = path.trim();
+    if (!trimmed.startsWith('$')) throw new Error(`Invalid path "${path}": must start with $`);
+
+    const steps: PathStep[] = [];
+    STEP.lastIndex = 1;
+    while (STEP.lastIndex < trimmed.length) {
+        const start = STEP.lastIndex;
+        const match = STEP.exec(trimmed);
+        if (!match) throw new Error(`Invalid path "${path}" at position ${start}`);
+
+        const [, name, index, singleQuoted, doubleQuoted] = match;
+        if (index !== undefined) steps.push(parseInt(index));
+        else steps.push((name ?? singleQuoted ?? doubleQuoted).replace(/\\(.)/g, '$1'));
+    }
+    return steps;
+};
+
+/**
+ * Read the value at a path, or undefined when any step is missing. Negative indexes count from the end.
+ */
+export const readJsonPath = (data: any, path: string): any => {
+    let value = data;
+    for (const step of parseJsonPath(path)) {
+        if (value === null || value === undefined) return undefined;
+        if (typeof step === 'number') {
+            if (!Array.isArray(value)) return undefined;
+            value = value[step < 0 ? value.length + step : step];
+        } else {
+            value = typeof value === 'object' ? value[step] : undefined;
+        }
+    }
+    return value;
+};
+
+/**
+ * Evaluate a mapping expression against a payload: a path (`$.title`), a template with
+ * `{{$.path}}` placeholders (`Build {{$.build.number}} failed`), or otherwise a literal value
+ */
+export const evaluateMapping = (data: any, expression: string): any => {
+    if (expression.trim().startsWith('$')) return readJsonPath(data, expression);
+    if (!expression.includes('{{')) return expression;
+
+    return expression.replace(TEMPLATE_PLACEHOLDER, (_, path: string) => {
+        const value = readJsonPath(data, path);
+        if (value === null || value === undefined) return '';
+        return typeof value === 'object' ? JSON.stringify(value) : String(value);
+    });
+};
+
+/**
+ * Check every path in a mapping expression, throwing on the first invalid one
+ */
+export const validateMapping = (expression: string): void => {
+    if (expression.trim().startsWith('$')) {
+        parseJsonPath(expression);
+        return;
+    }
+    for (const [, path] of expression.matchAll(TEMPLATE_PLACEHOLDER)) parseJsonPath(path);
+};